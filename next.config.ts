@@ -9,9 +9,14 @@ const nextConfig: NextConfig = {
   serverExternalPackages: ["pino"],
   // Serve a Markdown twin of any page: appending `.md` to a URL routes to the
   // `/md/[[...path]]` handler (e.g. `/recipes/neon-drizzle-setup.md`). The
-  // landing page is reachable via `/index.md` and `/.md`.
+  // landing page is reachable via `/index.md` and `/.md`. Appending `.diff`
+  // to a recipe URL routes to the `/diff/[slug]` handler, and custom cookbooks
+  // (`/c/<id>.md`) have their own `/c/[id]/md` handler. `src/proxy.ts` serves
+  // the same Markdown from page URLs when the Accept header prefers it.
   async rewrites() {
     return [
+      { source: "/recipes/:slug.diff", destination: "/diff/:slug" },
+      { source: "/c/:id.md", destination: "/c/:id/md" },
       { source: "/index.md", destination: "/md" },
       { source: "/.md", destination: "/md" },
       { source: "/:path*.md", destination: "/md/:path*" },
@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+/**
+ * Apply a recipe to the app in the current directory
+ *
+ * Published as the `fullstackrecipes` package from cli/: `bun run cli:build`
+ * bundles this script with everything it imports into cli/dist, so the
+ * package has no dependencies. In this repo, `bun run cli` runs it directly.
+ *
+ * Usage:
+ *   bunx fullstackrecipes apply <slug>             # write files and merge config
+ *   bunx fullstackrecipes apply <slug> --dry-run   # print the diff only
+ *   bunx fullstackrecipes apply <slug> --force     # overwrite differing files
+ *   bunx fullstackrecipes apply <slug> --url http://localhost:3000
+ *
+ * Fetches the recipe's Markdown twin (/recipes/<slug>.md), writes every code
+ * block that names a file to its path, installs `shadcn add` registry items
+ * from their built JSON, adds packages from install commands to package.json,
+ * and appends `.env` blocks to .env.example. Existing files with different
+ * content are conflicts: nothing is written until they are resolved or
+ * `--force` is passed. Files that would land outside the current directory
+ * are refused.
+ */
+
+import { existsSync, promises as fs } from "fs";
+import path from "path";
+import {
+  formatFileChange,
+  parseRecipeMarkdown,
+  planApply,
+  UnsafeFilePathError,
+  type FileChangeStatus,
+} from "../../src/lib/recipes/apply";
+import {
+  getRegistryItemUrl,
+  type RegistryItemJson,
+} from "../../src/lib/recipes/registry";
+
+// ANSI colors
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const yellow = (s: string) => `\x1b[33m${s}\x1b[0m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
+const bold = (s: string) => `\x1b[1m${s}\x1b[0m`;
+
+const STATUS_LABELS: Record<FileChangeStatus, string> = {
+  create: green("+ create"),
+  update: yellow("~ update"),
+  unchanged: dim("= unchanged"),
+  conflict: red("✗ conflict"),
+};
+
+const USAGE =
+  "Usage: fullstackrecipes apply <slug> [--dry-run] [--force] [--url <origin>]";
+
+function fail(message: string): never {
+  console.error(red(message));
+  process.exit(1);
+}
+
+function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    fail(`Failed to fetch ${url}: ${response.status}`);
+  }
+  return response.text();
+}
+
+async function readFileOrNull(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+const [command, slug] = process.argv.slice(2);
+if (command !== "apply" || !slug || slug.startsWith("-")) {
+  fail(USAGE);
+}
+
+const origin = getOption("--url") ?? "https://fullstackrecipes.com";
+const dryRun = process.argv.includes("--dry-run");
+const force = process.argv.includes("--force");
+
+const markdown = await fetchText(`${origin}/recipes/${slug}.md`);
+const title = markdown.match(/^# (.+)$/m)?.[1] ?? slug;
+const changes = parseRecipeMarkdown(markdown);
+const registryItems = await Promise.all(
+  changes.registryItems.map(
+    async (name) =>
+      JSON.parse(
+        await fetchText(getRegistryItemUrl(name, origin)),
+      ) as RegistryItemJson,
+  ),
+);
+
+const plan = await planApply(changes, registryItems, readFileOrNull, {
+  title,
+  srcDir: existsSync("src"),
+  force,
+}).catch((error: unknown) => {
+  if (error instanceof UnsafeFilePathError) fail(error.message);
+  throw error;
+});
+
+console.log(bold(`\n${title}`) + dim(` (${slug})`));
+for (const change of plan) {
+  console.log(`  ${STATUS_LABELS[change.status]}  ${change.path}`);
+}
+for (const excerpt of changes.excerpts) {
+  console.log(`  ${yellow("? edit")}  ${excerpt} ${dim("(shown in part)")}`);
+}
+
+for (const change of plan) {
+  const diff = formatFileChange(change);
+  if (diff) console.log(`\n${diff}`);
+}
+
+if (markdown.includes("\n## Prerequisites\n")) {
+  console.log(
+    yellow(`\nThis recipe has prerequisites; apply them first if you haven't.`),
+  );
+}
+
+const conflicts = plan.filter((change) => change.status === "conflict");
+if (conflicts.length > 0) {
+  fail(
+    `\n${conflicts.length} file(s) already exist with different content. Nothing was written; resolve them or pass --force.\n`,
+  );
+}
+
+if (dryRun) {
+  console.log(dim("\nDry run: nothing was written.\n"));
+  process.exit(0);
+}
+
+for (const change of plan) {
+  if (change.status !== "create" && change.status !== "update") continue;
+  await fs.mkdir(path.dirname(change.path), { recursive: true });
+  await fs.writeFile(change.path, change.after);
+}
+
+console.log(green(`\n✓ Applied ${title}\n`));
+if (plan.some((c) => c.path === "package.json" && c.status === "update")) {
+  console.log(dim("Run `bun install` to install the added dependencies.\n"));
+}
+if (changes.excerpts.length > 0) {
+  console.log(
+    dim("Files shown in part need the recipe's edits applied by hand.\n"),
+  );
+}
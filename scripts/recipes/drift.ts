@@ -0,0 +1,80 @@
+#!/usr/bin/env bun
+/**
+ * Report recipe code blocks that drifted from the template source
+ *
+ * Usage:
+ *   bun run scripts/recipes/drift.ts                     # per-recipe report
+ *   bun run scripts/recipes/drift.ts --verbose           # include drifted lines
+ *   bun run scripts/recipes/drift.ts --update-baseline   # accept current drift
+ *
+ * Every fenced code block that starts with a file path comment
+ * (`// src/lib/db/client.ts`) is compared against that file in
+ * templates/fullstackrecipe, falling back to this app's sources. The
+ * integration test in tests/integration/recipe-drift.test.ts fails when a
+ * recipe drifts beyond the accepted baseline.
+ */
+
+import { promises as fs } from "fs";
+import { format } from "prettier";
+import {
+  checkAllRecipeDrift,
+  getDriftedFiles,
+  type CodeBlockCheck,
+} from "../../src/lib/recipes/drift";
+
+const BASELINE_PATH = "tests/integration/recipe-drift.baseline.json";
+
+// ANSI colors
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const yellow = (s: string) => `\x1b[33m${s}\x1b[0m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
+const bold = (s: string) => `\x1b[1m${s}\x1b[0m`;
+
+const STATUS_LABELS: Record<CodeBlockCheck["status"], string> = {
+  match: green("✓ match"),
+  excerpt: green("✓ excerpt"),
+  drift: red("✗ drift"),
+  missing: yellow("? missing"),
+};
+
+const verbose = process.argv.includes("--verbose");
+const updateBaseline = process.argv.includes("--update-baseline");
+
+const reports = await checkAllRecipeDrift();
+let driftCount = 0;
+
+for (const report of reports) {
+  if (report.blocks.length === 0) continue;
+  console.log(bold(`\n${report.title}`) + dim(` (${report.slug})`));
+  for (const block of report.blocks) {
+    console.log(`  ${STATUS_LABELS[block.status]}  ${block.filePath}`);
+    if (block.status === "drift") {
+      driftCount++;
+      if (verbose) {
+        for (const line of block.unmatchedLines) {
+          console.log(dim(`      + ${line}`));
+        }
+      }
+    }
+  }
+}
+
+console.log(
+  driftCount === 0
+    ? green("\n✓ No drifted code blocks\n")
+    : red(`\n${driftCount} drifted code block(s)\n`),
+);
+
+if (updateBaseline) {
+  const baseline = Object.fromEntries(
+    reports
+      .map((report) => [report.slug, getDriftedFiles(report)] as const)
+      .filter(([, files]) => files.length > 0),
+  );
+  await fs.writeFile(
+    BASELINE_PATH,
+    await format(JSON.stringify(baseline), { parser: "json" }),
+  );
+  console.log(dim(`Baseline written to ${BASELINE_PATH}\n`));
+}
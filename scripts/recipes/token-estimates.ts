@@ -0,0 +1,61 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { format } from "prettier";
+import { getAllItems } from "../../src/lib/recipes/data";
+import { loadRecipeMarkdown } from "../../src/lib/recipes/loader";
+import { estimateTokens } from "../../src/lib/recipes/tokens";
+
+const ESTIMATES_PATH = path.join(
+  process.cwd(),
+  "src",
+  "lib",
+  "recipes",
+  "token-estimates.json",
+);
+
+/** An item whose cached estimate differs from its current Markdown */
+export type StaleTokenEstimate = {
+  slug: string;
+  cached: number | null;
+  actual: number | null;
+};
+
+/** Estimate the tokens of every item's rendered Markdown, in display order */
+export async function computeTokenEstimates(): Promise<Record<string, number>> {
+  const estimates: Record<string, number> = {};
+  for (const item of getAllItems()) {
+    estimates[item.slug] = estimateTokens(await loadRecipeMarkdown(item));
+  }
+  return estimates;
+}
+
+/** Regenerate `token-estimates.json` and return the new estimates */
+export async function writeTokenEstimates(): Promise<Record<string, number>> {
+  const estimates = await computeTokenEstimates();
+  await fs.writeFile(
+    ESTIMATES_PATH,
+    await format(JSON.stringify(estimates), { parser: "json" }),
+  );
+  return estimates;
+}
+
+/**
+ * Compare `token-estimates.json` with fresh estimates. Returns the items whose
+ * cached value is missing, outdated, or belongs to an item that no longer
+ * exists; an empty list means the cache is up to date.
+ */
+export async function checkTokenEstimates(): Promise<StaleTokenEstimate[]> {
+  const cached: Record<string, number> = JSON.parse(
+    await fs.readFile(ESTIMATES_PATH, "utf-8"),
+  );
+  const actual = await computeTokenEstimates();
+
+  const slugs = new Set([...Object.keys(actual), ...Object.keys(cached)]);
+  return Array.from(slugs)
+    .filter((slug) => cached[slug] !== actual[slug])
+    .map((slug) => ({
+      slug,
+      cached: cached[slug] ?? null,
+      actual: actual[slug] ?? null,
+    }));
+}
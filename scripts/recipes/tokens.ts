@@ -0,0 +1,42 @@
+#!/usr/bin/env bun
+/**
+ * Cache token estimates of every recipe, cookbook, and skill
+ *
+ * Usage:
+ *   bun run scripts/recipes/tokens.ts           # regenerate the cache
+ *   bun run scripts/recipes/tokens.ts --check   # fail if the cache is stale
+ *
+ * Renders each item's Markdown (as served at /recipes/<slug>.md) and writes
+ * its estimated token count to src/lib/recipes/token-estimates.json. Recipe
+ * cards, headers, llms.txt, and the wizard's budget warning read the cache,
+ * so it is checked before every build and in CI. The cache is tracked, so
+ * only regenerate it by hand and commit the result.
+ */
+
+import { checkTokenEstimates, writeTokenEstimates } from "./token-estimates";
+
+// ANSI colors
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
+
+if (process.argv.includes("--check")) {
+  const stale = await checkTokenEstimates();
+  if (stale.length > 0) {
+    for (const { slug, cached, actual } of stale) {
+      console.error(
+        `${red("✗")} ${slug} ${dim(`cached ${cached ?? "none"}, actual ${actual ?? "none"}`)}`,
+      );
+    }
+    console.error(dim("\nRun `bun run recipes:tokens` to update the cache.\n"));
+    process.exit(1);
+  }
+  console.log(green("✓ Token estimates are up to date"));
+} else {
+  const estimates = await writeTokenEstimates();
+  console.log(
+    green(
+      `✓ Cached token estimates for ${Object.keys(estimates).length} items`,
+    ),
+  );
+}
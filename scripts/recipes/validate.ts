@@ -0,0 +1,39 @@
+#!/usr/bin/env bun
+/**
+ * Validate all authored recipe content
+ *
+ * Usage:
+ *   bun run scripts/recipes/validate.ts
+ *
+ * Checks docs/recipes, skills/*\/SKILL.md, and docs/landing.md for Markdoc
+ * errors (unknown tags and attributes, invalid values), internal links to
+ * recipes or pages that don't exist, and slugs in data.tsx without a source
+ * file (or the reverse). Prints one `file:line: message` per issue and exits
+ * with 1 when any are found. On GitHub Actions, issues are also emitted as
+ * error annotations on the offending lines.
+ */
+
+import {
+  formatContentIssue,
+  validateAllContent,
+} from "../../src/lib/recipes/validate";
+
+// ANSI colors
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+
+const issues = await validateAllContent();
+
+for (const issue of issues) {
+  console.log(red("✗ ") + formatContentIssue(issue));
+  if (process.env.GITHUB_ACTIONS) {
+    const line = issue.line ? `,line=${issue.line}` : "";
+    console.log(`::error file=${issue.file}${line}::${issue.message}`);
+  }
+}
+
+if (issues.length > 0) {
+  console.log(red(`\n${issues.length} content issue(s)\n`));
+  process.exit(1);
+}
+console.log(green("✓ All recipe content is valid"));
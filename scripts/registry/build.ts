@@ -0,0 +1,48 @@
+#!/usr/bin/env bun
+/**
+ * Build and verify the shadcn registry
+ *
+ * Usage:
+ *   bun run scripts/registry/build.ts           # regenerate public/r
+ *   bun run scripts/registry/build.ts --check   # fail if public/r drifted
+ *
+ * Every item in registry.json must resolve to a source file under
+ * templates/fullstackrecipe, and its `dependencies` must match the packages
+ * those files import. The build refuses to write when any check fails.
+ */
+
+import { checkRegistry, writeRegistry, type RegistryIssue } from "./registry";
+
+// ANSI colors
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
+const bold = (s: string) => `\x1b[1m${s}\x1b[0m`;
+
+function printIssues(issues: RegistryIssue[]) {
+  console.error(red(bold(`\nRegistry has ${issues.length} issue(s):\n`)));
+  for (const issue of issues) {
+    console.error(
+      `  ${red("✗")} ${bold(issue.item)} ${dim(`[${issue.kind}]`)}`,
+    );
+    console.error(`    ${issue.message}`);
+  }
+  console.error("");
+}
+
+const check = process.argv.includes("--check");
+const issues = check ? await checkRegistry() : await writeRegistry();
+
+if (issues.length > 0) {
+  printIssues(issues);
+  if (check) {
+    console.error(
+      dim("Run `bun run registry:build` to regenerate public/r.\n"),
+    );
+  }
+  process.exit(1);
+}
+
+console.log(
+  green(check ? "✓ Registry is up to date" : "✓ Registry built to public/r"),
+);
@@ -0,0 +1,198 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { format } from "prettier";
+import registry from "../../registry.json";
+import {
+  getImportedPackages,
+  getPackageName,
+} from "../../src/lib/recipes/registry";
+
+type RegistrySourceItem = (typeof registry.items)[number];
+
+export type RegistryIssue = {
+  item: string;
+  kind:
+    | "missing-file"
+    | "undeclared-dependency"
+    | "unused-dependency"
+    | "stale-output"
+    | "orphaned-output";
+  message: string;
+};
+
+const ROOT_DIR = process.cwd();
+const REGISTRY_DIR = path.join(ROOT_DIR, "public", "r");
+const ITEM_SCHEMA = "https://ui.shadcn.com/schema/registry-item.json";
+
+// Packages every shadcn project already has, so items don't declare them
+const IMPLICIT_DEPENDENCIES = new Set(["react", "react-dom", "next"]);
+
+/**
+ * Whether a package is referenced by name in a source file, covering
+ * packages loaded indirectly (e.g. `pino.transport({ target: "pino-pretty" })`).
+ */
+function referencesPackage(source: string, name: string): boolean {
+  return source.includes(`"${name}"`) || source.includes(`'${name}'`);
+}
+
+/** Build the `public/r/<name>.json` payload for an item in the shadcn build key order */
+function buildItemJson(
+  item: RegistrySourceItem,
+  contents: string[],
+): Record<string, unknown> {
+  return {
+    $schema: ITEM_SCHEMA,
+    name: item.name,
+    title: item.title,
+    description: item.description,
+    ...("dependencies" in item && { dependencies: item.dependencies }),
+    files: item.files.map((file, index) => ({
+      path: file.path,
+      content: contents[index],
+      type: file.type,
+      target: file.target,
+    })),
+    ...("docs" in item && { docs: item.docs }),
+    type: item.type,
+  };
+}
+
+/** Serialize as the repo's prettier would format it, so `public/r` stays diff-clean */
+function toJsonFile(value: unknown): Promise<string> {
+  return format(JSON.stringify(value), { parser: "json" });
+}
+
+async function readFileOrNull(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve every item in `registry.json` against its source files and return
+ * the expected contents of `public/r`, keyed by file name, along with every
+ * integrity issue found: missing source files and dependencies that are
+ * imported but undeclared, or declared but never used.
+ */
+export async function buildRegistry(): Promise<{
+  outputs: Map<string, string>;
+  issues: RegistryIssue[];
+}> {
+  const outputs = new Map<string, string>();
+  const issues: RegistryIssue[] = [];
+
+  for (const item of registry.items) {
+    const contents: string[] = [];
+    for (const file of item.files) {
+      const content = await readFileOrNull(path.join(ROOT_DIR, file.path));
+      if (content === null) {
+        issues.push({
+          item: item.name,
+          kind: "missing-file",
+          message: `Source file not found: ${file.path}`,
+        });
+      } else {
+        contents.push(content);
+      }
+    }
+
+    // Items with unresolved sources can't be checked or built
+    if (contents.length !== item.files.length) continue;
+
+    const declared = (("dependencies" in item && item.dependencies) || []).map(
+      getPackageName,
+    );
+    const imported = new Set(contents.flatMap(getImportedPackages));
+
+    for (const name of imported) {
+      if (!declared.includes(name) && !IMPLICIT_DEPENDENCIES.has(name)) {
+        issues.push({
+          item: item.name,
+          kind: "undeclared-dependency",
+          message: `"${name}" is imported but not listed in dependencies`,
+        });
+      }
+    }
+    for (const name of declared) {
+      const used =
+        imported.has(name) ||
+        contents.some((content) => referencesPackage(content, name));
+      if (!used) {
+        issues.push({
+          item: item.name,
+          kind: "unused-dependency",
+          message: `"${name}" is listed in dependencies but never imported`,
+        });
+      }
+    }
+
+    outputs.set(
+      `${item.name}.json`,
+      await toJsonFile(buildItemJson(item, contents)),
+    );
+  }
+
+  outputs.set("registry.json", await toJsonFile(registry));
+
+  return { outputs, issues };
+}
+
+/**
+ * Verify the registry end to end: every source resolves, dependencies match
+ * imports, and `public/r` is exactly what a fresh build would produce.
+ */
+export async function checkRegistry(): Promise<RegistryIssue[]> {
+  const { outputs, issues } = await buildRegistry();
+
+  for (const [fileName, expected] of outputs) {
+    const actual = await readFileOrNull(path.join(REGISTRY_DIR, fileName));
+    if (actual !== expected) {
+      issues.push({
+        item: fileName.replace(/\.json$/, ""),
+        kind: "stale-output",
+        message: `public/r/${fileName} is out of date with its source`,
+      });
+    }
+  }
+
+  const expected = new Set([
+    "registry.json",
+    ...registry.items.map((item) => `${item.name}.json`),
+  ]);
+  for (const fileName of await fs.readdir(REGISTRY_DIR)) {
+    if (fileName.endsWith(".json") && !expected.has(fileName)) {
+      issues.push({
+        item: fileName.replace(/\.json$/, ""),
+        kind: "orphaned-output",
+        message: `public/r/${fileName} has no entry in registry.json`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Regenerate `public/r` from `registry.json`, removing outputs for items that
+ * no longer exist. Writes nothing and returns the issues when any source
+ * fails to resolve.
+ */
+export async function writeRegistry(): Promise<RegistryIssue[]> {
+  const { outputs, issues } = await buildRegistry();
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  await fs.mkdir(REGISTRY_DIR, { recursive: true });
+  for (const fileName of await fs.readdir(REGISTRY_DIR)) {
+    if (fileName.endsWith(".json") && !outputs.has(fileName)) {
+      await fs.rm(path.join(REGISTRY_DIR, fileName));
+    }
+  }
+  for (const [fileName, content] of outputs) {
+    await fs.writeFile(path.join(REGISTRY_DIR, fileName), content);
+  }
+  return [];
+}
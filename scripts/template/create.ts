@@ -0,0 +1,109 @@
+#!/usr/bin/env bun
+/**
+ * Create a project from templates/fullstackrecipe, optionally without some
+ * of its features
+ *
+ * Usage (from a local checkout of this repo):
+ *   bun run scripts/template/create.ts <directory> [--no-<feature>...]
+ *   bun run scripts/template/create.ts --list
+ *
+ * Example:
+ *   bun run scripts/template/create.ts ../my-app --no-stripe --no-sentry
+ *
+ * Removing a feature deletes its files, routes, schema exports, env sections,
+ * scripts and packages, and every feature that requires it (e.g. --no-auth
+ * also removes stripe and chat). The project's template-lock.json records
+ * the commit and the removed features for `bun run template:upgrade`.
+ */
+
+import path from "path";
+import { templateFeatures, TemplateFeatureError } from "./features";
+import { resolveRevision } from "../../src/lib/recipes/git";
+import { scaffoldProject } from "./scaffold";
+import { writeTemplateLock } from "./lock";
+
+// ANSI colors
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const yellow = (s: string) => `\x1b[33m${s}\x1b[0m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
+const bold = (s: string) => `\x1b[1m${s}\x1b[0m`;
+
+const TEMPLATE_DIR = path.join(
+  import.meta.dir,
+  "../../templates/fullstackrecipe",
+);
+
+if (process.argv.includes("--list")) {
+  console.log(bold("\nFeatures (remove with --no-<name>):"));
+  for (const feature of templateFeatures) {
+    const requires = feature.requires.length
+      ? dim(` (requires ${feature.requires.join(", ")})`)
+      : "";
+    console.log(`  ${feature.name.padEnd(10)} ${feature.title}${requires}`);
+  }
+  console.log();
+  process.exit(0);
+}
+
+const targetDir = process.argv[2];
+if (!targetDir || targetDir.startsWith("-")) {
+  console.error(
+    red(
+      "Usage: bun run scripts/template/create.ts <directory> [--no-<feature>...]",
+    ),
+  );
+  process.exit(1);
+}
+
+const removedNames = process.argv
+  .slice(3)
+  .filter((arg) => arg.startsWith("--no-"))
+  .map((arg) => arg.slice("--no-".length));
+
+let result;
+try {
+  result = await scaffoldProject(TEMPLATE_DIR, targetDir, removedNames);
+} catch (error) {
+  if (error instanceof TemplateFeatureError) {
+    console.error(red(error.message));
+    process.exit(1);
+  }
+  throw error;
+}
+
+console.log(bold(`\nCreated ${targetDir}`));
+if (result.removedFeatures.length > 0) {
+  console.log(`  Removed features: ${result.removedFeatures.join(", ")}`);
+}
+if (result.removedDependencies.length > 0) {
+  console.log(
+    dim(`  Removed packages: ${result.removedDependencies.join(", ")}`),
+  );
+}
+
+try {
+  const commit = await resolveRevision("HEAD");
+  await writeTemplateLock(targetDir, commit, result.removedFeatures);
+  console.log(green(`✓ Recorded template commit ${commit.slice(0, 7)}`));
+} catch {
+  console.log(
+    yellow(
+      "Could not read the template commit; run template:upgrade --init later.",
+    ),
+  );
+}
+
+console.log(bold("\nNext steps:"));
+console.log(`  cd ${targetDir}`);
+console.log(
+  result.resetLockfile
+    ? `  bun install ${dim("# creates bun.lock for the remaining packages")}`
+    : "  bun install",
+);
+if (result.resetMigrations) {
+  console.log(
+    `  bun run db:generate ${dim("# migrations were removed with the features' tables")}`,
+  );
+}
+console.log();
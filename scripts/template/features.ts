@@ -0,0 +1,328 @@
+/**
+ * Optional features of `templates/fullstackrecipe` that `template:create`
+ * can prune (`--no-<name>`). Each feature lists the files it owns and the
+ * edits that unwire it from shared files. Edits match exact template text, so
+ * a template change that breaks one fails the scaffold tests instead of
+ * producing a project that doesn't type-check.
+ */
+
+export type TemplateEdit = {
+  /** File relative to the template root */
+  file: string;
+  /** Text to replace; it must be found in the file */
+  find: string | RegExp;
+  /** Replacement, `""` by default. `$1` refers to regex groups. */
+  replace?: string;
+};
+
+export type TemplateFeature = {
+  name: string;
+  title: string;
+  /** Features this one needs; removing one of them removes this one too */
+  requires: string[];
+  /** Files and directories deleted with the feature */
+  paths: string[];
+  /** Edits to files the feature shares with the rest of the template */
+  edits: TemplateEdit[];
+  /** Packages the feature brings; removed once nothing imports them */
+  dependencies: string[];
+  /** `package.json` scripts deleted with the feature */
+  scripts: string[];
+  /** Titles of the `.env.example` sections deleted with the feature */
+  envSections: string[];
+  /** Whether the feature has tables, so migrations must be regenerated */
+  hasSchema: boolean;
+};
+
+const USER_MENU = "src/components/auth/user-menu.tsx";
+const HOME_PAGE = "src/app/page.tsx";
+const DB_CLIENT = "src/lib/db/client.ts";
+const INSTRUMENTATION = "src/instrumentation.ts";
+const NEXT_CONFIG = "next.config.ts";
+
+/**
+ * Features in pruning order: every feature comes before the ones it
+ * requires, so edits of dependents apply before their files are rewritten.
+ */
+export const templateFeatures: TemplateFeature[] = [
+  {
+    name: "stripe",
+    title: "Stripe subscriptions",
+    requires: ["auth"],
+    paths: [
+      "src/lib/stripe",
+      "src/app/api/stripe",
+      "src/app/settings",
+      "src/components/settings",
+      "scripts/stripe.dev.ts",
+      "scripts/stripe.setup.ts",
+    ],
+    edits: [
+      {
+        file: DB_CLIENT,
+        find: 'import * as stripeSchema from "@/lib/stripe/schema";\n',
+      },
+      { file: DB_CLIENT, find: "  ...stripeSchema,\n" },
+      {
+        file: HOME_PAGE,
+        find: /\n {14}<Link href="\/settings">[\s\S]*?<\/Link>/,
+      },
+    ],
+    dependencies: ["stripe"],
+    scripts: ["dev:stripe", "start:stripe"],
+    envSections: ["Stripe (subscriptions)"],
+    hasSchema: true,
+  },
+  {
+    name: "chat",
+    title: "AI chat",
+    requires: ["auth", "workflows"],
+    paths: [
+      "src/lib/chat",
+      "src/lib/ai",
+      "src/app/chats",
+      "src/app/api/chats",
+      "src/components/chat",
+      "src/components/chats",
+      "src/components/ai-elements",
+      "src/hooks/use-resumable-chat.ts",
+      "src/workflows/chat",
+    ],
+    edits: [
+      {
+        file: DB_CLIENT,
+        find: 'import * as chatSchema from "@/lib/chat/schema";\n',
+      },
+      { file: DB_CLIENT, find: "  ...chatSchema,\n" },
+      { file: INSTRUMENTATION, find: 'import "./lib/ai/config";\n' },
+      { file: USER_MENU, find: "MessageSquare, " },
+      {
+        file: USER_MENU,
+        find: /\n {10}<DropdownMenuItem asChild>\n {12}<Link href="\/chats">[\s\S]*?<\/DropdownMenuItem>/,
+      },
+      {
+        file: HOME_PAGE,
+        find: '<Link href="/chats">\n                <Button size="lg">Go to chats</Button>',
+        replace:
+          '<Link href="/profile">\n                <Button size="lg">Your profile</Button>',
+      },
+    ],
+    dependencies: [
+      "ai",
+      "@ai-sdk/openai",
+      "@ai-sdk/provider-utils",
+      "@ai-sdk/react",
+      "@workflow/ai",
+      "streamdown",
+      "use-stick-to-bottom",
+      "motion",
+      "nanoid",
+      "shiki",
+    ],
+    scripts: [],
+    envSections: ["AI —"],
+    hasSchema: true,
+  },
+  {
+    name: "workflows",
+    title: "Durable workflows",
+    requires: [],
+    paths: ["src/workflows"],
+    edits: [
+      {
+        file: NEXT_CONFIG,
+        find: 'import { withWorkflow } from "workflow/next";\n',
+      },
+      {
+        file: NEXT_CONFIG,
+        find: "withWorkflow(nextConfig)",
+        replace: "nextConfig",
+      },
+    ],
+    dependencies: ["workflow", "@workflow/ai", "ai"],
+    scripts: [],
+    envSections: [],
+    hasSchema: false,
+  },
+  {
+    name: "auth",
+    title: "Better Auth",
+    requires: ["resend"],
+    paths: [
+      "src/lib/auth",
+      "src/app/api/auth",
+      "src/app/sign-in",
+      "src/app/sign-up",
+      "src/app/forgot-password",
+      "src/app/reset-password",
+      "src/app/verify-email",
+      "src/app/profile",
+      "src/components/auth",
+      "src/components/profile",
+      "tests/playwright/auth.spec.ts",
+      "tests/playwright/lib",
+    ],
+    edits: [
+      {
+        file: DB_CLIENT,
+        find: 'import * as authSchema from "@/lib/auth/schema";\n',
+      },
+      { file: DB_CLIENT, find: "  ...authSchema,\n" },
+      { file: INSTRUMENTATION, find: 'import "./lib/auth/config";\n' },
+      { file: HOME_PAGE, find: 'import { headers } from "next/headers";\n' },
+      { file: HOME_PAGE, find: 'import { auth } from "@/lib/auth/server";\n' },
+      {
+        file: HOME_PAGE,
+        find: 'import { Button } from "@/components/ui/button";\n',
+      },
+      {
+        file: HOME_PAGE,
+        find: 'import { UserMenu } from "@/components/auth/user-menu";\n',
+      },
+      { file: HOME_PAGE, find: "\n            <UserMenu />" },
+      {
+        file: HOME_PAGE,
+        find: /export default async function HomePage\(\) \{\n[\s\S]*?\n {2}\}\);\n\n/,
+        replace: "export default function HomePage() {\n",
+      },
+      // Keep the signed-out copy of the hero
+      {
+        file: HOME_PAGE,
+        find: /\{session\s*\?[\s\S]*?:\s*"([^"]*)"\}/g,
+        replace: "$1",
+      },
+      {
+        file: HOME_PAGE,
+        find: /\n {8}<div className="flex flex-wrap items-center justify-center gap-4">[\s\S]*?\n {8}<\/div>/,
+      },
+      {
+        file: "tests/playwright/home.spec.ts",
+        find: /\n {2}test\("should have a get started call to action"[\s\S]*?\n {2}\}\);\n/,
+      },
+      {
+        file: "scripts/db/generate-schema.ts",
+        find: /\nawait \$`bunx @better-auth\/cli@latest generate [^`]*`;\n/,
+      },
+    ],
+    dependencies: ["better-auth"],
+    scripts: [],
+    envSections: ["Better Auth"],
+    hasSchema: true,
+  },
+  {
+    name: "resend",
+    title: "Resend emails",
+    requires: [],
+    paths: ["src/lib/resend"],
+    edits: [{ file: INSTRUMENTATION, find: 'import "./lib/resend/config";\n' }],
+    dependencies: ["resend", "@react-email/components"],
+    scripts: [],
+    envSections: ["Resend (transactional email)"],
+    hasSchema: false,
+  },
+  {
+    name: "sentry",
+    title: "Sentry error monitoring",
+    requires: [],
+    paths: ["src/lib/sentry", "src/instrumentation-client.ts"],
+    edits: [
+      {
+        file: INSTRUMENTATION,
+        find: 'import * as Sentry from "@sentry/nextjs";\nimport { sentryConfig } from "./lib/sentry/config";\n\n',
+      },
+      {
+        file: INSTRUMENTATION,
+        find: /\nexport async function register\(\) \{[\s\S]*$/,
+      },
+      {
+        file: NEXT_CONFIG,
+        find: 'import { withSentryConfig } from "@sentry/nextjs";\n',
+      },
+      {
+        file: NEXT_CONFIG,
+        find: /export default withSentryConfig\((.*), \{[\s\S]*$/,
+        replace: "export default $1;\n",
+      },
+      {
+        file: "src/app/global-error.tsx",
+        find: 'import * as Sentry from "@sentry/nextjs";\n',
+      },
+      {
+        file: "src/app/global-error.tsx",
+        find: "Sentry.captureException(error);",
+        replace: "console.error(error);",
+      },
+    ],
+    dependencies: ["@sentry/nextjs"],
+    scripts: [],
+    envSections: ["Sentry (error monitoring)"],
+    hasSchema: false,
+  },
+];
+
+/** Thrown for unknown features or edits that no longer match the template */
+export class TemplateFeatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateFeatureError";
+  }
+}
+
+function getTemplateFeature(name: string): TemplateFeature {
+  const feature = templateFeatures.find((f) => f.name === name);
+  if (!feature) {
+    const names = templateFeatures.map((f) => f.name).join(", ");
+    throw new TemplateFeatureError(
+      `Unknown feature "${name}". Available features: ${names}`,
+    );
+  }
+  return feature;
+}
+
+/**
+ * Features to remove for a set of `--no-<name>` flags: the named features
+ * plus every feature that requires one of them, in pruning order.
+ */
+export function resolveRemovedFeatures(names: string[]): TemplateFeature[] {
+  const removed = new Set(names.map((name) => getTemplateFeature(name).name));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const feature of templateFeatures) {
+      if (
+        !removed.has(feature.name) &&
+        feature.requires.some((name) => removed.has(name))
+      ) {
+        removed.add(feature.name);
+        changed = true;
+      }
+    }
+  }
+  return templateFeatures.filter((feature) => removed.has(feature.name));
+}
+
+/**
+ * Every distinct project the scaffolder can produce, as the names of the
+ * removed features; the first entry is the full template.
+ */
+export function getFeatureCombinations(): string[][] {
+  const combinations = new Map<string, string[]>();
+  for (let mask = 0; mask < 2 ** templateFeatures.length; mask++) {
+    const names = templateFeatures
+      .filter((_, i) => mask & (2 ** i))
+      .map((feature) => feature.name);
+    const removed = resolveRemovedFeatures(names).map((f) => f.name);
+    combinations.set(removed.join(","), removed);
+  }
+  return Array.from(combinations.values());
+}
+
+/** Whether a template file belongs to one of the removed features */
+export function isRemovedFeaturePath(
+  filePath: string,
+  removedFeatures: string[],
+): boolean {
+  return removedFeatures
+    .flatMap((name) => getTemplateFeature(name).paths)
+    .some((owned) => filePath === owned || filePath.startsWith(`${owned}/`));
+}
@@ -0,0 +1,42 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { format } from "prettier";
+import { fullstackTemplate } from "../../src/lib/recipes/data";
+import { isCommit } from "../../src/lib/recipes/git";
+import {
+  TEMPLATE_LOCK_FILE,
+  TEMPLATE_PATH,
+  TemplateLockError,
+  type TemplateLock,
+} from "./template";
+
+/**
+ * Record the template commit a project's files are based on. Refuses
+ * anything but a commit, e.g. the empty tree a date before the repo's
+ * history resolves to, which later upgrades couldn't resolve.
+ */
+export async function writeTemplateLock(
+  projectDir: string,
+  commit: string,
+  removedFeatures: string[] = [],
+): Promise<TemplateLock> {
+  if (!(await isCommit(commit))) {
+    throw new TemplateLockError(
+      `${commit} is not a commit; lock a commit or a date after the repo's first commit`,
+    );
+  }
+  const lock: TemplateLock = {
+    version: 1,
+    template: {
+      source: fullstackTemplate.tigedSource,
+      templatePath: TEMPLATE_PATH,
+      commit,
+      ...(removedFeatures.length > 0 && { removedFeatures }),
+    },
+  };
+  await fs.writeFile(
+    path.join(projectDir, TEMPLATE_LOCK_FILE),
+    await format(JSON.stringify(lock), { parser: "json" }),
+  );
+  return lock;
+}
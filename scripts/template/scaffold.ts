@@ -0,0 +1,235 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { format } from "prettier";
+import { getImportedPackages } from "../../src/lib/recipes/registry";
+import {
+  resolveRemovedFeatures,
+  TemplateFeatureError,
+  type TemplateEdit,
+  type TemplateFeature,
+} from "./features";
+
+/** What `scaffoldProject` removed from the template */
+export type ScaffoldResult = {
+  removedFeatures: string[];
+  removedDependencies: string[];
+  /** Whether migrations were deleted because tables were removed */
+  resetMigrations: boolean;
+  /** Whether bun.lock was deleted because packages were removed */
+  resetLockfile: boolean;
+};
+
+// Generated or local files that are never copied into a new project
+const IGNORED_NAMES = new Set([
+  "node_modules",
+  ".next",
+  ".vercel",
+  "next-env.d.ts",
+  "tsconfig.tsbuildinfo",
+]);
+
+const SOURCE_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".js", ".mjs"]);
+const MIGRATIONS_DIR = "src/lib/db/migrations";
+const LOCKFILE = "bun.lock";
+const ENV_RULE = /^# -{10,}$/;
+
+function isCopied(name: string): boolean {
+  if (IGNORED_NAMES.has(name)) return false;
+  return !name.startsWith(".env") || name === ".env.example";
+}
+
+/** Copy the template into a new project directory */
+export async function copyTemplate(
+  templateDir: string,
+  targetDir: string,
+): Promise<void> {
+  await fs.cp(templateDir, targetDir, {
+    recursive: true,
+    errorOnExist: true,
+    force: false,
+    filter: (source) => isCopied(path.basename(source)),
+  });
+}
+
+async function listSourceFiles(dir: string, root = dir): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries
+      .filter((entry) => !IGNORED_NAMES.has(entry.name))
+      .map((entry) => {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) return listSourceFiles(fullPath, root);
+        return SOURCE_EXTENSIONS.has(path.extname(entry.name))
+          ? [path.relative(root, fullPath)]
+          : [];
+      }),
+  );
+  return files.flat();
+}
+
+function applyEdit(content: string, edit: TemplateEdit): string {
+  const { find, replace = "" } = edit;
+  const found =
+    typeof find === "string" ? content.includes(find) : content.search(find);
+  if (found === false || found === -1) {
+    throw new TemplateFeatureError(
+      `${edit.file} no longer contains ${String(find)}; update the feature edits in scripts/template/features.ts`,
+    );
+  }
+  return typeof find === "string"
+    ? content.replace(find, () => replace)
+    : content.replace(find, replace);
+}
+
+/**
+ * Remove `.env.example` sections whose title starts with one of `titles`. A
+ * section runs from its header (a rule, the title, ..., a rule) to the next
+ * section's header.
+ */
+export function removeEnvSections(content: string, titles: string[]): string {
+  const lines = content.split("\n");
+  const kept: string[] = [];
+  let skipping = false;
+  for (let i = 0; i < lines.length; i++) {
+    const title = lines[i + 1] ?? "";
+    if (
+      ENV_RULE.test(lines[i]) &&
+      title.startsWith("# ") &&
+      !ENV_RULE.test(title)
+    ) {
+      skipping = titles.some((prefix) => title.slice(2).startsWith(prefix));
+    }
+    if (!skipping) kept.push(lines[i]);
+  }
+  return kept.join("\n");
+}
+
+async function pruneFeature(
+  projectDir: string,
+  feature: TemplateFeature,
+  edited: Set<string>,
+): Promise<void> {
+  for (const edit of feature.edits) {
+    const filePath = path.join(projectDir, edit.file);
+    const content = await fs.readFile(filePath, "utf-8").catch(() => {
+      throw new TemplateFeatureError(
+        `${edit.file} is missing; update the feature edits in scripts/template/features.ts`,
+      );
+    });
+    await fs.writeFile(filePath, applyEdit(content, edit));
+    edited.add(edit.file);
+  }
+  for (const owned of feature.paths) {
+    await fs.rm(path.join(projectDir, owned), { recursive: true, force: true });
+    for (const file of edited) {
+      if (file === owned || file.startsWith(`${owned}/`)) edited.delete(file);
+    }
+  }
+}
+
+/**
+ * Drop the removed features' packages that no remaining file imports, and
+ * their scripts. Returns the removed package names.
+ */
+async function prunePackageJson(
+  projectDir: string,
+  removed: TemplateFeature[],
+): Promise<string[]> {
+  const imported = new Set<string>();
+  for (const file of await listSourceFiles(projectDir)) {
+    const source = await fs.readFile(path.join(projectDir, file), "utf-8");
+    for (const name of getImportedPackages(source)) imported.add(name);
+  }
+
+  const pkgPath = path.join(projectDir, "package.json");
+  const pkg = JSON.parse(await fs.readFile(pkgPath, "utf-8")) as Record<
+    "scripts" | "dependencies" | "devDependencies",
+    Record<string, string> | undefined
+  >;
+  const candidates = new Set(removed.flatMap((f) => f.dependencies));
+  const removedDependencies: string[] = [];
+  for (const name of candidates) {
+    if (imported.has(name)) continue;
+    for (const key of ["dependencies", "devDependencies"] as const) {
+      if (pkg[key]?.[name]) {
+        delete pkg[key][name];
+        removedDependencies.push(name);
+      }
+    }
+  }
+  for (const script of removed.flatMap((f) => f.scripts)) {
+    delete pkg.scripts?.[script];
+  }
+
+  await fs.writeFile(pkgPath, JSON.stringify(pkg, null, 2) + "\n");
+  return removedDependencies;
+}
+
+/** Delete generated migrations so they are regenerated for the kept tables */
+async function resetMigrations(projectDir: string): Promise<void> {
+  const dir = path.join(projectDir, MIGRATIONS_DIR);
+  for (const entry of await fs.readdir(dir)) {
+    await fs.rm(path.join(dir, entry), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Remove features from a copied template: their files, their wiring in shared
+ * files, their env sections, scripts and now-unused packages, and (when they
+ * had tables) the generated migrations. Edited files are re-formatted. The
+ * lockfile still pins the removed packages, so it is deleted for
+ * `bun install` to regenerate.
+ */
+export async function pruneTemplate(
+  projectDir: string,
+  removed: TemplateFeature[],
+): Promise<Omit<ScaffoldResult, "removedFeatures">> {
+  const edited = new Set<string>();
+  for (const feature of removed) {
+    await pruneFeature(projectDir, feature, edited);
+  }
+
+  for (const file of edited) {
+    const filePath = path.join(projectDir, file);
+    const content = await fs.readFile(filePath, "utf-8");
+    await fs.writeFile(filePath, await format(content, { filepath: file }));
+  }
+
+  const envPath = path.join(projectDir, ".env.example");
+  const env = await fs.readFile(envPath, "utf-8");
+  await fs.writeFile(
+    envPath,
+    removeEnvSections(
+      env,
+      removed.flatMap((f) => f.envSections),
+    ),
+  );
+
+  const hasSchema = removed.some((feature) => feature.hasSchema);
+  if (hasSchema) {
+    await resetMigrations(projectDir);
+  }
+
+  const removedDependencies = await prunePackageJson(projectDir, removed);
+  const resetLockfile = removedDependencies.length > 0;
+  if (resetLockfile) {
+    await fs.rm(path.join(projectDir, LOCKFILE), { force: true });
+  }
+
+  return { removedDependencies, resetMigrations: hasSchema, resetLockfile };
+}
+
+/**
+ * Create a project from the template without the named features (and the
+ * features that require them).
+ */
+export async function scaffoldProject(
+  templateDir: string,
+  targetDir: string,
+  removedFeatureNames: string[],
+): Promise<ScaffoldResult> {
+  const removed = resolveRemovedFeatures(removedFeatureNames);
+  await copyTemplate(templateDir, targetDir);
+  const result = await pruneTemplate(targetDir, removed);
+  return { removedFeatures: removed.map((f) => f.name), ...result };
+}
@@ -0,0 +1,180 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  getChangedFiles,
+  isTextContent,
+  mergeFileContents,
+  readFileBytesAtRevision,
+} from "../../src/lib/recipes/git";
+import { isRemovedFeaturePath } from "./features";
+
+/** Where the template lives in this repo */
+export const TEMPLATE_PATH = "templates/fullstackrecipe";
+
+/** Lockfile in a project recording the template commit it is based on */
+export const TEMPLATE_LOCK_FILE = "template-lock.json";
+
+/** Contents of `template-lock.json`, shaped like `skills-lock.json` */
+export type TemplateLock = {
+  version: 1;
+  template: {
+    /** tiged source the project was cloned with */
+    source: string;
+    /** Template directory in the fullstackrecipes repo */
+    templatePath: string;
+    /** Commit of the fullstackrecipes repo the project's files match */
+    commit: string;
+    /** Features left out with `bun run template:create --no-<name>` */
+    removedFeatures?: string[];
+  };
+};
+
+/**
+ * How upgrading changes a project file:
+ * - "added": new in the template; created in the project
+ * - "updated": the project kept the base version; replaced by the template's
+ * - "merged": both changed it; merged without overlapping edits
+ * - "unchanged": the project already has the template's version
+ * - "removed": deleted from the template and unmodified; deleted
+ * - "conflict": both changed the same lines; written with conflict markers
+ * - "deleted": deleted on one side and changed on the other; left as is
+ * - "binary": both changed a file that isn't text; left as is
+ */
+export type TemplateFileStatus =
+  | "added"
+  | "updated"
+  | "merged"
+  | "unchanged"
+  | "removed"
+  | "conflict"
+  | "deleted"
+  | "binary";
+
+export type TemplateFileUpgrade = {
+  /** Path relative to the project (and the template) root */
+  path: string;
+  status: TemplateFileStatus;
+  /** Content to write; null when the file is deleted or left as is */
+  content: Buffer | null;
+};
+
+/** Thrown when a project has no usable `template-lock.json` */
+export class TemplateLockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateLockError";
+  }
+}
+
+// Bytes, not strings: template files include images like favicon.ico
+async function readFileOrNull(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+function sameContent(a: Buffer | null, b: Buffer | null): boolean {
+  return a === null || b === null ? a === b : a.equals(b);
+}
+
+/** Read a project's `template-lock.json`; null when it has none */
+export async function readTemplateLock(
+  projectDir: string,
+): Promise<TemplateLock | null> {
+  const content = await readFileOrNull(
+    path.join(projectDir, TEMPLATE_LOCK_FILE),
+  );
+  if (content === null) {
+    return null;
+  }
+
+  const lock = JSON.parse(content.toString("utf-8")) as Partial<TemplateLock>;
+  if (lock.version !== 1 || !lock.template?.commit) {
+    throw new TemplateLockError(
+      `${TEMPLATE_LOCK_FILE} is not a version 1 template lockfile`,
+    );
+  }
+  return lock as TemplateLock;
+}
+
+/**
+ * Three-way upgrade of one file from its `base` template version to the
+ * `theirs` template version, given the project's `ours`. Null means the
+ * file doesn't exist on that side.
+ */
+export async function upgradeTemplateFile(
+  filePath: string,
+  base: Buffer | null,
+  theirs: Buffer | null,
+  ours: Buffer | null,
+): Promise<TemplateFileUpgrade> {
+  const result = (status: TemplateFileStatus, content: Buffer | null) => ({
+    path: filePath,
+    status,
+    content,
+  });
+
+  if (sameContent(ours, theirs)) return result("unchanged", null);
+  if (sameContent(ours, base)) {
+    return theirs === null
+      ? result("removed", null)
+      : result(base === null ? "added" : "updated", theirs);
+  }
+  // One side deleted the file the other side changed
+  if (ours === null || theirs === null) return result("deleted", null);
+  if ([base, theirs, ours].some((side) => side && !isTextContent(side))) {
+    return result("binary", null);
+  }
+
+  const { content, conflicts } = await mergeFileContents(
+    ours,
+    base ?? Buffer.alloc(0),
+    theirs,
+    [`${filePath} (yours)`, `${filePath} (base)`, `${filePath} (template)`],
+  );
+  return result(conflicts > 0 ? "conflict" : "merged", content);
+}
+
+/**
+ * Plan upgrading a project from the template at commit `from` to commit `to`
+ * of this repo's git checkout. Only files the template changed in between are
+ * considered; the project's other files, and files of features the project
+ * was created without, are never touched.
+ */
+export async function planTemplateUpgrade(
+  projectDir: string,
+  from: string,
+  to: string,
+  removedFeatures: string[] = [],
+): Promise<TemplateFileUpgrade[]> {
+  const upgrades: TemplateFileUpgrade[] = [];
+  for (const repoPath of await getChangedFiles(from, to, TEMPLATE_PATH)) {
+    const filePath = path.posix.relative(TEMPLATE_PATH, repoPath);
+    if (isRemovedFeaturePath(filePath, removedFeatures)) continue;
+    const [base, theirs, ours] = await Promise.all([
+      readFileBytesAtRevision(from, repoPath),
+      readFileBytesAtRevision(to, repoPath),
+      readFileOrNull(path.join(projectDir, filePath)),
+    ]);
+    upgrades.push(await upgradeTemplateFile(filePath, base, theirs, ours));
+  }
+  return upgrades;
+}
+
+/** Write a planned upgrade to the project */
+export async function applyTemplateUpgrade(
+  projectDir: string,
+  upgrades: TemplateFileUpgrade[],
+): Promise<void> {
+  for (const upgrade of upgrades) {
+    const filePath = path.join(projectDir, upgrade.path);
+    if (upgrade.status === "removed") {
+      await fs.rm(filePath, { force: true });
+    } else if (upgrade.content !== null) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, upgrade.content);
+    }
+  }
+}
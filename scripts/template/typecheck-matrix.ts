@@ -0,0 +1,79 @@
+#!/usr/bin/env bun
+/**
+ * Type-check every project create.ts can produce
+ *
+ * Usage:
+ *   bun run scripts/template/typecheck-matrix.ts [--only <a,b>]
+ *
+ * Each combination of removed features is scaffolded into a temp directory
+ * that links the template's node_modules (run `bun install` in
+ * templates/fullstackrecipe first) and checked with `tsc --noEmit`.
+ * `--only` checks a single combination, e.g. `--only stripe,sentry`.
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { $ } from "bun";
+import { getFeatureCombinations, resolveRemovedFeatures } from "./features";
+import { scaffoldProject } from "./scaffold";
+
+// ANSI colors
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
+const bold = (s: string) => `\x1b[1m${s}\x1b[0m`;
+
+const TEMPLATE_DIR = path.join(
+  import.meta.dir,
+  "../../templates/fullstackrecipe",
+);
+const nodeModules = path.join(TEMPLATE_DIR, "node_modules");
+
+if (!(await fs.exists(nodeModules))) {
+  console.error(
+    red("Run `bun install` in templates/fullstackrecipe before type-checking."),
+  );
+  process.exit(1);
+}
+
+const onlyIndex = process.argv.indexOf("--only");
+const combinations =
+  onlyIndex === -1
+    ? getFeatureCombinations()
+    : [
+        resolveRemovedFeatures(process.argv[onlyIndex + 1].split(",")).map(
+          (feature) => feature.name,
+        ),
+      ];
+
+console.log(bold(`\nType-checking ${combinations.length} combination(s)\n`));
+
+const failed: string[] = [];
+for (const removed of combinations) {
+  const label = removed.length ? `--no-${removed.join(" --no-")}` : "(full)";
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "template-matrix-"));
+  const projectDir = path.join(root, "app");
+  try {
+    await scaffoldProject(TEMPLATE_DIR, projectDir, removed);
+    await fs.symlink(nodeModules, path.join(projectDir, "node_modules"), "dir");
+    const result = await $`bunx tsc --noEmit`.cwd(projectDir).nothrow().quiet();
+    if (result.exitCode === 0) {
+      console.log(`  ${green("✓")} ${label}`);
+    } else {
+      failed.push(label);
+      console.log(`  ${red("✗")} ${label}`);
+      console.log(dim(result.stdout.toString().trimEnd()));
+    }
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+if (failed.length > 0) {
+  console.error(
+    red(`\n${failed.length} combination(s) failed to type-check\n`),
+  );
+  process.exit(1);
+}
+console.log(green(`\n✓ All combinations type-check\n`));
@@ -0,0 +1,145 @@
+#!/usr/bin/env bun
+/**
+ * Upgrade a project created from templates/fullstackrecipe
+ *
+ * Usage (from a local checkout of this repo):
+ *   bun run scripts/template/upgrade.ts <project> --init [--from <ref|date>]
+ *   bun run scripts/template/upgrade.ts <project> [--to <ref>] [--dry-run]
+ *
+ * `--init` records the commit the project was cloned from (default: HEAD) in
+ * the project's template-lock.json. An upgrade three-way merges every file the
+ * template changed since that commit: the locked template version is the
+ * base, the template at `--to` (default: HEAD) is theirs, and the project's
+ * file is ours. Clean merges are written; conflicting files get diff3
+ * conflict markers to resolve by hand, and binary files changed on both
+ * sides are left as is. Files of features the project was created without
+ * (see create.ts) are skipped. The lockfile then records `--to`.
+ * Only git and this checkout are used; nothing is fetched.
+ */
+
+import {
+  applyTemplateUpgrade,
+  planTemplateUpgrade,
+  readTemplateLock,
+  TEMPLATE_LOCK_FILE,
+  TemplateLockError,
+  type TemplateFileStatus,
+} from "./template";
+import { RecipeHistoryError, resolveRevision } from "../../src/lib/recipes/git";
+import { writeTemplateLock } from "./lock";
+
+// ANSI colors
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const yellow = (s: string) => `\x1b[33m${s}\x1b[0m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
+const bold = (s: string) => `\x1b[1m${s}\x1b[0m`;
+
+const STATUS_LABELS: Record<TemplateFileStatus, string> = {
+  added: green("+ added"),
+  updated: green("~ updated"),
+  merged: green("~ merged"),
+  unchanged: dim("= unchanged"),
+  removed: green("- removed"),
+  conflict: red("✗ conflict"),
+  deleted: yellow("? deleted"),
+  binary: yellow("? binary"),
+};
+
+// Bad refs and lockfiles are the user's to fix; print them without a trace
+function exitOnUserError(error: unknown): never {
+  if (
+    !(error instanceof TemplateLockError || error instanceof RecipeHistoryError)
+  ) {
+    throw error;
+  }
+  console.error(red(error.message));
+  process.exit(1);
+}
+
+function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const projectDir = process.argv[2];
+if (!projectDir || projectDir.startsWith("-")) {
+  console.error(
+    red("Usage: bun run scripts/template/upgrade.ts <project> [--init]"),
+  );
+  process.exit(1);
+}
+
+if (process.argv.includes("--init")) {
+  const commit = await resolveRevision(getOption("--from") ?? "HEAD").catch(
+    exitOnUserError,
+  );
+  await writeTemplateLock(projectDir, commit).catch(exitOnUserError);
+  console.log(green(`✓ Recorded template commit ${commit.slice(0, 7)}`));
+  process.exit(0);
+}
+
+const lock = await readTemplateLock(projectDir).catch(exitOnUserError);
+if (!lock) {
+  console.error(
+    red(
+      `No ${TEMPLATE_LOCK_FILE} in ${projectDir}. Run with --init --from <commit or YYYY-MM-DD> first.`,
+    ),
+  );
+  process.exit(1);
+}
+
+const [from, to] = await Promise.all([
+  resolveRevision(lock.template.commit),
+  resolveRevision(getOption("--to") ?? "HEAD"),
+]).catch(exitOnUserError);
+const removedFeatures = lock.template.removedFeatures ?? [];
+const upgrades = await planTemplateUpgrade(
+  projectDir,
+  from,
+  to,
+  removedFeatures,
+);
+
+console.log(
+  bold(`\nTemplate ${from.slice(0, 7)} → ${to.slice(0, 7)}`) +
+    dim(` (${upgrades.length} changed file(s))`),
+);
+for (const upgrade of upgrades) {
+  console.log(`  ${STATUS_LABELS[upgrade.status]}  ${upgrade.path}`);
+}
+
+const conflicts = upgrades.filter((u) => u.status === "conflict");
+const deleted = upgrades.filter((u) => u.status === "deleted");
+const binary = upgrades.filter((u) => u.status === "binary");
+
+if (process.argv.includes("--dry-run")) {
+  console.log(dim("\nDry run: nothing was written.\n"));
+  process.exit(0);
+}
+
+await applyTemplateUpgrade(projectDir, upgrades);
+await writeTemplateLock(projectDir, to, removedFeatures);
+
+if (conflicts.length > 0) {
+  console.log(
+    red(
+      `\n${conflicts.length} file(s) have conflict markers to resolve by hand.`,
+    ),
+  );
+}
+if (deleted.length > 0) {
+  console.log(
+    yellow(
+      `${deleted.length} file(s) were deleted on one side and changed on the other; review them.`,
+    ),
+  );
+}
+if (binary.length > 0) {
+  console.log(
+    yellow(
+      `${binary.length} binary file(s) changed on both sides were left as is; compare them with the template.`,
+    ),
+  );
+}
+console.log(green(`\n✓ Upgraded to ${to.slice(0, 7)}\n`));
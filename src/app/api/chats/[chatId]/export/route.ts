@@ -0,0 +1,54 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth/server";
+import { getChatExport } from "@/lib/chat/queries";
+import {
+  createChatExportResponse,
+  getChatExportFilename,
+  isChatExportFormat,
+  renderChatMarkdown,
+} from "@/lib/chat/export";
+
+/**
+ * GET /api/chats/:chatId/export
+ * Download a chat as a file.
+ *
+ * Query params:
+ *   - format: "json" (default) for a lossless export that
+ *     POST /api/chats/import reads back, or "md" for a readable transcript
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chatId: string }> },
+) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const format = new URL(request.url).searchParams.get("format") ?? "json";
+  if (!isChatExportFormat(format)) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  const { chatId } = await params;
+  const exported = z.uuid().safeParse(chatId).success
+    ? await getChatExport(chatId, session.user.id)
+    : null;
+
+  if (!exported) {
+    return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+  }
+
+  return createChatExportResponse(
+    format === "md"
+      ? renderChatMarkdown(exported)
+      : JSON.stringify(exported, null, 2),
+    getChatExportFilename(exported.chat.title, format),
+    format,
+  );
+}
@@ -0,0 +1,63 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/server";
+import { getUserChatExports } from "@/lib/chat/queries";
+import { decodeChatCursor } from "@/lib/chat/pagination";
+import {
+  createChatExportResponse,
+  isChatExportFormat,
+  streamChatsMarkdown,
+  writeChatsExport,
+} from "@/lib/chat/export";
+
+/**
+ * GET /api/chats/export
+ * Download all of the signed-in user's chats.
+ *
+ * Query params:
+ *   - format: "json" (default) for a lossless export that
+ *     POST /api/chats/import reads back, or "md" for a readable transcript
+ *   - after: cursor of the next JSON part
+ *
+ * JSON exports hold as many chats as one import accepts. When chats are
+ * left, the response links the next part with `Link: <...>; rel="next"`.
+ */
+export async function GET(request: Request) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") ?? "json";
+  if (!isChatExportFormat(format)) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  const after = searchParams.get("after");
+  if (after !== null && !decodeChatCursor(after)) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  const chats = getUserChatExports(session.user.id, { after });
+  if (format === "md") {
+    return createChatExportResponse(
+      streamChatsMarkdown(chats),
+      "chats.md",
+      format,
+    );
+  }
+
+  const { json, next } = await writeChatsExport(chats);
+  const response = createChatExportResponse(json, "chats.json", format);
+  if (next) {
+    response.headers.set(
+      "Link",
+      `</api/chats/export?format=json&after=${next}>; rel="next"`,
+    );
+  }
+  return response;
+}
@@ -0,0 +1,60 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { auth } from "@/lib/auth/server";
+import { importChat } from "@/lib/chat/queries";
+import { parseChatImport, readChatImportBody } from "@/lib/chat/export";
+import { logger } from "@/lib/logging/logger";
+
+/**
+ * POST /api/chats/import
+ * Recreate chats from a JSON export, of one chat or of all chats, under new
+ * IDs for the signed-in user.
+ *
+ * Returns `{ chatIds }` in the order of the exported chats. Bodies over
+ * `CHAT_IMPORT_MAX_BYTES` are rejected with 413 before they're parsed.
+ */
+export async function POST(request: Request) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const read = await readChatImportBody(request);
+  if ("error" in read) {
+    return read.error === "too-large"
+      ? NextResponse.json({ error: "Export is too large" }, { status: 413 })
+      : NextResponse.json(
+          { error: "Export isn't valid JSON" },
+          { status: 400 },
+        );
+  }
+
+  const parsed = parseChatImport(read.body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const chatIds: string[] = [];
+  try {
+    for (const chat of parsed.chats) {
+      chatIds.push(await importChat(session.user.id, chat));
+    }
+  } catch (error) {
+    // Chats imported before the failure stay; the failed one is removed
+    logger.error(
+      { error, userId: session.user.id, imported: chatIds.length },
+      "Failed to import chat",
+    );
+    return NextResponse.json(
+      { error: "Import failed", chatIds },
+      { status: 500 },
+    );
+  }
+
+  revalidatePath("/chats");
+  return NextResponse.json({ chatIds }, { status: 201 });
+}
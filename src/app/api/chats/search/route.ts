@@ -0,0 +1,35 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/server";
+import { searchUserChats } from "@/lib/chat/queries";
+import { CHAT_SEARCH_MAX_QUERY_LENGTH } from "@/lib/chat/search";
+
+/**
+ * GET /api/chats/search?q=<query>
+ * Full-text search over the signed-in user's chat titles and messages.
+ * Hits are ranked, with snippets split into matched and plain segments.
+ *
+ * Query params:
+ *   - q: search query, in web search syntax ("quoted phrases", -excluded)
+ */
+export async function GET(request: Request) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const query = (new URL(request.url).searchParams.get("q") ?? "")
+    .trim()
+    .slice(0, CHAT_SEARCH_MAX_QUERY_LENGTH);
+
+  if (!query) {
+    return NextResponse.json({ error: "Missing query" }, { status: 400 });
+  }
+
+  const hits = await searchUserChats(session.user.id, query);
+
+  return NextResponse.json({ query, hits });
+}
@@ -0,0 +1,18 @@
+import { createMcpHandler } from "mcp-handler";
+import { registerRecipeMcp } from "@/lib/recipes/mcp";
+
+/**
+ * Streamable HTTP MCP server at /api/mcp.
+ *
+ * Tools: list_recipes, get_recipe, search_recipes, get_registry_item
+ * Resources: recipe://<slug>
+ *
+ * Stateless (no sessions or Redis), so SSE is disabled.
+ */
+const handler = createMcpHandler(
+  registerRecipeMcp,
+  { serverInfo: { name: "fullstackrecipes", version: "1.0.0" } },
+  { basePath: "/api", maxDuration: 60, disableSse: true },
+);
+
+export { handler as GET, handler as POST, handler as DELETE };
@@ -0,0 +1,49 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth/server";
+import { getCookbookBySlug, getAllItems } from "@/lib/recipes/data";
+import { parseBundleSlugs } from "@/lib/recipes/bundle";
+import { getCompletedSteps } from "@/lib/progress/queries";
+import { getRecipeProgress, getStartedItems } from "@/lib/progress/steps";
+
+/**
+ * GET /api/progress
+ * The signed-in user's progress: completed step keys, totals, and the step
+ * to resume at. Cookbooks roll up their recipes' progress.
+ *
+ * Query params:
+ *   - slugs: comma-separated recipe/cookbook slugs (default: every item with
+ *     at least one completed step)
+ */
+export async function GET(request: Request) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const param = new URL(request.url).searchParams.get("slugs");
+  const { slugs, unknown } = parseBundleSlugs(param);
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown slugs: ${unknown.join(", ")}` },
+      { status: 404 },
+    );
+  }
+
+  // A cookbook's progress is stored on its recipes
+  const recipeSlugs =
+    param === null
+      ? undefined
+      : slugs.flatMap((slug) => getCookbookBySlug(slug)?.recipes ?? [slug]);
+  const rows = await getCompletedSteps(session.user.id, recipeSlugs);
+
+  const items =
+    param === null
+      ? getStartedItems(getAllItems(), rows)
+      : getAllItems().filter((item) => slugs.includes(item.slug));
+
+  return NextResponse.json({ progress: await getRecipeProgress(items, rows) });
+}
@@ -1,7 +1,18 @@
 import { NextResponse } from "next/server";
 import { getItemBySlug, getRedirectSlug } from "@/lib/recipes/data";
 import { loadRecipeMarkdown } from "@/lib/recipes/loader";
+import { getStructuredRecipe } from "@/lib/recipes/structured";
 
+/**
+ * GET /api/recipes/[slug]
+ * A recipe or cookbook as `{ content }` JSON, or as Markdown when the Accept
+ * header asks for text/plain or text/markdown. Old slugs redirect.
+ *
+ * Query params:
+ *   - format: "structured" for machine-readable steps, files, packages, env
+ *     vars, and registry dependencies (versioned; JSON Schema at
+ *     `/api/recipes/schema`)
+ */
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ slug: string }> },
@@ -20,6 +31,17 @@ export async function GET(
     return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
   }
 
+  const format = new URL(request.url).searchParams.get("format");
+  if (format === "structured") {
+    return NextResponse.json(await getStructuredRecipe(item));
+  }
+  if (format !== null) {
+    return NextResponse.json(
+      { error: `Unknown format: ${format}` },
+      { status: 400 },
+    );
+  }
+
   // Return transformed markdown (custom tags expanded for agent consumption)
   const content = await loadRecipeMarkdown(item);
 
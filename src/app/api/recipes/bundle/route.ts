@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { loadBundleMarkdown, parseBundleSlugs } from "@/lib/recipes/bundle";
+
+/**
+ * GET /api/recipes/bundle
+ * Several recipes and cookbooks as one Markdown document, with every
+ * prerequisite resolved into install order and a table of contents.
+ *
+ * Query params:
+ *   - slugs: Comma-separated recipe or cookbook slugs (required)
+ *
+ * Returns JSON `{ slugs, content }`, or raw Markdown when the Accept header
+ * asks for text/markdown or text/plain.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const { slugs, unknown } = parseBundleSlugs(searchParams.get("slugs"));
+
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown slugs: ${unknown.join(", ")}` },
+      { status: 404 },
+    );
+  }
+  if (slugs.length === 0) {
+    return NextResponse.json({ error: "Missing slugs" }, { status: 400 });
+  }
+
+  const content = await loadBundleMarkdown(slugs);
+
+  const acceptHeader = request.headers.get("Accept") || "";
+  if (
+    acceptHeader.includes("text/plain") ||
+    acceptHeader.includes("text/markdown")
+  ) {
+    return new Response(content, {
+      headers: { "Content-Type": "text/markdown; charset=utf-8" },
+    });
+  }
+
+  return NextResponse.json({ slugs, content });
+}
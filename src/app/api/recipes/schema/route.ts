@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  STRUCTURED_RECIPE_SCHEMA_VERSION,
+  structuredRecipeSchema,
+} from "@/lib/recipes/structured";
+
+/**
+ * GET /api/recipes/schema
+ * JSON Schema of the `/api/recipes/[slug]?format=structured` response.
+ * `schemaVersion` in responses matches the version in this schema's `$id`.
+ */
+export async function GET() {
+  return NextResponse.json({
+    $id: `https://fullstackrecipes.com/api/recipes/schema#v${STRUCTURED_RECIPE_SCHEMA_VERSION}`,
+    ...z.toJSONSchema(structuredRecipeSchema, { io: "output" }),
+  });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { searchRecipes } from "@/lib/recipes/search";
+
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/search?q=<query>
+ * Full-text search over recipe, cookbook, and skill content.
+ *
+ * Query params:
+ *   - q: search query (required)
+ *   - limit: max number of results (default 20, max 50)
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q")?.trim() ?? "";
+
+  if (!query) {
+    return NextResponse.json({ error: "Missing query" }, { status: 400 });
+  }
+
+  const limitParam = searchParams.get("limit");
+  const limit =
+    limitParam !== null
+      ? Math.min(Math.max(parseInt(limitParam, 10) || 1, 1), MAX_LIMIT)
+      : undefined;
+
+  const results = await searchRecipes(query, { limit });
+
+  return NextResponse.json({ query, results });
+}
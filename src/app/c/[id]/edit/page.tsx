@@ -0,0 +1,63 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { z } from "zod";
+import { auth } from "@/lib/auth/server";
+import { resolveSavedRecipes } from "@/lib/cookbooks/custom";
+import { getCustomCookbook } from "@/lib/cookbooks/queries";
+import { CustomCookbookForm } from "@/components/cookbooks/custom-cookbook-form";
+import { Button } from "@/components/ui/button";
+
+export const metadata: Metadata = {
+  title: "Edit Cookbook",
+};
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function EditCustomCookbookPage({ params }: Props) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    redirect("/sign-in");
+  }
+
+  const { id } = await params;
+  const cookbook = z.uuid().safeParse(id).success
+    ? await getCustomCookbook(id)
+    : null;
+
+  if (!cookbook || cookbook.userId !== session.user.id) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-dvh bg-muted/30">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container flex h-14 items-center gap-4 max-w-2xl">
+          <Link href={`/c/${id}`}>
+            <Button variant="ghost" size="icon-sm">
+              <ArrowLeft className="size-4" />
+            </Button>
+          </Link>
+          <h1 className="font-semibold">Edit Cookbook</h1>
+        </div>
+      </header>
+      <main className="container max-w-2xl py-8 px-4">
+        <CustomCookbookForm
+          id={id}
+          initialValues={{
+            title: cookbook.title,
+            description: cookbook.description,
+            recipes: resolveSavedRecipes(cookbook.recipes),
+          }}
+        />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCustomCookbook } from "@/lib/cookbooks/queries";
+import { toCookbook } from "@/lib/cookbooks/custom";
+import { loadRecipeMarkdown } from "@/lib/recipes/loader";
+
+/**
+ * GET /c/[id].md
+ * Markdown twin of a custom cookbook, rendered like a built-in cookbook's
+ * `.md`. A rewrite in `next.config.ts` maps `/c/<id>.md` here.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const cookbook = z.uuid().safeParse(id).success
+    ? await getCustomCookbook(id)
+    : null;
+
+  if (!cookbook) {
+    return NextResponse.json({ error: "Cookbook not found" }, { status: 404 });
+  }
+
+  const content = await loadRecipeMarkdown(toCookbook(cookbook));
+  return new Response(content, {
+    headers: { "Content-Type": "text/markdown; charset=utf-8" },
+  });
+}
@@ -0,0 +1,125 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { Pencil } from "lucide-react";
+import { z } from "zod";
+import { auth } from "@/lib/auth/server";
+import { getCustomCookbook } from "@/lib/cookbooks/queries";
+import {
+  getCustomCookbookMarkdownUrl,
+  toCookbook,
+} from "@/lib/cookbooks/custom";
+import { getCookbookRecipes } from "@/lib/recipes/data";
+import { getPrerequisites } from "@/lib/recipes/graph";
+import {
+  loadRecipeContent,
+  getCookbookTableOfContents,
+} from "@/lib/recipes/loader";
+import { getChangelog } from "@/lib/recipes/changelog";
+import { estimateTokens } from "@/lib/recipes/tokens";
+import { RecipeHeader } from "@/components/recipes/header";
+import { MarkdownBlock } from "@/components/docs/markdown-block";
+import { CopyableCodeBox } from "@/components/code/copyable-code-box";
+import { RelatedRecipes } from "@/components/recipes/related";
+import { CookbookRecipes } from "@/components/recipes/cookbook-recipes";
+import { serializeRecipes, serializeItems } from "@/lib/recipes/serialize";
+import { DetailWrapper } from "@/components/recipes/detail-wrapper";
+import { RecipeSidebar } from "@/components/recipes/sidebar";
+import { Button } from "@/components/ui/button";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+async function loadCustomCookbook(id: string) {
+  return z.uuid().safeParse(id).success ? getCustomCookbook(id) : null;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const custom = await loadCustomCookbook(id);
+
+  if (!custom) {
+    return {
+      title: "Cookbook Not Found",
+      description: "The requested cookbook could not be found.",
+    };
+  }
+
+  const cookbook = toCookbook(custom);
+  return {
+    title: cookbook.title,
+    description: cookbook.description,
+  };
+}
+
+export default async function CustomCookbookPage({ params }: Props) {
+  const { id } = await params;
+  const custom = await loadCustomCookbook(id);
+
+  if (!custom) {
+    notFound();
+  }
+
+  const cookbook = toCookbook(custom);
+  const [content, changelog, session] = await Promise.all([
+    loadRecipeContent(cookbook),
+    getChangelog(cookbook),
+    auth.api.getSession({ headers: await headers() }),
+  ]);
+  const requiredItems = getPrerequisites(cookbook);
+  const cookbookRecipes = getCookbookRecipes(cookbook);
+  const tableOfContents = getCookbookTableOfContents(cookbook);
+  const isOwner = session?.user.id === custom.userId;
+
+  return (
+    <DetailWrapper slugs={cookbook.recipes}>
+      <div className="min-h-screen bg-background">
+        <RecipeHeader
+          title={cookbook.title}
+          description={cookbook.description}
+          tags={cookbook.tags}
+          icon={cookbook.icon}
+          isCookbook
+          recipeCount={cookbookRecipes.length}
+          tokens={estimateTokens(content)}
+          changelog={changelog}
+        />
+        <div className="mx-auto max-w-6xl px-4 py-12 sm:px-6 lg:px-8">
+          <div className="flex gap-12">
+            <main className="min-w-0 flex-1">
+              <div className="mb-6">
+                <div className="mb-2 flex items-center justify-between gap-4">
+                  <p className="text-sm font-medium text-foreground">
+                    Share with your team or agent
+                  </p>
+                  {isOwner && (
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={`/c/${custom.id}/edit`}>
+                        <Pencil className="size-3.5" />
+                        Edit
+                      </Link>
+                    </Button>
+                  )}
+                </div>
+                <CopyableCodeBox
+                  code={`curl ${getCustomCookbookMarkdownUrl(custom.id)}`}
+                />
+              </div>
+              <RelatedRecipes
+                requiredItems={serializeItems(requiredItems)}
+                isCookbook
+              />
+              {requiredItems.length > 0 && <div className="my-6" />}
+              <CookbookRecipes recipes={serializeRecipes(cookbookRecipes)} />
+              <div className="my-8 border-t border-border" />
+              <MarkdownBlock content={content} />
+            </main>
+            <RecipeSidebar tableOfContents={tableOfContents} />
+          </div>
+        </div>
+      </div>
+    </DetailWrapper>
+  );
+}
@@ -0,0 +1,54 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { auth } from "@/lib/auth/server";
+import { getSelectionRecipeSlugs } from "@/lib/cookbooks/custom";
+import { CustomCookbookForm } from "@/components/cookbooks/custom-cookbook-form";
+import { Button } from "@/components/ui/button";
+
+export const metadata: Metadata = {
+  title: "New Cookbook",
+  description: "Save a selection of recipes as a shareable cookbook.",
+};
+
+type Props = {
+  searchParams: Promise<{ slugs?: string }>;
+};
+
+export default async function NewCustomCookbookPage({ searchParams }: Props) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  const { slugs = "" } = await searchParams;
+  if (!session) {
+    redirect("/sign-in");
+  }
+
+  const recipes = getSelectionRecipeSlugs(slugs.split(",")).map((slug) => ({
+    slug,
+    note: null,
+  }));
+
+  return (
+    <div className="min-h-dvh bg-muted/30">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container flex h-14 items-center gap-4 max-w-2xl">
+          <Link href="/">
+            <Button variant="ghost" size="icon-sm">
+              <ArrowLeft className="size-4" />
+            </Button>
+          </Link>
+          <h1 className="font-semibold">New Cookbook</h1>
+        </div>
+      </header>
+      <main className="container max-w-2xl py-8 px-4">
+        <CustomCookbookForm
+          initialValues={{ title: "", description: "", recipes }}
+        />
+      </main>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { SimpleChat } from "@/components/chat/chat";
 import {
   convertDbMessagesToUIMessages,
   ensureChatExists,
-  getChatMessages,
+  getChatMessagesPage,
 } from "@/lib/chat/queries";
 import { auth } from "@/lib/auth/server";
 import { UserMenu } from "@/components/auth/user-menu";
@@ -41,8 +41,9 @@ export default async function ChatPage({ params }: PageProps) {
     redirect("/");
   }
 
-  // Fetch all messages for this chat
-  const persistedMessages = await getChatMessages(chatId);
+  // Fetch the latest messages; older ones load when scrolling up
+  const { messages: persistedMessages, before } =
+    await getChatMessagesPage(chatId);
 
   // Check if the last message is an incomplete assistant message (has runId but no parts)
   // This happens when a workflow was interrupted mid-stream
@@ -102,6 +103,7 @@ export default async function ChatPage({ params }: PageProps) {
           messageHistory={history}
           chatId={chatId}
           initialRunId={initialRunId ?? undefined}
+          olderMessagesCursor={before}
         />
       </main>
     </div>
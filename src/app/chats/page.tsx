@@ -5,6 +5,7 @@ import Link from "next/link";
 import { ChefHat } from "lucide-react";
 import { auth } from "@/lib/auth/server";
 import { getUserChats } from "@/lib/chat/queries";
+import { isChatSort } from "@/lib/chat/pagination";
 import { ChatList } from "@/components/chats/chat-list";
 import { UserMenu } from "@/components/auth/user-menu";
 import { ThemeSelector } from "@/components/themes/selector";
@@ -15,7 +16,11 @@ export const metadata: Metadata = {
     "View and manage your AI conversations. Continue where you left off or start a new chat.",
 };
 
-export default async function ChatsPage() {
+interface PageProps {
+  searchParams: Promise<{ sort?: string }>;
+}
+
+export default async function ChatsPage({ searchParams }: PageProps) {
   const session = await auth.api.getSession({
     headers: await headers(),
   });
@@ -24,7 +29,9 @@ export default async function ChatsPage() {
     redirect("/sign-in");
   }
 
-  const chats = await getUserChats(session.user.id);
+  const { sort: sortParam } = await searchParams;
+  const sort = isChatSort(sortParam) ? sortParam : "updated";
+  const { chats, cursor } = await getUserChats(session.user.id, { sort });
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-background via-background to-muted/20">
@@ -61,7 +68,12 @@ export default async function ChatsPage() {
           </p>
         </div>
 
-        <ChatList initialChats={chats} />
+        <ChatList
+          key={sort}
+          initialChats={chats}
+          initialCursor={cursor}
+          sort={sort}
+        />
       </main>
     </div>
   );
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { getItemBySlug, getRedirectSlug } from "@/lib/recipes/data";
+import { getRecipeDiff } from "@/lib/recipes/diff";
+import {
+  isRecipeHistoryAvailable,
+  RecipeHistoryError,
+} from "@/lib/recipes/git";
+import { RegistryItemNotFoundError } from "@/lib/recipes/registry";
+
+// Diffs only change with a deploy, so the CDN can answer repeat requests
+const CACHE_CONTROL = "public, max-age=0, s-maxage=3600";
+
+/**
+ * GET /recipes/<slug>.diff
+ * Unified diff of a recipe's Markdown between two points in its git history,
+ * so agents that applied a recipe earlier can see what changed since. A
+ * rewrite in `next.config.ts` maps `/recipes/<slug>.diff` to this handler.
+ *
+ * Query params:
+ *   - from: git ref (branch, tag, SHA) or date (YYYY-MM-DD) to diff from (required)
+ *   - to: git ref or date to diff to (defaults to the current content)
+ *
+ * Returns an empty body when nothing changed, 503 when the deployment has no
+ * git history, and 422 when the old revision can't be rendered anymore
+ * (e.g. it uses a registry item that has since been removed).
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> },
+) {
+  const { slug } = await params;
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get("from")?.trim();
+  const to = searchParams.get("to")?.trim() || undefined;
+
+  const redirectSlug = getRedirectSlug(slug);
+  const item =
+    getItemBySlug(slug) ??
+    (redirectSlug ? getItemBySlug(redirectSlug) : undefined);
+  if (!item) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!from) {
+    return NextResponse.json(
+      { error: "Missing from parameter" },
+      { status: 400 },
+    );
+  }
+  if (!isRecipeHistoryAvailable()) {
+    return NextResponse.json(
+      { error: "Recipe history is not available in this deployment" },
+      { status: 503 },
+    );
+  }
+
+  try {
+    const diff = await getRecipeDiff(item, from, to);
+    return new Response(diff, {
+      headers: {
+        "Content-Type": "text/x-diff; charset=utf-8",
+        "Cache-Control": CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    if (error instanceof RecipeHistoryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.reason === "unavailable" ? 503 : 404 },
+      );
+    }
+    if (error instanceof RegistryItemNotFoundError) {
+      return NextResponse.json(
+        {
+          error: `This recipe can't be rendered as of ${from}: ${error.message}`,
+        },
+        { status: 422 },
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * HEAD /recipes/<slug>.diff
+ * 204 when diffs can be served, 503 when the deployment has no git history.
+ * Lets the "What changed" panel hide itself without running git.
+ */
+export function HEAD() {
+  return new Response(null, {
+    status: isRecipeHistoryAvailable() ? 204 : 503,
+    headers: { "Cache-Control": CACHE_CONTROL },
+  });
+}
@@ -0,0 +1,61 @@
+import { getRecipeUpdates } from "@/lib/recipes/changelog";
+
+const SITE_URL = "https://fullstackrecipes.com";
+const MAX_ENTRIES = 50;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * GET /feed.xml
+ * Atom feed of recipe updates, newest first. Each entry is one released
+ * version of a recipe, or the last change of a recipe without changelog
+ * entries, so subscribers can re-apply only the recipes that changed since
+ * their last sync.
+ */
+export async function GET() {
+  const entries = (await getRecipeUpdates()).slice(0, MAX_ENTRIES);
+  const updated = entries[0]?.date ?? new Date().toISOString().slice(0, 10);
+
+  const items = entries
+    .map((entry) => {
+      const url = `${SITE_URL}/recipes/${entry.slug}`;
+      const title = entry.version
+        ? `${entry.title} ${entry.version}`
+        : `${entry.title} updated`;
+      return `  <entry>
+    <id>tag:fullstackrecipes.com,${entry.date}:${entry.slug}/${entry.version ?? entry.date}</id>
+    <title>${escapeXml(title)}</title>
+    <link rel="alternate" type="text/html" href="${url}"/>
+    <link rel="alternate" type="text/markdown" href="${url}.md"/>
+    <link rel="related" type="text/x-diff" href="${url}.diff?from=${entry.date}"/>
+    <updated>${entry.date}T00:00:00Z</updated>
+    <summary>${escapeXml(entry.changes ?? "Changed without a changelog entry; see the diff for what changed.")}</summary>
+  </entry>`;
+    })
+    .join("\n");
+
+  const feed = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${SITE_URL}/feed.xml</id>
+  <title>fullstackrecipes changelog</title>
+  <subtitle>New versions of fullstackrecipes recipes and skills</subtitle>
+  <link rel="self" type="application/atom+xml" href="${SITE_URL}/feed.xml"/>
+  <link rel="alternate" type="text/html" href="${SITE_URL}"/>
+  <updated>${updated}T00:00:00Z</updated>
+  <author><name>fullstackrecipes</name></author>
+${items}
+</feed>
+`;
+
+  return new Response(feed, {
+    headers: {
+      "Content-Type": "application/atom+xml; charset=utf-8",
+    },
+  });
+}
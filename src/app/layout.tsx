@@ -23,6 +23,13 @@ export const metadata: Metadata = {
   },
   description:
     "Build better full stack apps with fullstackrecipe skills and setup instructions for your coding agent.",
+  alternates: {
+    types: {
+      "application/atom+xml": [
+        { url: "/feed.xml", title: "fullstackrecipes changelog" },
+      ],
+    },
+  },
 };
 
 export default function RootLayout({
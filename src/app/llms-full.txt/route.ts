@@ -0,0 +1,53 @@
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import { buildLlmsFull, parseTags } from "@/lib/recipes/llms-full";
+
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(",")
+    .map((value) => value.trim().replace(/^W\//, ""))
+    .some((value) => value === "*" || value === etag);
+}
+
+/**
+ * GET /llms-full.txt
+ * The complete content of every setup recipe, cookbook, and skill as one
+ * plain-text Markdown document, for offline agents that can't follow links.
+ * The contents list the estimated tokens of each section; the total is in
+ * the `X-Token-Count` header. Responds 304 when `If-None-Match` matches the
+ * content's ETag.
+ *
+ * Query params:
+ *   - tags: comma-separated tags to include (e.g. "Skills,Cookbooks")
+ */
+export async function GET(request: Request) {
+  const { tags, unknown } = parseTags(
+    new URL(request.url).searchParams.get("tags"),
+  );
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown tags: ${unknown.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const { content, tokens } = await buildLlmsFull(tags);
+  const etag = `"${createHash("sha256").update(content).digest("hex").slice(0, 32)}"`;
+  const headers = {
+    ETag: etag,
+    "Cache-Control": "public, max-age=0, must-revalidate",
+  };
+
+  if (matchesETag(request.headers.get("If-None-Match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(content, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/plain; charset=utf-8",
+      "X-Token-Count": String(tokens),
+    },
+  });
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { getItemBySlug, getRedirectSlug } from "@/lib/recipes/data";
 import { loadRecipeMarkdown } from "@/lib/recipes/loader";
+import { loadBundleMarkdown, parseBundleSlugs } from "@/lib/recipes/bundle";
+import { buildEnvMarkdown } from "@/lib/recipes/env";
 import { buildLandingMarkdown } from "@/lib/recipes/site-markdown";
 
 const MARKDOWN_HEADERS = {
@@ -14,14 +16,22 @@ function markdown(content: string): Response {
 /**
  * Serves a Markdown representation of any page on the site. A rewrite in
  * `next.config.ts` maps `/<anything>.md` to this handler, so appending `.md`
- * to any URL returns the page content as Markdown — replacing the old MCP
- * server as the way agents fetch recipes.
+ * to any URL returns the page content as Markdown — the simplest way for
+ * agents to fetch recipes (`/api/mcp` serves the same content as MCP tools).
  *
- * - `/.md` and `/index.md` -> the landing page (authored in `docs/landing.md`)
+ * - `/.md`, `/index.md`, and `/recipes.md` -> the landing page (authored in
+ *   `docs/landing.md`), whose catalog `/recipes` redirects to
  * - `/<slug>.md` and `/recipes/<slug>.md` -> the recipe/cookbook source markdown
+ * - `/bundle.md?slugs=a,b` -> several recipes/cookbooks as one document, with
+ *   prerequisites resolved into install order
+ * - `/env.md?slugs=a,b` -> the env vars the selection needs, with a merged
+ *   `.env.example`
+ *
+ * `src/proxy.ts` also rewrites page URLs here when the Accept header prefers
+ * `text/markdown`.
  */
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ path?: string[] }> },
 ) {
   const { path = [] } = await params;
@@ -29,11 +39,35 @@ export async function GET(
 
   if (
     segments.length === 0 ||
-    (segments.length === 1 && segments[0] === "index")
+    (segments.length === 1 &&
+      (segments[0] === "index" || segments[0] === "recipes"))
   ) {
     return markdown(await buildLandingMarkdown());
   }
 
+  if (
+    segments.length === 1 &&
+    (segments[0] === "bundle" || segments[0] === "env")
+  ) {
+    const { slugs, unknown } = parseBundleSlugs(
+      new URL(request.url).searchParams.get("slugs"),
+    );
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown slugs: ${unknown.join(", ")}` },
+        { status: 404 },
+      );
+    }
+    if (slugs.length === 0) {
+      return NextResponse.json({ error: "Missing slugs" }, { status: 400 });
+    }
+    return markdown(
+      segments[0] === "env"
+        ? buildEnvMarkdown(slugs)
+        : await loadBundleMarkdown(slugs),
+    );
+  }
+
   // Support both `/<slug>.md` and `/recipes/<slug>.md`.
   const slug = segments[segments.length - 1];
   const item = getItemBySlug(slug) ?? resolveRedirect(slug);
@@ -8,6 +8,10 @@ import { ChangeEmail } from "@/components/profile/change-email";
 import { DeleteAccount } from "@/components/profile/delete-account";
 import { Sessions } from "@/components/profile/sessions";
 import { ResendVerification } from "@/components/profile/resend-verification";
+import { RecipeProgress } from "@/components/profile/recipe-progress";
+import { CustomCookbooks } from "@/components/profile/custom-cookbooks";
+import { ChatExport } from "@/components/profile/chat-export";
+import { getUserCustomCookbooks } from "@/lib/cookbooks/queries";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
 import Link from "next/link";
@@ -15,7 +19,7 @@ import Link from "next/link";
 export const metadata: Metadata = {
   title: "Account Settings",
   description:
-    "Manage your profile, security settings, email preferences, and active sessions.",
+    "Manage your profile, recipe progress, custom cookbooks, chat history, security settings, email preferences, and active sessions.",
 };
 
 export default async function ProfilePage() {
@@ -27,6 +31,8 @@ export default async function ProfilePage() {
     redirect("/sign-in");
   }
 
+  const cookbooks = await getUserCustomCookbooks(session.user.id);
+
   return (
     <div className="min-h-dvh bg-muted/30">
       <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -43,6 +49,9 @@ export default async function ProfilePage() {
         <div className="space-y-6">
           <ResendVerification />
           <ProfileHeader />
+          <RecipeProgress />
+          <CustomCookbooks cookbooks={cookbooks} />
+          <ChatExport />
           <ChangeEmail />
           <ChangePassword />
           <Sessions />
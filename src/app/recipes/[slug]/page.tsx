@@ -15,6 +15,8 @@ import {
   loadRecipeContent,
   getCookbookTableOfContents,
 } from "@/lib/recipes/loader";
+import { getChangelog } from "@/lib/recipes/changelog";
+import { getTokenEstimate } from "@/lib/recipes/tokens";
 import { RecipeHeader } from "@/components/recipes/header";
 import { MarkdownBlock } from "@/components/docs/markdown-block";
 import { CopyableCodeBox } from "@/components/code/copyable-code-box";
@@ -23,6 +25,9 @@ import { CookbookRecipes } from "@/components/recipes/cookbook-recipes";
 import { serializeRecipes, serializeItems } from "@/lib/recipes/serialize";
 import { DetailWrapper } from "@/components/recipes/detail-wrapper";
 import { RecipeSidebar } from "@/components/recipes/sidebar";
+import { WhatChanged } from "@/components/recipes/what-changed";
+import { ProgressChecklist } from "@/components/recipes/progress-checklist";
+import { getProgressSteps } from "@/lib/progress/steps";
 
 type Props = {
   params: Promise<{ slug: string }>;
@@ -75,7 +80,11 @@ export default async function RecipePage({ params }: Props) {
     notFound();
   }
 
-  const content = await loadRecipeContent(item);
+  const [content, changelog, progressSteps] = await Promise.all([
+    loadRecipeContent(item),
+    getChangelog(item),
+    getProgressSteps(item),
+  ]);
   const requiredItems = getRequiredItems(item);
   const cookbookRecipes = isCookbook(item) ? getCookbookRecipes(item) : [];
   const tableOfContents = isCookbook(item)
@@ -94,7 +103,7 @@ export default async function RecipePage({ params }: Props) {
   const hasSidebar = tableOfContents.length > 0;
 
   return (
-    <DetailWrapper slug={item.slug}>
+    <DetailWrapper slugs={[item.slug]}>
       <div className="min-h-screen bg-background">
         <RecipeHeader
           title={item.title}
@@ -103,6 +112,8 @@ export default async function RecipePage({ params }: Props) {
           icon={item.icon}
           isCookbook={isCookbook(item)}
           recipeCount={cookbookRecipes.length}
+          tokens={getTokenEstimate(item.slug)}
+          changelog={changelog}
         />
         <div
           className={
@@ -113,6 +124,12 @@ export default async function RecipePage({ params }: Props) {
         >
           <div className={hasSidebar ? "flex gap-12" : ""}>
             <main className={hasSidebar ? "min-w-0 flex-1" : ""}>
+              <WhatChanged slug={item.slug} />
+              <ProgressChecklist
+                slug={item.slug}
+                steps={progressSteps}
+                isCookbook={isCookbook(item)}
+              />
               <RelatedRecipes
                 requiredItems={serializeItems(requiredItems)}
                 isCookbook={isCookbook(item)}
@@ -1,29 +1,41 @@
 import type { MetadataRoute } from "next";
 import { getAllItems } from "@/lib/recipes/data";
+import { getChangelog } from "@/lib/recipes/changelog";
 
 const BASE_URL = "https://fullstackrecipes.com";
 
-export default function sitemap(): MetadataRoute.Sitemap {
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const items = getAllItems();
+  const changelogs = await Promise.all(items.map((item) => getChangelog(item)));
+
+  // The home and recipes index list every recipe, so they change with the latest one
+  const latestUpdate = changelogs
+    .flatMap((changelog) => (changelog ? [changelog.updatedAt] : []))
+    .sort()
+    .at(-1);
+
+  // Without changelog entries or git history, there is no update date to report
+  const lastModified = (date: string | undefined) =>
+    date ? new Date(date) : undefined;
 
   const staticPages: MetadataRoute.Sitemap = [
     {
       url: BASE_URL,
-      lastModified: new Date(),
+      lastModified: lastModified(latestUpdate),
       changeFrequency: "weekly",
       priority: 1,
     },
     {
       url: `${BASE_URL}/recipes`,
-      lastModified: new Date(),
+      lastModified: lastModified(latestUpdate),
       changeFrequency: "weekly",
       priority: 0.9,
     },
   ];
 
-  const recipePages: MetadataRoute.Sitemap = items.map((item) => ({
+  const recipePages: MetadataRoute.Sitemap = items.map((item, index) => ({
     url: `${BASE_URL}/recipes/${item.slug}`,
-    lastModified: new Date(),
+    lastModified: lastModified(changelogs[index]?.updatedAt),
     changeFrequency: "weekly" as const,
     priority: 0.8,
   }));
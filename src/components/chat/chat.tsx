@@ -1,5 +1,7 @@
 "use client";
 
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { useStickToBottomContext } from "use-stick-to-bottom";
 import {
   Conversation,
   ConversationContent,
@@ -29,7 +31,9 @@ import {
   ChatFilePart,
 } from "@/workflows/chat/types";
 import { useResumableChat } from "@/hooks/use-resumable-chat";
-import { AlertCircleIcon, PaperclipIcon } from "lucide-react";
+import { loadOlderMessagesAction } from "@/lib/chat/actions";
+import { AlertCircleIcon, Loader2, PaperclipIcon } from "lucide-react";
+import { toast } from "sonner";
 import {
   isToolPart,
   TextPart,
@@ -69,7 +73,7 @@ function MessageWithParts({ message }: { message: ChatAgentUIMessage }) {
   const latestDataProgress = dataProgressParts[dataProgressParts.length - 1];
 
   return (
-    <Message from={message.role}>
+    <Message id={message.id} from={message.role}>
       <MessageContent>
         {latestDataProgress && (
           <DataProgressPart text={latestDataProgress.data.text} />
@@ -108,25 +112,155 @@ function MessageWithParts({ message }: { message: ChatAgentUIMessage }) {
   );
 }
 
+/**
+ * Loads older messages when scrolled to the top of the conversation, keeping
+ * the visible messages in place as older ones are prepended.
+ */
+function OlderMessagesLoader({
+  messageCount,
+  onLoad,
+}: {
+  messageCount: number;
+  onLoad: () => Promise<void>;
+}) {
+  const { scrollRef, escapedFromLock } = useStickToBottomContext();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const heightBeforeLoad = useRef<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    const scrollElement = scrollRef.current;
+    if (!sentinel || !scrollElement || loading) return;
+    // Wait until the reader scrolls up, unless nothing is scrollable yet
+    const canScroll = scrollElement.scrollHeight > scrollElement.clientHeight;
+    if (canScroll && !escapedFromLock) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (!entry.isIntersecting) return;
+        heightBeforeLoad.current = scrollElement.scrollHeight;
+        setLoading(true);
+        onLoad().finally(() => setLoading(false));
+      },
+      { root: scrollElement, rootMargin: "200px 0px 0px 0px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [scrollRef, escapedFromLock, onLoad, loading]);
+
+  useLayoutEffect(() => {
+    const scrollElement = scrollRef.current;
+    if (!scrollElement || heightBeforeLoad.current === null) return;
+    scrollElement.scrollTop +=
+      scrollElement.scrollHeight - heightBeforeLoad.current;
+    heightBeforeLoad.current = null;
+  }, [scrollRef, messageCount]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center">
+      {loading && (
+        <Loader2 className="size-4 animate-spin text-muted-foreground" />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Scrolls to the message named by the URL hash, as linked from chat search,
+ * loading older messages until it is found or there are none left.
+ */
+function LinkedMessageScroller({
+  messages,
+  hasOlderMessages,
+  onLoadOlder,
+}: {
+  messages: ChatAgentUIMessage[];
+  hasOlderMessages: boolean;
+  onLoadOlder: () => Promise<void>;
+}) {
+  const { stopScroll } = useStickToBottomContext();
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const loading = useRef(false);
+
+  useEffect(() => {
+    const readHash = () =>
+      setTargetId(decodeURIComponent(window.location.hash.slice(1)) || null);
+    readHash();
+    window.addEventListener("hashchange", readHash);
+    return () => window.removeEventListener("hashchange", readHash);
+  }, []);
+
+  useEffect(() => {
+    if (!targetId || loading.current) return;
+
+    if (messages.some((message) => message.id === targetId)) {
+      // Keep the conversation from sticking back to the bottom
+      stopScroll();
+      document.getElementById(targetId)?.scrollIntoView({ block: "center" });
+      setTargetId(null);
+    } else if (hasOlderMessages) {
+      loading.current = true;
+      onLoadOlder().finally(() => {
+        loading.current = false;
+      });
+    } else {
+      setTargetId(null);
+    }
+  }, [targetId, messages, hasOlderMessages, onLoadOlder, stopScroll]);
+
+  return null;
+}
+
 export function SimpleChat({
   messageHistory,
   chatId,
   initialRunId,
+  olderMessagesCursor,
 }: {
   messageHistory: ChatAgentUIMessage[];
   chatId: string;
   initialRunId?: string;
+  /** Cursor for messages older than `messageHistory`; null when there are none */
+  olderMessagesCursor: string | null;
 }) {
-  const { messages, sendMessage, status, error } = useResumableChat({
-    chatId,
-    messageHistory,
-    initialRunId,
-  });
+  const { messages, setMessages, sendMessage, status, error } =
+    useResumableChat({
+      chatId,
+      messageHistory,
+      initialRunId,
+    });
+  const [before, setBefore] = useState(olderMessagesCursor);
+
+  const loadOlderMessages = async () => {
+    if (!before) return;
+    const result = await loadOlderMessagesAction(chatId, before);
+    if ("error" in result) {
+      toast.error(result.error);
+      setBefore(null);
+      return;
+    }
+    // The scroller and the loader may both have loaded this page
+    setMessages((current) => {
+      const loaded = new Set(current.map((message) => message.id));
+      return [
+        ...result.messages.filter((message) => !loaded.has(message.id)),
+        ...current,
+      ];
+    });
+    setBefore(result.before);
+  };
 
   return (
     <div className="grid h-full grid-rows-[1fr_auto]">
       <Conversation>
         <ConversationContent>
+          {before && (
+            <OlderMessagesLoader
+              messageCount={messages.length}
+              onLoad={loadOlderMessages}
+            />
+          )}
           {messages.map((message) => (
             <MessageWithParts key={message.id} message={message} />
           ))}
@@ -145,6 +279,11 @@ export function SimpleChat({
           )}
         </ConversationContent>
         <ConversationScrollButton />
+        <LinkedMessageScroller
+          messages={messages}
+          hasOlderMessages={!!before}
+          onLoadOlder={loadOlderMessages}
+        />
       </Conversation>
 
       <PromptInput
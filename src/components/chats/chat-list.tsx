@@ -1,8 +1,8 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useEffect, useRef } from "react";
 import Link from "next/link";
-import { useQueryState, parseAsString } from "nuqs";
+import { useQueryState, parseAsString, parseAsStringLiteral } from "nuqs";
 import { formatDistanceToNow } from "date-fns";
 import {
   MessageSquare,
@@ -11,6 +11,8 @@ import {
   Plus,
   MoreVertical,
   Pencil,
+  Loader2,
+  Download,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -39,14 +41,102 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   deleteChatAction,
   createNewChat,
+  loadChatsAction,
   renameChatAction,
 } from "@/lib/chat/actions";
+import {
+  CHAT_SORT_LABELS,
+  CHAT_SORTS,
+  type ChatSort,
+} from "@/lib/chat/pagination";
+import type { ChatSearchHit } from "@/lib/chat/search";
 import { toast } from "sonner";
 import type { ChatWithPreview } from "@/lib/chat/queries";
 
+const SEARCH_DEBOUNCE_MS = 200;
+
+/**
+ * Full-text search the user's chats on the server. Returns null while there
+ * is no query, so the paged list shows instead.
+ */
+function useChatSearch(query: string): ChatSearchHit[] | null {
+  const [hits, setHits] = useState<ChatSearchHit[] | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setHits(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/chats/search?q=${encodeURIComponent(trimmed)}`,
+          { signal: controller.signal },
+        );
+        if (!response.ok) return;
+        const data = (await response.json()) as { hits: ChatSearchHit[] };
+        setHits(data.hits);
+      } catch {
+        // Aborted or offline: keep the previous hits
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  return hits;
+}
+
+function Snippet({ segments }: { segments: ChatSearchHit["snippet"] }) {
+  return segments.map((segment, i) =>
+    segment.match ? (
+      <mark key={i} className="bg-primary/20 text-foreground rounded-sm">
+        {segment.text}
+      </mark>
+    ) : (
+      <span key={i}>{segment.text}</span>
+    ),
+  );
+}
+
+/** A search hit: the matching message, or the chat when its title matched */
+function ChatSearchHitItem({ hit }: { hit: ChatSearchHit }) {
+  return (
+    <Link
+      href={hit.url}
+      className="flex items-center gap-3 px-3 py-3 rounded-lg hover:ring-2 hover:ring-primary/50 transition-all"
+    >
+      <MessageSquare className="size-4 text-muted-foreground shrink-0" />
+      <div className="flex-1 min-w-0">
+        <span className="font-medium truncate text-sm block">
+          {hit.messageId ? hit.chatTitle : <Snippet segments={hit.snippet} />}
+        </span>
+        {hit.messageId && (
+          <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">
+            <Snippet segments={hit.snippet} />
+          </p>
+        )}
+      </div>
+    </Link>
+  );
+}
+
 function ChatListItem({
   chat,
   onRequestDelete,
@@ -98,6 +188,18 @@ function ChatListItem({
             <Pencil className="size-4 mr-2" />
             Rename
           </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <a href={`/api/chats/${chat.id}/export?format=md`} download>
+              <Download className="size-4 mr-2" />
+              Export as Markdown
+            </a>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <a href={`/api/chats/${chat.id}/export?format=json`} download>
+              <Download className="size-4 mr-2" />
+              Export as JSON
+            </a>
+          </DropdownMenuItem>
           <DropdownMenuItem
             onSelect={() => onRequestDelete(chat.id)}
             className="text-destructive focus:text-destructive"
@@ -111,16 +213,59 @@ function ChatListItem({
   );
 }
 
+/** Loads the next page of chats when scrolled near the end of the list */
+function NextChatsLoader({ onLoad }: { onLoad: () => Promise<void> }) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || loading) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (!entry.isIntersecting) return;
+        setLoading(true);
+        onLoad().finally(() => setLoading(false));
+      },
+      { rootMargin: "0px 0px 400px 0px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoad, loading]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-2">
+      {loading && (
+        <Loader2 className="size-4 animate-spin text-muted-foreground" />
+      )}
+    </div>
+  );
+}
+
 export function ChatList({
   initialChats,
+  initialCursor,
+  sort,
 }: {
   initialChats: ChatWithPreview[];
+  /** Cursor for the page after `initialChats`; null when there is none */
+  initialCursor: string | null;
+  sort: ChatSort;
 }) {
   const [chats, setChats] = useState(initialChats);
+  const [cursor, setCursor] = useState(initialCursor);
+  const [, setSort] = useQueryState(
+    "sort",
+    parseAsStringLiteral(CHAT_SORTS)
+      .withDefault("updated")
+      .withOptions({ shallow: false }),
+  );
   const [searchQuery, setSearchQuery] = useQueryState(
     "q",
     parseAsString.withDefault(""),
   );
+  const searchHits = useChatSearch(searchQuery);
   const [deleteId, setDeleteId] = useQueryState("delete", parseAsString);
   const [renameId, setRenameId] = useQueryState("rename", parseAsString);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -135,15 +280,20 @@ export function ChatList({
     ? chats.find((chat) => chat.id === renameId)
     : null;
 
-  const filteredChats = useMemo(() => {
-    if (!searchQuery.trim()) return chats;
-    const query = searchQuery.toLowerCase();
-    return chats.filter(
-      (chat) =>
-        chat.title.toLowerCase().includes(query) ||
-        chat.lastMessagePreview?.toLowerCase().includes(query),
-    );
-  }, [chats, searchQuery]);
+  async function loadNextChats() {
+    if (!cursor) return;
+    const result = await loadChatsAction(sort, cursor);
+    if ("error" in result) {
+      toast.error(result.error);
+      setCursor(null);
+      return;
+    }
+    setChats((prev) => {
+      const loaded = new Set(prev.map((chat) => chat.id));
+      return [...prev, ...result.chats.filter((chat) => !loaded.has(chat.id))];
+    });
+    setCursor(result.cursor);
+  }
 
   function handleDelete(id: string) {
     setChats((prev) => prev.filter((chat) => chat.id !== id));
@@ -231,15 +381,32 @@ export function ChatList({
             className="pl-9"
           />
         </div>
-        <form action={createNewChat}>
-          <Button type="submit" className="gap-2 w-full sm:w-auto">
-            <Plus className="size-4" />
-            New Chat
-          </Button>
-        </form>
+        <div className="flex gap-2 w-full sm:w-auto">
+          <Select
+            value={sort}
+            onValueChange={(value) => setSort(value as ChatSort)}
+          >
+            <SelectTrigger className="w-40" aria-label="Sort chats">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHAT_SORTS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {CHAT_SORT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <form action={createNewChat} className="flex-1 sm:flex-none">
+            <Button type="submit" className="gap-2 w-full sm:w-auto">
+              <Plus className="size-4" />
+              New Chat
+            </Button>
+          </form>
+        </div>
       </div>
 
-      {filteredChats.length === 0 ? (
+      {searchHits?.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-16 text-center">
           <MessageSquare className="size-12 text-muted-foreground/50 mb-4" />
           <h3 className="text-lg font-medium">No chats found</h3>
@@ -247,17 +414,30 @@ export function ChatList({
             Try a different search term
           </p>
         </div>
-      ) : (
+      ) : searchHits ? (
         <div className="border rounded-lg divide-y">
-          {filteredChats.map((chat) => (
-            <ChatListItem
-              key={chat.id}
-              chat={chat}
-              onRequestDelete={setDeleteId}
-              onRequestRename={handleRequestRename}
+          {searchHits.map((hit) => (
+            <ChatSearchHitItem
+              key={`${hit.chatId}:${hit.messageId}`}
+              hit={hit}
             />
           ))}
         </div>
+      ) : (
+        <>
+          <div className="border rounded-lg divide-y">
+            {chats.map((chat) => (
+              <ChatListItem
+                key={chat.id}
+                chat={chat}
+                onRequestDelete={setDeleteId}
+                onRequestRename={handleRequestRename}
+              />
+            ))}
+          </div>
+
+          {cursor && <NextChatsLoader onLoad={loadNextChats} />}
+        </>
       )}
 
       <AlertDialog
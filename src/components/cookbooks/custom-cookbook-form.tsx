@@ -0,0 +1,252 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getAllRecipes, getRecipeBySlug } from "@/lib/recipes/data";
+import {
+  createCustomCookbookAction,
+  deleteCustomCookbookAction,
+  updateCustomCookbookAction,
+} from "@/lib/cookbooks/actions";
+import type { CustomCookbookInput } from "@/lib/cookbooks/custom";
+
+const recipes = getAllRecipes();
+
+type CustomCookbookFormProps = {
+  /** Id of the cookbook to edit; omit to create a new one */
+  id?: string;
+  initialValues: CustomCookbookInput;
+};
+
+export function CustomCookbookForm({
+  id,
+  initialValues,
+}: CustomCookbookFormProps) {
+  const router = useRouter();
+  const [title, setTitle] = useState(initialValues.title);
+  const [description, setDescription] = useState(initialValues.description);
+  const [entries, setEntries] = useState(initialValues.recipes);
+  const [loading, setLoading] = useState(false);
+
+  const available = recipes.filter(
+    (recipe) => !entries.some((entry) => entry.slug === recipe.slug),
+  );
+
+  const move = (index: number, offset: number) => {
+    setEntries((current) => {
+      const next = [...current];
+      const [entry] = next.splice(index, 1);
+      next.splice(index + offset, 0, entry);
+      return next;
+    });
+  };
+
+  const setNote = (index: number, note: string) => {
+    setEntries((current) =>
+      current.map((entry, i) => (i === index ? { ...entry, note } : entry)),
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const input = { title, description, recipes: entries };
+      const result = id
+        ? await updateCustomCookbookAction(id, input)
+        : await createCustomCookbookAction(input);
+
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(id ? "Cookbook saved" : "Cookbook created");
+      router.push(`/c/${result.id}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!id) return;
+
+    setLoading(true);
+    try {
+      const result = await deleteCustomCookbookAction(id);
+
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Cookbook deleted");
+      router.push("/profile");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{id ? "Edit Cookbook" : "New Cookbook"}</CardTitle>
+          <CardDescription>
+            Anyone with the link can read your cookbook and fetch it as Markdown
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cookbook-title">Name</Label>
+            <Input
+              id="cookbook-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Our stack"
+              maxLength={100}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cookbook-description">Description</Label>
+            <Textarea
+              id="cookbook-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this cookbook sets up and when to use it"
+              maxLength={1000}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recipes</CardTitle>
+          <CardDescription>
+            Recipes are followed in this order. Notes appear above each recipe.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ol className="space-y-3">
+            {entries.map((entry, index) => (
+              <li
+                key={entry.slug}
+                className="space-y-2 rounded-lg border border-border p-3"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {index + 1}.
+                  </span>
+                  <span className="flex-1 text-sm font-medium">
+                    {getRecipeBySlug(entry.slug)?.title ?? entry.slug}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="size-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => move(index, 1)}
+                    disabled={index === entries.length - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="size-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() =>
+                      setEntries((current) =>
+                        current.filter((other) => other.slug !== entry.slug),
+                      )
+                    }
+                    aria-label="Remove"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  value={entry.note ?? ""}
+                  onChange={(e) => setNote(index, e.target.value)}
+                  placeholder="Optional note, e.g. which options your team picks"
+                  maxLength={1000}
+                  className="min-h-12 text-sm"
+                />
+              </li>
+            ))}
+          </ol>
+
+          {available.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(slug) =>
+                setEntries((current) => [...current, { slug, note: null }])
+              }
+            >
+              <SelectTrigger className="w-full">
+                <Plus className="size-4" />
+                <SelectValue placeholder="Add a recipe" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((recipe) => (
+                  <SelectItem key={recipe.slug} value={recipe.slug}>
+                    {recipe.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between gap-4">
+        <Button type="submit" disabled={loading || entries.length === 0}>
+          {loading && <Loader2 className="size-4 animate-spin" />}
+          {id ? "Save Cookbook" : "Create Cookbook"}
+        </Button>
+        {id && (
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={loading}
+          >
+            Delete
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
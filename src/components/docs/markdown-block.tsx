@@ -1,11 +1,25 @@
 import Markdoc, { type RenderableTreeNode, type Tag } from "@markdoc/markdoc";
+import {
+  AlertCircle,
+  Info,
+  Lightbulb,
+  TriangleAlert,
+  type LucideIcon,
+} from "lucide-react";
 import Link from "next/link";
 import { type AnchorHTMLAttributes, type ReactNode } from "react";
 import { codeToHtml } from "shiki";
 
+import { extractFilePath } from "@/lib/recipes/file-path";
+import {
+  parseRecipeContent,
+  recipeTags,
+  type RecipeTagComponent,
+} from "@/lib/recipes/tags";
 import { cn } from "@/lib/utils";
 import { CodeBlockClient } from "./code-block-client";
 import { HeadingAnchor } from "./heading-anchor";
+import { Tab, Tabs } from "./tabs-tag";
 import { RegistryTag } from "../recipes/registry-tag";
 
 const SUPPORTED_LANGUAGES = [
@@ -50,6 +64,8 @@ async function highlightCode(code: string, language: SupportedLanguage) {
 type CodeBlockProps = {
   content: string;
   language: string;
+  /** Set by `{% file %}`; otherwise read from a leading path comment */
+  filePath?: string;
 };
 
 function normalizeLanguage(language: string): SupportedLanguage {
@@ -58,37 +74,6 @@ function normalizeLanguage(language: string): SupportedLanguage {
   return "typescript";
 }
 
-// Patterns for file path comments at the start of code blocks
-// Matches: // path/to/file.tsx or # path/to/file.py or // .env.local etc.
-const FILE_PATH_PATTERNS = [
-  /^\/\/\s*([^\s]+\.[a-zA-Z0-9]+)\s*\n/, // // path/to/file.ext
-  /^#\s*([^\s]+\.[a-zA-Z0-9]+)\s*\n/, // # path/to/file.ext (for bash, python, yaml)
-];
-
-function extractFilePath(content: string): {
-  filePath: string | null;
-  displayContent: string;
-} {
-  for (const pattern of FILE_PATH_PATTERNS) {
-    const match = content.match(pattern);
-    if (match?.[1]) {
-      // Validate it looks like a file path (contains / or . or starts with .)
-      const potentialPath = match[1];
-      if (
-        potentialPath.includes("/") ||
-        potentialPath.startsWith(".") ||
-        /^[a-zA-Z0-9_-]+\.[a-zA-Z0-9]+$/.test(potentialPath)
-      ) {
-        return {
-          filePath: potentialPath,
-          displayContent: content.replace(pattern, ""),
-        };
-      }
-    }
-  }
-  return { filePath: null, displayContent: content };
-}
-
 function getFileExtension(filePath: string): string {
   const ext = filePath.split(".").pop()?.toLowerCase();
   if (!ext) return "file";
@@ -101,11 +86,17 @@ function getFileExtension(filePath: string): string {
   return ext;
 }
 
-async function CodeBlock({ content, language }: CodeBlockProps) {
+async function CodeBlock({
+  content,
+  language,
+  filePath: taggedFilePath,
+}: CodeBlockProps) {
   const lang = normalizeLanguage(language);
   const trimmedContent = content.trim();
 
-  const { filePath, displayContent } = extractFilePath(trimmedContent);
+  const { filePath, displayContent } = taggedFilePath
+    ? { filePath: taggedFilePath, displayContent: trimmedContent }
+    : extractFilePath(trimmedContent);
   const codeToHighlight = displayContent.trim();
   const { light, dark } = await highlightCode(codeToHighlight, lang);
 
@@ -170,7 +161,7 @@ function Heading({
   const styles = {
     1: "text-3xl font-bold mt-8 mb-4 first:mt-0",
     2: "", // Handled by HeadingAnchor
-    3: "text-xl font-semibold mt-5 mb-2",
+    3: "text-xl font-semibold mt-5 mb-2 scroll-mt-24",
     4: "text-lg font-medium mt-4 mb-2",
     5: "text-base font-medium mt-3 mb-1",
     6: "text-sm font-medium mt-3 mb-1",
@@ -181,8 +172,14 @@ function Heading({
     return <HeadingAnchor id={id}>{children}</HeadingAnchor>;
   }
 
+  // Step headings get ids too so search results can deep-link to them
+  const id = level === 3 ? slugify(getTextContent(children)) : undefined;
   const Tag = `h${level}` as const;
-  return <Tag className={styles[level]}>{children}</Tag>;
+  return (
+    <Tag id={id} className={styles[level]}>
+      {children}
+    </Tag>
+  );
 }
 
 function Paragraph({ children }: { children: ReactNode }) {
@@ -313,6 +310,98 @@ function Article({ children }: { children: ReactNode }) {
   return <article>{children}</article>;
 }
 
+const CALLOUT_STYLES: Record<
+  string,
+  { icon: LucideIcon; label: string; className: string }
+> = {
+  note: {
+    icon: Info,
+    label: "Note",
+    className: "border-primary/30 bg-primary/5",
+  },
+  tip: {
+    icon: Lightbulb,
+    label: "Tip",
+    className: "border-green-500/30 bg-green-500/5",
+  },
+  warning: {
+    icon: TriangleAlert,
+    label: "Warning",
+    className: "border-amber-500/30 bg-amber-500/5",
+  },
+  important: {
+    icon: AlertCircle,
+    label: "Important",
+    className: "border-destructive/30 bg-destructive/5",
+  },
+};
+
+function Callout({
+  type = "note",
+  title,
+  children,
+}: {
+  type?: string;
+  title?: string;
+  children: ReactNode;
+}) {
+  const {
+    icon: Icon,
+    label,
+    className,
+  } = CALLOUT_STYLES[type] ?? CALLOUT_STYLES.note;
+  return (
+    <div className={cn("my-4 rounded-lg border px-4 pt-3", className)}>
+      <p className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Icon className="h-4 w-4" />
+        {title ?? label}
+      </p>
+      <div className="text-sm [&_p]:mb-3">{children}</div>
+    </div>
+  );
+}
+
+function EnvVar({
+  name,
+  description,
+  example,
+}: {
+  name: string;
+  description?: string;
+  example?: string;
+}) {
+  return (
+    <div className="my-4 rounded-lg border border-border px-4 py-3">
+      <code className="font-mono text-sm font-semibold">{name}</code>
+      {description && (
+        <p className="mt-1 text-sm text-muted-foreground">{description}</p>
+      )}
+      {example && (
+        <code className="mt-2 block overflow-x-auto rounded bg-muted px-2 py-1 font-mono text-xs">
+          {name}={example}
+        </code>
+      )}
+    </div>
+  );
+}
+
+function Step({
+  number,
+  title,
+  children,
+}: {
+  number: number;
+  title: string;
+  children: ReactNode;
+}) {
+  return (
+    <section>
+      <Heading level={3}>{`Step ${number}: ${title}`}</Heading>
+      {children}
+    </section>
+  );
+}
+
 const markdocConfig = {
   nodes: {
     document: {
@@ -394,17 +483,19 @@ const markdocConfig = {
       },
     },
   },
-  tags: {
-    registry: {
-      render: "RegistryTag",
-      selfClosing: true,
-      attributes: {
-        items: { type: String, required: true },
-      },
-    },
-  },
+  tags: recipeTags,
 };
 
+// Renderers for the custom tags declared in `@/lib/recipes/tags`
+const tagComponents = {
+  RegistryTag,
+  Callout,
+  Tabs,
+  Tab,
+  EnvVar,
+  Step,
+} satisfies Record<RecipeTagComponent, unknown>;
+
 const components = {
   Article,
   Heading,
@@ -425,7 +516,7 @@ const components = {
   TableHeaderCell,
   TableCell,
   Image,
-  RegistryTag,
+  ...tagComponents,
 };
 
 function isTag(node: RenderableTreeNode): node is Tag {
@@ -497,7 +588,7 @@ export async function MarkdownBlock({
   content,
   className,
 }: MarkdownBlockProps) {
-  const ast = Markdoc.parse(content);
+  const ast = parseRecipeContent(content);
   const transformed = Markdoc.transform(ast, markdocConfig);
 
   return (
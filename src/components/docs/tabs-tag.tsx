@@ -0,0 +1,42 @@
+"use client";
+
+import { type ReactNode } from "react";
+import {
+  Tabs as TabsRoot,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@/components/ui/tabs";
+
+/** Renders `{% tabs %}`; labels come from the `label` of each `{% tab %}` */
+export function Tabs({
+  labels,
+  children,
+}: {
+  labels: string[];
+  children: ReactNode;
+}) {
+  return (
+    <TabsRoot defaultValue={labels[0]} className="my-4">
+      <TabsList>
+        {labels.map((label) => (
+          <TabsTrigger key={label} value={label}>
+            {label}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {children}
+    </TabsRoot>
+  );
+}
+
+/** Renders one `{% tab %}` inside `{% tabs %}` */
+export function Tab({
+  label,
+  children,
+}: {
+  label: string;
+  children: ReactNode;
+}) {
+  return <TabsContent value={label}>{children}</TabsContent>;
+}
@@ -19,6 +19,7 @@ import {
 import {
   isCookbook,
   getSkillsInstallCommandForSlugs,
+  MCP_SERVER_URL,
   type Recipe,
   type Cookbook,
 } from "@/lib/recipes/data";
@@ -401,7 +402,7 @@ function HowItWorksInner() {
                       {
                         title: "Fetch recipes as Markdown",
                         description: markdownCurlCommand
-                          ? "Your agent can curl each selected recipe (append .md to any URL)"
+                          ? "One URL returns every selected recipe and its prerequisites in install order"
                           : "Select a setup recipe or cookbook to generate the command",
                         content: markdownCurlCommand ? (
                           <CommandBox command={markdownCurlCommand} />
@@ -455,6 +456,12 @@ function HowItWorksInner() {
                           </div>
                         ),
                       },
+                      {
+                        title: "Prefer tool calls? Connect the MCP server",
+                        description:
+                          "Agents that support MCP can add this Streamable HTTP server instead of fetching Markdown",
+                        content: <CommandBox command={MCP_SERVER_URL} />,
+                      },
                     ]}
                   />
                 </Card>
@@ -0,0 +1,139 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Download, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export function ChatExport() {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  // Large histories come in parts that each import in one go
+  const handleExportJson = async () => {
+    setExporting(true);
+    try {
+      let url: string | null = "/api/chats/export?format=json";
+      for (let part = 1; url; part++) {
+        const response: Response = await fetch(url);
+        if (!response.ok) {
+          toast.error("Export failed");
+          return;
+        }
+
+        const link = document.createElement("a");
+        link.href = URL.createObjectURL(await response.blob());
+        link.download = part === 1 ? "chats.json" : `chats-${part}.json`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+
+        url =
+          response.headers.get("Link")?.match(/<([^>]+)>;\s*rel="next"/)?.[1] ??
+          null;
+      }
+    } catch {
+      toast.error("Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const response = await fetch("/api/chats/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      const result = (await response.json()) as {
+        chatIds?: string[];
+        error?: string;
+      };
+
+      if (!response.ok) {
+        toast.error(result.error ?? "Import failed");
+        return;
+      }
+
+      const count = result.chatIds?.length ?? 0;
+      toast.success(`Imported ${count} ${count === 1 ? "chat" : "chats"}`);
+      router.push("/chats");
+    } catch {
+      toast.error("Import failed");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Chat History</CardTitle>
+        <CardDescription>
+          Download your chats, or import chats exported as JSON
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          JSON keeps everything needed to import your chats again, in several
+          files when there are too many for one import. Markdown is easier to
+          read.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={handleExportJson}
+            disabled={exporting}
+          >
+            {exporting ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Download className="size-4" />
+            )}
+            Export as JSON
+          </Button>
+          <Button variant="outline" asChild>
+            <a href="/api/chats/export?format=md" download>
+              <Download className="size-4" />
+              Export as Markdown
+            </a>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+          >
+            {importing ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Upload className="size-4" />
+            )}
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+            }}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
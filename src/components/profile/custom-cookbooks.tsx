@@ -0,0 +1,63 @@
+import Link from "next/link";
+import { Plus } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+type CustomCookbooksProps = {
+  cookbooks: { id: string; title: string; updatedAt: Date }[];
+};
+
+export function CustomCookbooks({ cookbooks }: CustomCookbooksProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Cookbooks</CardTitle>
+        <CardDescription>
+          Recipe selections you saved, shareable by link
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {cookbooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Select recipes and choose &quot;Save as cookbook&quot; to share your
+            stack with one link.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {cookbooks.map((cookbook) => (
+              <li
+                key={cookbook.id}
+                className="flex items-center justify-between gap-4 text-sm"
+              >
+                <Link
+                  href={`/c/${cookbook.id}`}
+                  className="font-medium hover:text-primary"
+                >
+                  {cookbook.title}
+                </Link>
+                <Link
+                  href={`/c/${cookbook.id}/edit`}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  Edit
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/c/new">
+            <Plus className="size-4" />
+            New Cookbook
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
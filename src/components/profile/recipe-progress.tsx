@@ -0,0 +1,87 @@
+"use client";
+
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useRecipeProgress } from "@/hooks/use-recipe-progress";
+import { getItemBySlug, isCookbook } from "@/lib/recipes/data";
+
+export function RecipeProgress() {
+  const { progress } = useRecipeProgress();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recipe Progress</CardTitle>
+        <CardDescription>
+          Recipes and cookbooks you started, and where to pick up
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {progress === null ? (
+          <Loader2 className="size-4 animate-spin text-muted-foreground" />
+        ) : progress.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Tick off steps on a{" "}
+            <Link href="/#recipes" className="text-primary hover:underline">
+              recipe
+            </Link>{" "}
+            to track your progress here.
+          </p>
+        ) : (
+          <ul className="space-y-4">
+            {progress.map((entry) => {
+              const item = getItemBySlug(entry.slug);
+              if (!item) return null;
+              const { resume } = entry;
+              return (
+                <li key={entry.slug} className="space-y-1.5">
+                  <div className="flex items-center justify-between gap-4 text-sm">
+                    <Link
+                      href={`/recipes/${entry.slug}`}
+                      className="font-medium hover:text-primary"
+                    >
+                      {item.title}
+                      {isCookbook(item) && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          · cookbook
+                        </span>
+                      )}
+                    </Link>
+                    <span className="font-mono text-xs text-muted-foreground">
+                      {entry.completed.length}/{entry.total}
+                    </span>
+                  </div>
+                  <Progress
+                    value={(entry.completed.length / entry.total) * 100}
+                    className="h-1.5"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {resume ? (
+                      <Link
+                        href={`/recipes/${resume.slug}#${resume.id}`}
+                        className="text-primary hover:underline"
+                      >
+                        Resume at {resume.title}
+                      </Link>
+                    ) : (
+                      "Completed"
+                    )}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
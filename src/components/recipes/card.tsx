@@ -2,8 +2,12 @@
 
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { type LucideIcon, BookOpen } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { type LucideIcon, BookOpen, Coins, ListChecks } from "lucide-react";
 import Link from "next/link";
+import type { SearchResult } from "@/lib/recipes/search";
+import { formatTokenCount } from "@/lib/recipes/tokens";
+import type { RecipeProgress } from "@/lib/progress/summary";
 
 interface RecipeCardProps {
   title: string;
@@ -13,6 +17,12 @@ interface RecipeCardProps {
   slug?: string;
   isCookbook?: boolean;
   recipeCount?: number;
+  /** Estimated tokens of the item's Markdown */
+  tokens?: number;
+  /** The signed-in user's progress, when they started the item */
+  progress?: RecipeProgress;
+  /** Best full-text search hit for this item, linked to its section */
+  searchMatch?: SearchResult;
 }
 
 export function RecipeCard({
@@ -23,6 +33,9 @@ export function RecipeCard({
   slug,
   isCookbook,
   recipeCount,
+  tokens,
+  progress,
+  searchMatch,
 }: RecipeCardProps) {
   const cardContent = (
     <Card
@@ -41,12 +54,20 @@ export function RecipeCard({
               className={`h-6 w-6 ${isCookbook ? "text-primary" : "text-primary"}`}
             />
           </div>
-          {isCookbook && (
-            <div className="flex items-center gap-1.5 rounded-full bg-primary/10 px-2.5 py-1 text-xs font-medium text-primary">
-              <BookOpen className="h-3 w-3" />
-              {recipeCount} recipes
-            </div>
-          )}
+          <div className="flex flex-col items-end gap-1.5">
+            {isCookbook && (
+              <div className="flex items-center gap-1.5 rounded-full bg-primary/10 px-2.5 py-1 text-xs font-medium text-primary">
+                <BookOpen className="h-3 w-3" />
+                {recipeCount} recipes
+              </div>
+            )}
+            {tokens !== undefined && (
+              <div className="flex items-center gap-1.5 font-mono text-xs text-muted-foreground">
+                <Coins className="h-3 w-3" />
+                {formatTokenCount(tokens)}
+              </div>
+            )}
+          </div>
         </div>
 
         <h3 className="mb-2 font-mono text-lg font-semibold tracking-tight group-hover:text-primary">
@@ -57,6 +78,32 @@ export function RecipeCard({
           {description}
         </p>
 
+        {searchMatch && (
+          <div className="mb-4 rounded-md border border-dashed border-border bg-secondary/30 px-3 py-2 text-xs">
+            {searchMatch.section && (
+              <p className="mb-1 font-mono font-medium text-foreground">
+                {searchMatch.section}
+              </p>
+            )}
+            <p className="line-clamp-2 text-muted-foreground">
+              {searchMatch.snippet}
+            </p>
+          </div>
+        )}
+
+        {progress && progress.total > 0 && (
+          <div className="mb-4 flex items-center gap-2 text-xs text-muted-foreground">
+            <ListChecks className="h-3.5 w-3.5 shrink-0 text-primary" />
+            <Progress
+              value={(progress.completed.length / progress.total) * 100}
+              className="h-1.5 flex-1"
+            />
+            <span className="font-mono">
+              {progress.completed.length}/{progress.total} steps
+            </span>
+          </div>
+        )}
+
         <div className="flex flex-wrap gap-2">
           {tags
             .filter((tag) => tag !== "Cookbook")
@@ -75,7 +122,9 @@ export function RecipeCard({
   );
 
   if (slug) {
-    return <Link href={`/recipes/${slug}`}>{cardContent}</Link>;
+    return (
+      <Link href={searchMatch?.url ?? `/recipes/${slug}`}>{cardContent}</Link>
+    );
   }
 
   return cardContent;
@@ -6,19 +6,20 @@ import { WizardDialog } from "@/components/wizard/wizard-dialog";
 
 type DetailWrapperProps = {
   children: ReactNode;
-  slug: string;
+  /** Items the page's wizard installs; a custom cookbook passes its recipes */
+  slugs: string[];
 };
 
-export function DetailWrapper({ children, slug }: DetailWrapperProps) {
+export function DetailWrapper({ children, slugs }: DetailWrapperProps) {
   return (
-    <SelectionProvider initialSlugs={[slug]}>
+    <SelectionProvider initialSlugs={slugs}>
       {children}
       <WizardDialog
         mode="full"
         initialStep="agent"
         queryParam="wizard"
         showTrigger={false}
-        overrideSlugs={[slug]}
+        overrideSlugs={slugs}
       />
     </SelectionProvider>
   );
@@ -1,11 +1,18 @@
 "use client";
 
 import { useState } from "react";
-import { Copy, Check, Terminal } from "lucide-react";
+import { Copy, Check, Terminal, type LucideIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 /** A copyable command box that renders multi-line commands as a code block. */
-export function CommandBox({ command }: { command: string }) {
+export function CommandBox({
+  command,
+  icon: Icon = Terminal,
+}: {
+  command: string;
+  /** Leading icon, a terminal prompt by default */
+  icon?: LucideIcon;
+}) {
   const [copied, setCopied] = useState(false);
 
   async function copyCommand() {
@@ -16,7 +23,7 @@ export function CommandBox({ command }: { command: string }) {
 
   return (
     <div className="flex items-start gap-2 rounded-lg border border-border/50 bg-secondary/30 px-3 py-2.5">
-      <Terminal className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+      <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
       <pre className="flex-1 overflow-x-auto whitespace-pre font-mono text-xs text-foreground/90 sm:text-sm">
         <code>{command}</code>
       </pre>
@@ -44,7 +51,7 @@ type Step = {
 
 /**
  * Renders the numbered steps for adding fullstackrecipes to a coding agent
- * via Markdown fetching (curl) instead of the MCP server.
+ * via Markdown fetching (curl) or the MCP server.
  */
 export function FetchMarkdownSteps({ steps }: { steps: Step[] }) {
   return (
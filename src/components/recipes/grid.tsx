@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo, Suspense } from "react";
+import { useEffect, useMemo, useState, Suspense } from "react";
 import {
   useQueryState,
   parseAsBoolean,
@@ -10,6 +10,9 @@ import {
 import { RecipeCard } from "@/components/recipes/card";
 import { RecipeSearch } from "@/components/recipes/search";
 import { getAllItems, isCookbook } from "@/lib/recipes/data";
+import type { SearchResult } from "@/lib/recipes/search";
+import { getTokenEstimate } from "@/lib/recipes/tokens";
+import { useRecipeProgress } from "@/hooks/use-recipe-progress";
 import { Button } from "@/components/ui/button";
 import { ArrowUp, ArrowDown } from "lucide-react";
 
@@ -17,6 +20,55 @@ const items = getAllItems();
 
 const allTags = Array.from(new Set(items.flatMap((r) => r.tags))).sort();
 
+const SEARCH_DEBOUNCE_MS = 200;
+
+/**
+ * Query the server-side full-text index for the current search query.
+ * Returns the best-ranked section per recipe slug.
+ */
+function useContentSearch(query: string): Map<string, SearchResult> {
+  const [matches, setMatches] = useState<Map<string, SearchResult>>(
+    () => new Map(),
+  );
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setMatches(new Map());
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/search?q=${encodeURIComponent(trimmed)}`,
+          { signal: controller.signal },
+        );
+        if (!response.ok) return;
+        const data = (await response.json()) as { results: SearchResult[] };
+        const bestBySlug = new Map<string, SearchResult>();
+        // Results are ranked, so the first hit per slug is the best one
+        for (const result of data.results) {
+          if (!bestBySlug.has(result.slug)) {
+            bestBySlug.set(result.slug, result);
+          }
+        }
+        setMatches(bestBySlug);
+      } catch {
+        // Aborted or offline: keep title/description filtering only
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  return matches;
+}
+
 function RecipeGridInner() {
   const [searchQuery, setSearchQuery] = useQueryState(
     "q",
@@ -31,12 +83,22 @@ function RecipeGridInner() {
     parseAsBoolean.withDefault(false),
   );
 
+  const contentMatches = useContentSearch(searchQuery);
+
+  // Signed-in users see how far they got through each item they started
+  const { progress } = useRecipeProgress();
+  const progressBySlug = useMemo(
+    () => new Map(progress?.map((entry) => [entry.slug, entry])),
+    [progress],
+  );
+
   const filteredItems = useMemo(() => {
     const filtered = items.filter((item) => {
       const matchesSearch =
         searchQuery === "" ||
         item.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        item.description.toLowerCase().includes(searchQuery.toLowerCase());
+        item.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        contentMatches.has(item.slug);
 
       const matchesTags =
         selectedTags.length === 0 ||
@@ -46,7 +108,7 @@ function RecipeGridInner() {
     });
 
     return sortAscending ? filtered : [...filtered].reverse();
-  }, [searchQuery, selectedTags, sortAscending]);
+  }, [searchQuery, selectedTags, sortAscending, contentMatches]);
 
   const toggleTag = (tag: string) => {
     setSelectedTags((prev) =>
@@ -119,6 +181,11 @@ function RecipeGridInner() {
                 {...item}
                 isCookbook={isCookbook(item)}
                 recipeCount={isCookbook(item) ? item.recipes.length : undefined}
+                tokens={getTokenEstimate(item.slug)}
+                progress={progressBySlug.get(item.slug)}
+                searchMatch={
+                  searchQuery ? contentMatches.get(item.slug) : undefined
+                }
               />
             ))}
           </div>
@@ -4,10 +4,20 @@ import {
   TooltipTrigger,
   TooltipContent,
 } from "@/components/ui/tooltip";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
 import { ThemeSelector } from "@/components/themes/selector";
 import { AddToAgentButton } from "@/components/recipes/add-to-agent-button";
 import { BackButton } from "@/components/recipes/back-button";
-import { BookOpen, type LucideIcon } from "lucide-react";
+import {
+  formatChangelogDate,
+  type RecipeChangelog,
+} from "@/lib/recipes/changelog";
+import { formatTokenCount } from "@/lib/recipes/tokens";
+import { BookOpen, Coins, History, type LucideIcon } from "lucide-react";
 
 const tagDescriptions: Record<string, string> = {
   Cookbooks: "Bundle of setup instructions and skills",
@@ -22,6 +32,9 @@ interface RecipeHeaderProps {
   icon: LucideIcon;
   isCookbook?: boolean;
   recipeCount?: number;
+  /** Estimated tokens of the item's Markdown */
+  tokens?: number;
+  changelog?: RecipeChangelog | null;
 }
 
 export function RecipeHeader({
@@ -31,6 +44,8 @@ export function RecipeHeader({
   icon: Icon,
   isCookbook,
   recipeCount,
+  tokens,
+  changelog,
 }: RecipeHeaderProps) {
   return (
     <>
@@ -70,6 +85,19 @@ export function RecipeHeader({
                     {recipeCount} recipes
                   </div>
                 )}
+                {tokens !== undefined && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <div className="flex items-center gap-1.5 whitespace-nowrap font-mono text-sm text-muted-foreground">
+                        <Coins className="h-4 w-4 shrink-0" />
+                        {formatTokenCount(tokens)}
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      Estimated size of the Markdown an agent fetches
+                    </TooltipContent>
+                  </Tooltip>
+                )}
               </div>
             </div>
           </div>
@@ -78,6 +106,41 @@ export function RecipeHeader({
             {description}
           </p>
 
+          {changelog && (
+            <Collapsible className="mb-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                {changelog.version && (
+                  <Badge variant="outline" className="font-mono text-xs">
+                    v{changelog.version}
+                  </Badge>
+                )}
+                <span>Updated {formatChangelogDate(changelog.updatedAt)}</span>
+                {changelog.entries.length > 0 && (
+                  <CollapsibleTrigger className="inline-flex items-center gap-1 text-primary hover:underline">
+                    <History className="h-3.5 w-3.5" />
+                    Changelog
+                  </CollapsibleTrigger>
+                )}
+              </div>
+              <CollapsibleContent>
+                <ul className="mt-3 max-w-2xl space-y-2 border-l border-border pl-4 text-sm">
+                  {changelog.entries.map((entry) => (
+                    <li key={`${entry.slug}-${entry.version}`}>
+                      <span className="font-mono text-xs text-foreground">
+                        {isCookbook && `${entry.title} `}v{entry.version}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · {formatChangelogDate(entry.date)}
+                      </span>
+                      <p className="text-muted-foreground">{entry.changes}</p>
+                    </li>
+                  ))}
+                </ul>
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
           <div className="flex flex-wrap gap-2">
             {tags
               .filter((tag) => tag !== "Cookbook")
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ChevronDown, ListChecks, PlayCircle } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { useRecipeProgress } from "@/hooks/use-recipe-progress";
+import { setStepCompletedAction } from "@/lib/progress/actions";
+import {
+  getStepKey,
+  summarizeProgress,
+  type ProgressStep,
+} from "@/lib/progress/summary";
+import { getRecipeBySlug } from "@/lib/recipes/data";
+
+interface ProgressChecklistProps {
+  slug: string;
+  /** Checklist steps; a cookbook's span all of its recipes */
+  steps: ProgressStep[];
+  isCookbook?: boolean;
+}
+
+/** Group a cookbook's steps under the recipe that owns them */
+function groupByRecipe(steps: ProgressStep[]) {
+  const groups: { slug: string; steps: ProgressStep[] }[] = [];
+  for (const step of steps) {
+    const group = groups.at(-1);
+    if (group?.slug === step.slug) {
+      group.steps.push(step);
+    } else {
+      groups.push({ slug: step.slug, steps: [step] });
+    }
+  }
+  return groups;
+}
+
+export function ProgressChecklist({
+  slug,
+  steps,
+  isCookbook,
+}: ProgressChecklistProps) {
+  const { progress, isSignedIn } = useRecipeProgress([slug]);
+  const [completed, setCompleted] = useState<string[]>([]);
+
+  useEffect(() => {
+    setCompleted(progress?.[0]?.completed ?? []);
+  }, [progress]);
+
+  if (steps.length === 0) return null;
+
+  if (!isSignedIn) {
+    return (
+      <div className="mb-6 flex items-center gap-2 rounded-lg border border-dashed border-border px-4 py-3 text-sm text-muted-foreground">
+        <ListChecks className="h-4 w-4 shrink-0" />
+        <span>
+          <Link href="/sign-in" className="text-primary hover:underline">
+            Sign in
+          </Link>{" "}
+          to tick off steps and resume where you left off.
+        </span>
+      </div>
+    );
+  }
+
+  const summary = summarizeProgress(slug, steps, completed);
+  const done = new Set(summary.completed);
+  const getHref = (step: ProgressStep) =>
+    isCookbook ? `/recipes/${step.slug}#${step.id}` : `#${step.id}`;
+
+  const toggle = async (step: ProgressStep, checked: boolean) => {
+    const key = getStepKey(step);
+    const update = (tick: boolean) =>
+      setCompleted((keys) => [
+        ...keys.filter((k) => k !== key),
+        ...(tick ? [key] : []),
+      ]);
+
+    update(checked);
+    const result = await setStepCompletedAction(step.slug, step.id, checked);
+    if ("error" in result) {
+      update(!checked);
+      toast.error(result.error);
+    }
+  };
+
+  return (
+    <Collapsible className="mb-6 rounded-lg border border-border bg-card/50">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3">
+        <ListChecks className="h-4 w-4 shrink-0 text-primary" />
+        <span className="text-sm font-medium">
+          {summary.completed.length} of {summary.total} steps done
+        </span>
+        <Progress
+          value={(summary.completed.length / summary.total) * 100}
+          className="h-1.5 min-w-24 flex-1"
+        />
+        {summary.resume && summary.completed.length > 0 && (
+          <Link
+            href={getHref(summary.resume)}
+            className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+          >
+            <PlayCircle className="h-3.5 w-3.5" />
+            Resume at {summary.resume.title}
+          </Link>
+        )}
+        <CollapsibleTrigger className="group inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+          Checklist
+          <ChevronDown className="h-3.5 w-3.5 transition-transform group-data-[state=open]:rotate-180" />
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent>
+        <div className="space-y-4 border-t border-border px-4 py-3">
+          {groupByRecipe(steps).map((group) => (
+            <div key={group.slug}>
+              {isCookbook && (
+                <p className="mb-2 font-mono text-xs font-medium text-foreground">
+                  {getRecipeBySlug(group.slug)?.title ?? group.slug}
+                </p>
+              )}
+              <ul className="space-y-2">
+                {group.steps.map((step) => {
+                  const key = getStepKey(step);
+                  return (
+                    <li key={key} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        id={`progress-${key}`}
+                        checked={done.has(key)}
+                        onCheckedChange={(checked) =>
+                          toggle(step, checked === true)
+                        }
+                      />
+                      <Link
+                        href={getHref(step)}
+                        className={
+                          done.has(key)
+                            ? "text-muted-foreground line-through"
+                            : "hover:text-primary"
+                        }
+                      >
+                        {step.title}
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -46,7 +46,7 @@ export function RecipeSearch({
         <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
         <Input
           type="text"
-          placeholder="Search recipes..."
+          placeholder="Search recipes, code, and docs..."
           value={searchQuery}
           onChange={(e) => onSearchChange(e.target.value)}
           className="pl-10 bg-secondary/50 border-border/50 focus:border-primary"
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronDown, GitCompare } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+
+type WhatChangedProps = {
+  slug: string;
+};
+
+type DiffState =
+  | { status: "loading" }
+  | { status: "unavailable" }
+  | { status: "done"; diff: string }
+  | { status: "error"; message: string };
+
+const DEFAULT_LOOKBACK_DAYS = 30;
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+function getLineClassName(line: string): string {
+  if (line.startsWith("@@")) return "text-primary";
+  if (line.startsWith("+"))
+    return "bg-green-500/10 text-green-700 dark:text-green-400";
+  if (line.startsWith("-"))
+    return "bg-red-500/10 text-red-700 dark:text-red-400";
+  return "text-muted-foreground";
+}
+
+/**
+ * Collapsible panel showing the recipe's Markdown diff since a chosen date,
+ * fetched from `/recipes/<slug>.diff`. Loads only once opened, and stays
+ * hidden when the deployment has no git history.
+ */
+export function WhatChanged({ slug }: WhatChangedProps) {
+  const [open, setOpen] = useState(false);
+  const [since, setSince] = useState(() => daysAgo(DEFAULT_LOOKBACK_DAYS));
+  const [state, setState] = useState<DiffState>({ status: "loading" });
+  const [available, setAvailable] = useState(false);
+
+  useEffect(() => {
+    fetch(`/recipes/${slug}.diff`, { method: "HEAD" })
+      .then((response) => setAvailable(response.ok))
+      .catch(() => setAvailable(false));
+  }, [slug]);
+
+  useEffect(() => {
+    if (!open || !since) return;
+
+    const controller = new AbortController();
+    setState({ status: "loading" });
+    fetch(`/recipes/${slug}.diff?from=${encodeURIComponent(since)}`, {
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        // No git history in this deployment: there is nothing to show
+        if (response.status === 503) {
+          setState({ status: "unavailable" });
+          return;
+        }
+        if (!response.ok) {
+          const { error } = await response.json();
+          setState({ status: "error", message: error });
+          return;
+        }
+        setState({ status: "done", diff: await response.text() });
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        setState({ status: "error", message: String(error) });
+      });
+    return () => controller.abort();
+  }, [open, since, slug]);
+
+  // Skip the ---/+++ file header; hunks start at the first @@ line
+  const lines = state.status === "done" ? state.diff.split("\n") : [];
+  const hunks = lines.slice(lines.findIndex((line) => line.startsWith("@@")));
+
+  if (!available || state.status === "unavailable") {
+    return null;
+  }
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="mb-8 rounded-lg border border-border"
+    >
+      <CollapsibleTrigger className="flex w-full items-center justify-between gap-2 px-4 py-3 text-sm font-medium">
+        <span className="flex items-center gap-2">
+          <GitCompare className="h-4 w-4 text-primary" />
+          What changed
+        </span>
+        <ChevronDown
+          className={`h-4 w-4 text-muted-foreground transition-transform ${open ? "rotate-180" : ""}`}
+        />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="border-t border-border px-4 py-3">
+        <label className="mb-3 flex items-center gap-2 text-sm text-muted-foreground">
+          Changes since
+          <Input
+            type="date"
+            value={since}
+            max={daysAgo(0)}
+            onChange={(event) => setSince(event.target.value)}
+            className="h-8 w-auto"
+          />
+        </label>
+        {state.status === "loading" && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Spinner />
+            Loading diff...
+          </div>
+        )}
+        {state.status === "error" && (
+          <p className="text-sm text-destructive">{state.message}</p>
+        )}
+        {state.status === "done" && state.diff === "" && (
+          <p className="text-sm text-muted-foreground">
+            No changes since this date.
+          </p>
+        )}
+        {state.status === "done" && state.diff !== "" && (
+          <pre className="max-h-96 overflow-auto rounded-md bg-muted/50 py-2 font-mono text-xs">
+            {hunks.map((line, index) => (
+              <div
+                key={index}
+                className={`whitespace-pre-wrap px-3 ${getLineClassName(line)}`}
+              >
+                {line || " "}
+              </div>
+            ))}
+          </pre>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useMemo, Suspense } from "react";
 import { useQueryState, parseAsBoolean } from "nuqs";
+import Link from "next/link";
 import {
   Dialog,
   DialogContent,
@@ -26,6 +27,8 @@ import {
   Copy,
   Loader2,
   Terminal,
+  KeyRound,
+  AlertTriangle,
 } from "lucide-react";
 import {
   useSelection,
@@ -37,10 +40,13 @@ import {
 } from "@/components/recipes/fetch-markdown-steps";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { formatTokenCount } from "@/lib/recipes/tokens";
 import {
   getAllItems,
   isCookbook,
   getSkillsInstallCommandForSlugs,
+  getSplitCurlCommands,
+  MCP_SERVER_URL,
   type Recipe,
   type Cookbook,
 } from "@/lib/recipes/data";
@@ -69,6 +75,42 @@ type WizardDialogProps = {
   overrideSlugs?: string[];
 };
 
+/** Warns that a selection overflows the token budget and offers one command per part */
+function TokenBudgetWarning({
+  selectionTokens,
+  tokenBudget,
+  parts,
+}: {
+  selectionTokens: number;
+  tokenBudget: number;
+  parts: string[][];
+}) {
+  const commands = getSplitCurlCommands(parts);
+  return (
+    <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-sm">
+      <div className="mb-2 flex items-start gap-2">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+        <p className="text-muted-foreground">
+          This selection is {formatTokenCount(selectionTokens)}, more than the{" "}
+          {formatTokenCount(tokenBudget)} budget for smaller agent context
+          windows. Consider fetching it in {parts.length} parts, finishing each
+          before the next:
+        </p>
+      </div>
+      <div className="space-y-2">
+        {commands.map((command, index) => (
+          <div key={command}>
+            <p className="mb-1 text-xs font-medium text-foreground">
+              Part {index + 1}
+            </p>
+            <CommandBox command={command} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function WizardDialogInner({
   mode = "full",
   initialStep,
@@ -108,6 +150,11 @@ function WizardDialogInner({
     allContentSlugs,
     skillSlugs,
     markdownCurlCommand,
+    selectionTokens,
+    tokenBudget,
+    budgetSplit,
+    envManifest,
+    envExample,
     promptText,
     recipesIncludedInCookbooks,
     deliveryTab,
@@ -571,6 +618,14 @@ function WizardDialogInner({
                       Clear all
                     </button>
                   )}
+                  {selectedSlugs.length > 0 && (
+                    <Link
+                      href={`/c/new?slugs=${selectedSlugs.join(",")}`}
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Save as cookbook
+                    </Link>
+                  )}
                 </div>
                 {mode === "recipes-only" ? (
                   <Button onClick={() => handleOpenChange(false)} size="sm">
@@ -748,10 +803,19 @@ function WizardDialogInner({
                             {
                               title: "Fetch recipes as Markdown",
                               description: markdownCurlCommand
-                                ? "Your agent can curl each selected recipe (append .md to any URL)"
+                                ? "One URL returns every selected recipe and its prerequisites in install order"
                                 : "Select a setup recipe or cookbook to generate the command",
                               content: markdownCurlCommand ? (
-                                <CommandBox command={markdownCurlCommand} />
+                                <div className="space-y-3">
+                                  <CommandBox command={markdownCurlCommand} />
+                                  {budgetSplit && (
+                                    <TokenBudgetWarning
+                                      selectionTokens={selectionTokens}
+                                      tokenBudget={tokenBudget}
+                                      parts={budgetSplit}
+                                    />
+                                  )}
+                                </div>
                               ) : (
                                 <p className="text-sm text-muted-foreground">
                                   Your selection includes no setup recipes to
@@ -759,6 +823,31 @@ function WizardDialogInner({
                                 </p>
                               ),
                             },
+                            {
+                              title: "Add environment variables",
+                              description:
+                                envManifest.length > 0
+                                  ? `Merged .env.example for the ${envManifest.length} ${
+                                      envManifest.length === 1
+                                        ? "variable"
+                                        : "variables"
+                                    } your selection reads`
+                                  : "Your selection reads no environment variables",
+                              content:
+                                envManifest.length > 0 ? (
+                                  <div className="max-h-72 overflow-y-auto">
+                                    <CommandBox
+                                      command={envExample}
+                                      icon={KeyRound}
+                                    />
+                                  </div>
+                                ) : (
+                                  <p className="text-sm text-muted-foreground">
+                                    Recipes with a config module list their
+                                    variables here.
+                                  </p>
+                                ),
+                            },
                             {
                               title: "Install selected skills",
                               description:
@@ -804,6 +893,13 @@ function WizardDialogInner({
                                 </div>
                               ),
                             },
+                            {
+                              title:
+                                "Prefer tool calls? Connect the MCP server",
+                              description:
+                                "Agents that support MCP can add this Streamable HTTP server instead of fetching Markdown",
+                              content: <CommandBox command={MCP_SERVER_URL} />,
+                            },
                           ]}
                         />
                       </div>
@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSession } from "@/lib/auth/client";
+import type { RecipeProgress } from "@/lib/progress/summary";
+
+/**
+ * Fetch the signed-in user's progress from `/api/progress`: for the given
+ * slugs, or for every item they started when `slugs` is omitted. Returns null
+ * while loading and for signed-out visitors.
+ */
+export function useRecipeProgress(slugs?: string[]) {
+  const { data: session } = useSession();
+  const [progress, setProgress] = useState<RecipeProgress[] | null>(null);
+
+  const userId = session?.user.id;
+  const query = slugs ? `?slugs=${slugs.join(",")}` : "";
+
+  useEffect(() => {
+    if (!userId) {
+      setProgress(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/progress${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { progress: RecipeProgress[] } | null) => {
+        if (!cancelled) setProgress(data?.progress ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setProgress(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, query]);
+
+  return { progress, isSignedIn: !!userId };
+}
@@ -3,11 +3,17 @@
 import { headers } from "next/headers";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
+import { z } from "zod";
 import { auth } from "@/lib/auth/server";
 import {
+  convertDbMessagesToUIMessages,
   deleteChat as deleteChatQuery,
+  getChatMessagesPage,
+  getUserChats,
   renameChat as renameChatQuery,
+  verifyChatOwnership,
 } from "./queries";
+import { isChatSort, type ChatSort } from "./pagination";
 import { v7 as uuidv7 } from "uuid";
 
 export async function deleteChatAction(chatId: string) {
@@ -65,3 +71,48 @@ export async function renameChatAction(chatId: string, newTitle: string) {
   revalidatePath("/chats");
   return { success: true, title: trimmedTitle };
 }
+
+/** Load the page of messages before `before` (a message ID) */
+export async function loadOlderMessagesAction(chatId: string, before: string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return { error: "Unauthorized" };
+  }
+
+  const isAuthorized =
+    z.uuid().safeParse(chatId).success &&
+    z.uuid().safeParse(before).success &&
+    (await verifyChatOwnership(chatId, session.user.id));
+
+  if (!isAuthorized) {
+    return { error: "Chat not found" };
+  }
+
+  const page = await getChatMessagesPage(chatId, { before });
+  return {
+    success: true,
+    messages: convertDbMessagesToUIMessages(page.messages),
+    before: page.before,
+  };
+}
+
+/** Load a page of the user's chats, after `cursor` when given */
+export async function loadChatsAction(sort: ChatSort, cursor: string | null) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return { error: "Unauthorized" };
+  }
+
+  if (!isChatSort(sort)) {
+    return { error: "Invalid sort" };
+  }
+
+  const page = await getUserChats(session.user.id, { sort, cursor });
+  return { success: true, ...page };
+}
@@ -0,0 +1,374 @@
+import { z } from "zod";
+import { TOOL_TYPES } from "@/lib/ai/tools";
+import {
+  isToolPart,
+  type ChatAgentUIMessage,
+  type ChatUIMessagePart,
+} from "@/workflows/chat/types";
+
+const CHAT_EXPORT_FORMATS = ["json", "md"] as const;
+
+export type ChatExportFormat = (typeof CHAT_EXPORT_FORMATS)[number];
+
+/** Bumped when the JSON shape changes, so old exports can be migrated */
+export const CHAT_EXPORT_VERSION = 1;
+
+/** A message as the chat UI sees it, with its creation time */
+export type ChatExportMessage = ChatAgentUIMessage & { createdAt: string };
+
+/** Lossless JSON export of one chat; timestamps are ISO strings */
+export type ChatExport = {
+  version: typeof CHAT_EXPORT_VERSION;
+  chat: { id: string; title: string; createdAt: string; updatedAt: string };
+  messages: ChatExportMessage[];
+};
+
+/** JSON export of all of a user's chats */
+type ChatsExport = {
+  version: typeof CHAT_EXPORT_VERSION;
+  chats: ChatExport[];
+};
+
+/** A chat of an export of all chats, with the cursor to export those after it */
+export type ChatExportEntry = { exported: ChatExport; cursor: string };
+
+export function isChatExportFormat(value: unknown): value is ChatExportFormat {
+  return CHAT_EXPORT_FORMATS.includes(value as ChatExportFormat);
+}
+
+/** Largest import body read, in bytes */
+export const CHAT_IMPORT_MAX_BYTES = 20 * 1024 * 1024;
+
+/** Most chats one import recreates */
+export const CHAT_IMPORT_MAX_CHATS = 500;
+
+const timestampSchema = z.iso.datetime({ offset: true });
+
+const providerMetadataSchema = z
+  .record(z.string(), z.record(z.string(), z.json()))
+  .optional();
+
+const toolPartFields = {
+  type: z.enum(TOOL_TYPES),
+  toolCallId: z.string(),
+  input: z.json().optional(),
+  callProviderMetadata: providerMetadataSchema,
+  title: z.string().optional(),
+  providerExecuted: z.boolean().optional(),
+};
+
+// The parts `insertMessageParts` can store, with the fields it stores; tool
+// calls only in the states that survive a reload
+const partSchema = z.union([
+  z.object({ type: z.literal("step-start") }),
+  z.object({
+    type: z.enum(["text", "reasoning"]),
+    text: z.string(),
+    state: z.enum(["streaming", "done"]).optional(),
+    providerMetadata: providerMetadataSchema,
+  }),
+  z.object({
+    type: z.literal("source-url"),
+    sourceId: z.string(),
+    url: z.string(),
+    title: z.string().optional(),
+    providerMetadata: providerMetadataSchema,
+  }),
+  z.object({
+    type: z.literal("source-document"),
+    sourceId: z.string(),
+    mediaType: z.string(),
+    title: z.string(),
+    filename: z.string().optional(),
+    providerMetadata: providerMetadataSchema,
+  }),
+  z.object({
+    type: z.literal("file"),
+    mediaType: z.string(),
+    url: z.string(),
+    filename: z.string().optional(),
+    providerMetadata: providerMetadataSchema,
+  }),
+  z.object({
+    type: z.literal("data-progress"),
+    data: z.object({ text: z.string() }),
+  }),
+  z.object({
+    ...toolPartFields,
+    state: z.literal("output-available"),
+    output: z.json(),
+  }),
+  z.object({
+    ...toolPartFields,
+    state: z.literal("output-error"),
+    errorText: z.string(),
+  }),
+  z.object({
+    ...toolPartFields,
+    state: z.literal("output-denied"),
+    approval: z.object({
+      id: z.string().min(1),
+      approved: z.literal(false),
+      reason: z.string().optional(),
+    }),
+  }),
+]);
+
+const chatExportSchema = z.object({
+  version: z.literal(CHAT_EXPORT_VERSION),
+  chat: z.object({
+    id: z.string(),
+    title: z.string().trim().min(1),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema,
+  }),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      role: z.enum(["user", "assistant", "system"]),
+      createdAt: timestampSchema,
+      parts: z.array(partSchema),
+    }),
+  ),
+});
+
+const importSchema = z.union([
+  chatExportSchema,
+  z.object({
+    version: z.literal(CHAT_EXPORT_VERSION),
+    chats: z.array(chatExportSchema).max(CHAT_IMPORT_MAX_CHATS),
+  }),
+]);
+
+/**
+ * Read a chat import body as JSON, giving up once it grows past
+ * `CHAT_IMPORT_MAX_BYTES` so an oversized upload is never buffered whole.
+ */
+export async function readChatImportBody(
+  request: Request,
+): Promise<{ body: unknown } | { error: "too-large" | "invalid-json" }> {
+  const declaredLength = Number(request.headers.get("content-length"));
+  if (declaredLength > CHAT_IMPORT_MAX_BYTES) return { error: "too-large" };
+  if (!request.body) return { error: "invalid-json" };
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > CHAT_IMPORT_MAX_BYTES) {
+      await reader.cancel();
+      return { error: "too-large" };
+    }
+    chunks.push(value);
+  }
+
+  try {
+    return { body: JSON.parse(Buffer.concat(chunks).toString("utf-8")) };
+  } catch {
+    return { error: "invalid-json" };
+  }
+}
+
+/**
+ * Parse the body of a chat import: one chat's JSON export or an export of
+ * all chats. Returns the chats, or an error message when the body isn't an
+ * export this version can read.
+ */
+export function parseChatImport(
+  body: unknown,
+): { chats: ChatExport[] } | { error: string } {
+  const result = importSchema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return {
+      error: `Invalid chat export at ${issue.path.join(".") || "root"}: ${issue.message}`,
+    };
+  }
+  // Tool inputs and outputs are JSON here, typed per tool in the UI types
+  const data = result.data as ChatExport | ChatsExport;
+  return { chats: "chats" in data ? data.chats : [data] };
+}
+
+/** Download filename for a chat, e.g. `sourdough-starter.md` */
+export function getChatExportFilename(
+  title: string,
+  format: ChatExportFormat,
+): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "chat"}.${format}`;
+}
+
+/** Fence code with more backticks than it contains */
+function codeBlock(content: string, language = ""): string {
+  const longestRun = Math.max(
+    2,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+function jsonBlock(value: unknown): string {
+  return codeBlock(JSON.stringify(value, null, 2) ?? "null", "json");
+}
+
+// Attachments are often data URLs, which would swamp the document
+function linkOrName(url: string, name: string): string {
+  return /^https?:\/\//.test(url) ? `[${name}](${url})` : name;
+}
+
+function renderPart(part: ChatUIMessagePart): string | null {
+  if (isToolPart(part)) {
+    const name = part.type.slice("tool-".length);
+    const sections = [
+      `**Tool: ${name}**`,
+      `Input:\n\n${jsonBlock(part.input)}`,
+    ];
+    if (part.state === "output-available") {
+      sections.push(`Output:\n\n${jsonBlock(part.output)}`);
+    } else if (part.state === "output-error") {
+      sections.push(`Error: ${part.errorText}`);
+    } else if (part.state === "output-denied") {
+      sections.push(
+        `Denied${part.approval.reason ? `: ${part.approval.reason}` : ""}`,
+      );
+    }
+    return sections.join("\n\n");
+  }
+
+  switch (part.type) {
+    case "text":
+      return part.text;
+    case "reasoning":
+      return part.text
+        .split("\n")
+        .map((line) => `> ${line}`.trimEnd())
+        .join("\n");
+    case "source-url":
+      return `Source: ${linkOrName(part.url, part.title || part.url)}`;
+    case "source-document":
+      return `Source: ${part.title}${part.filename ? ` (${part.filename})` : ""}`;
+    case "file":
+      return `Attachment: ${linkOrName(part.url, part.filename || part.mediaType)}`;
+    default:
+      // Step boundaries and transient progress aren't part of the conversation
+      return null;
+  }
+}
+
+const ROLE_HEADINGS: Record<ChatExportMessage["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+};
+
+/** Render an export as a readable Markdown transcript */
+export function renderChatMarkdown(exported: ChatExport): string {
+  const blocks = [
+    `# ${exported.chat.title}`,
+    `_Started ${exported.chat.createdAt}_`,
+  ];
+  for (const message of exported.messages) {
+    blocks.push(`## ${ROLE_HEADINGS[message.role]}`);
+    for (const part of message.parts) {
+      const rendered = renderPart(part);
+      if (rendered) blocks.push(rendered);
+    }
+  }
+  return `${blocks.join("\n\n")}\n`;
+}
+
+/** Render several exports as one Markdown document, chat by chat */
+export function streamChatsMarkdown(
+  entries: AsyncIterable<ChatExportEntry>,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = entries[Symbol.asyncIterator]();
+  let separator = "";
+
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(
+        encoder.encode(separator + renderChatMarkdown(value.exported)),
+      );
+      separator = "\n---\n\n";
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Write chats into a JSON export of all chats, stopping before the chats or
+ * bytes an import accepts would be exceeded. Returns the JSON and, when
+ * chats are left, the cursor to export them from. A chat over the byte
+ * limit on its own is still written, alone, so the export never stalls.
+ */
+export async function writeChatsExport(
+  entries: AsyncIterable<ChatExportEntry>,
+  {
+    maxChats = CHAT_IMPORT_MAX_CHATS,
+    maxBytes = CHAT_IMPORT_MAX_BYTES,
+  }: { maxChats?: number; maxBytes?: number } = {},
+): Promise<{ json: string; next: string | null }> {
+  // Pieces of `JSON.stringify(chatsExport, null, 2)`, measured as they grow
+  const head = `{\n  "version": ${CHAT_EXPORT_VERSION},\n  "chats": [\n`;
+  const tail = "\n  ]\n}";
+  const written: string[] = [];
+  let bytes = Buffer.byteLength(head + tail);
+  let cursor: string | null = null;
+
+  const write = (next: string | null) => ({
+    json:
+      written.length > 0
+        ? head + written.join(",\n") + tail
+        : JSON.stringify({ version: CHAT_EXPORT_VERSION, chats: [] }, null, 2),
+    next,
+  });
+
+  for await (const entry of entries) {
+    // Newlines in JSON strings are escaped, so these are all indentation
+    const json = `    ${JSON.stringify(entry.exported, null, 2).replaceAll("\n", "\n    ")}`;
+    const size = Buffer.byteLength(json) + (written.length > 0 ? 2 : 0);
+    if (
+      written.length > 0 &&
+      (written.length === maxChats || bytes + size > maxBytes)
+    ) {
+      return write(cursor);
+    }
+    written.push(json);
+    bytes += size;
+    cursor = entry.cursor;
+  }
+  return write(null);
+}
+
+/** Serve exported content as a file download */
+export function createChatExportResponse(
+  content: string | ReadableStream<Uint8Array>,
+  filename: string,
+  format: ChatExportFormat,
+): Response {
+  return new Response(content, {
+    headers: {
+      "Content-Type":
+        format === "md"
+          ? "text/markdown; charset=utf-8"
+          : "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+/** Orders of the chat list: latest activity, newest first, or by title */
+export const CHAT_SORTS = ["updated", "created", "title"] as const;
+
+export type ChatSort = (typeof CHAT_SORTS)[number];
+
+export const CHAT_SORT_LABELS: Record<ChatSort, string> = {
+  updated: "Recently active",
+  created: "Newest",
+  title: "Title",
+};
+
+/** Chats per page of `getUserChats` */
+export const CHATS_PAGE_SIZE = 20;
+
+/** Messages per page of `getChatMessagesPage` */
+export const CHAT_MESSAGES_PAGE_SIZE = 50;
+
+/**
+ * Position after the last chat of a page: its sort column as Postgres text
+ * (timestamps keep their microseconds) and its ID to break ties.
+ */
+export type ChatCursor = { value: string; id: string };
+
+export function isChatSort(value: unknown): value is ChatSort {
+  return CHAT_SORTS.includes(value as ChatSort);
+}
+
+const cursorSchema = z.tuple([z.string(), z.uuid()]);
+
+/** Encode a cursor as an opaque, URL-safe string */
+export function encodeChatCursor(cursor: ChatCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString(
+    "base64url",
+  );
+}
+
+/** Decode a cursor from `encodeChatCursor`; null when it is malformed */
+export function decodeChatCursor(cursor: string): ChatCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf-8"),
+    );
+    const result = cursorSchema.safeParse(decoded);
+    return result.success
+      ? { value: result.data[0], id: result.data[1] }
+      : null;
+  } catch {
+    return null;
+  }
+}
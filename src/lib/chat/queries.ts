@@ -31,9 +31,28 @@ import {
   type MessageFile,
   type MessageSourceDocument,
 } from "./schema";
+import {
+  CHAT_MESSAGES_PAGE_SIZE,
+  CHATS_PAGE_SIZE,
+  decodeChatCursor,
+  encodeChatCursor,
+  type ChatSort,
+} from "./pagination";
+import {
+  CHAT_SEARCH_LIMIT,
+  HEADLINE_OPTIONS,
+  mergeChatSearchHits,
+  type ChatSearchHit,
+} from "./search";
+import {
+  CHAT_EXPORT_VERSION,
+  type ChatExport,
+  type ChatExportEntry,
+} from "./export";
 import { v7 as uuidv7 } from "uuid";
 import { assert } from "@/lib/common/assert";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, asc, desc, lt, inArray, sql } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
 
 /**
  * Ensure a chat exists for the given user, creating it if necessary.
@@ -105,6 +124,8 @@ export function convertDbMessagesToUIMessages(
               input: part.input,
               output: part.output,
               callProviderMetadata: parseMetadata(part.callProviderMetadata),
+              title: part.title ?? undefined,
+              providerExecuted: part.providerExecuted || undefined,
             } as ChatToolPart;
           } else if (part.state === "output-error") {
             assert(part.errorText !== null, "Error text is required");
@@ -115,6 +136,8 @@ export function convertDbMessagesToUIMessages(
               errorText: part.errorText ?? "",
               input: part.input,
               callProviderMetadata: parseMetadata(part.callProviderMetadata),
+              title: part.title ?? undefined,
+              providerExecuted: part.providerExecuted || undefined,
             } as ChatToolPart;
           } else if (part.state === "output-denied") {
             assert(part.approvalId !== null, "Approval ID is required");
@@ -129,6 +152,8 @@ export function convertDbMessagesToUIMessages(
               },
               input: part.input,
               callProviderMetadata: parseMetadata(part.callProviderMetadata),
+              title: part.title ?? undefined,
+              providerExecuted: part.providerExecuted || undefined,
             } as ChatToolPart;
           } else {
             throw new Error(`Unknown part state ${part.state}`);
@@ -386,7 +411,7 @@ export async function persistMessage({
 }
 
 type MessagePart =
-  | ({ type: "text" } & MessageText)
+  | ({ type: "text" } & Omit<MessageText, "searchVector">)
   | ({ type: "reasoning" } & MessageReasoning)
   | ({ type: "tool" } & MessageTool)
   | ({ type: "source-url" } & MessageSourceUrl)
@@ -405,11 +430,54 @@ export async function clearMessageRunId(messageId: string): Promise<void> {
     .where(eq(messages.id, messageId));
 }
 
-export async function getChatMessages(
-  chatId: string,
-): Promise<MessageWithParts[]> {
+export type ChatMessagesPage = {
+  /** Oldest first */
+  messages: MessageWithParts[];
+  /** Cursor for the page of older messages; null when this page is the first */
+  before: string | null;
+};
+
+/**
+ * The queries `getMessageParts` runs, one per part table, built but not
+ * awaited so their query plans can be checked.
+ */
+export function buildMessagePartsQueries(
+  chatId: string | string[],
+  messageIds?: string[],
+) {
+  const inChat = (column: PgColumn) =>
+    Array.isArray(chatId) ? inArray(column, chatId) : eq(column, chatId);
+  const where = (table: { chatId: PgColumn; messageId: PgColumn }) =>
+    messageIds
+      ? and(inChat(table.chatId), inArray(table.messageId, messageIds))
+      : inChat(table.chatId);
+
+  return [
+    db.query.messageTexts.findMany({
+      where: where(messageTexts),
+      columns: { searchVector: false },
+    }),
+    db.query.messageReasoning.findMany({ where: where(messageReasoning) }),
+    db.query.messageTools.findMany({ where: where(messageTools) }),
+    db.query.messageSourceUrls.findMany({ where: where(messageSourceUrls) }),
+    db.query.messageData.findMany({ where: where(messageData) }),
+    db.query.messageFiles.findMany({ where: where(messageFiles) }),
+    db.query.messageSourceDocuments.findMany({
+      where: where(messageSourceDocuments),
+    }),
+  ] as const;
+}
+
+/**
+ * Load the parts of a chat's messages (or of several chats'), or of only
+ * `messageIds`, grouped by message and sorted by their UUID v7 IDs
+ * (chronological).
+ */
+async function getMessageParts(
+  chatId: string | string[],
+  messageIds?: string[],
+): Promise<Map<string, MessagePart[]>> {
   const [
-    messagesData,
     textsData,
     reasoningData,
     toolsData,
@@ -417,33 +485,7 @@ export async function getChatMessages(
     dataData,
     filesData,
     sourceDocumentsData,
-  ] = await Promise.all([
-    db.query.messages.findMany({
-      where: eq(messages.chatId, chatId),
-      orderBy: (messages, { asc }) => [asc(messages.createdAt)],
-    }),
-    db.query.messageTexts.findMany({
-      where: eq(messageTexts.chatId, chatId),
-    }),
-    db.query.messageReasoning.findMany({
-      where: eq(messageReasoning.chatId, chatId),
-    }),
-    db.query.messageTools.findMany({
-      where: eq(messageTools.chatId, chatId),
-    }),
-    db.query.messageSourceUrls.findMany({
-      where: eq(messageSourceUrls.chatId, chatId),
-    }),
-    db.query.messageData.findMany({
-      where: eq(messageData.chatId, chatId),
-    }),
-    db.query.messageFiles.findMany({
-      where: eq(messageFiles.chatId, chatId),
-    }),
-    db.query.messageSourceDocuments.findMany({
-      where: eq(messageSourceDocuments.chatId, chatId),
-    }),
-  ]);
+  ] = await Promise.all(buildMessagePartsQueries(chatId, messageIds));
 
   const partsMap = new Map<string, MessagePart[]>();
 
@@ -472,18 +514,77 @@ export async function getChatMessages(
     type: "source-document" as const,
   }));
 
-  return messagesData.map((message) => {
-    const parts = partsMap.get(message.id) || [];
+  for (const parts of partsMap.values()) {
     // UUID v7 IDs are chronologically ordered
     parts.sort((a, b) => a.id.localeCompare(b.id));
+  }
+  return partsMap;
+}
 
-    return {
-      ...message,
-      parts,
-    };
+export async function getChatMessages(
+  chatId: string,
+): Promise<MessageWithParts[]> {
+  const [messagesData, partsMap] = await Promise.all([
+    db.query.messages.findMany({
+      where: eq(messages.chatId, chatId),
+      orderBy: (messages, { asc }) => [asc(messages.createdAt)],
+    }),
+    getMessageParts(chatId),
+  ]);
+
+  return messagesData.map((message) => ({
+    ...message,
+    parts: partsMap.get(message.id) || [],
+  }));
+}
+
+type ChatMessagesPageOptions = { before?: string | null; limit?: number };
+
+/**
+ * The messages query of `getChatMessagesPage`, newest first and one row past
+ * the page to tell whether older messages exist. Not awaited, so its query
+ * plan can be checked.
+ */
+export function buildChatMessagesPageQuery(
+  chatId: string,
+  { before, limit = CHAT_MESSAGES_PAGE_SIZE }: ChatMessagesPageOptions = {},
+) {
+  return db.query.messages.findMany({
+    where: and(
+      eq(messages.chatId, chatId),
+      before ? lt(messages.id, before) : undefined,
+    ),
+    orderBy: [desc(messages.id)],
+    limit: limit + 1,
   });
 }
 
+/**
+ * Load the latest `limit` messages of a chat, or the `limit` messages before
+ * the `before` cursor. UUID v7 message IDs order messages chronologically, so
+ * the cursor is the oldest message ID of the previous page.
+ */
+export async function getChatMessagesPage(
+  chatId: string,
+  { before, limit = CHAT_MESSAGES_PAGE_SIZE }: ChatMessagesPageOptions = {},
+): Promise<ChatMessagesPage> {
+  const rows = await buildChatMessagesPageQuery(chatId, { before, limit });
+
+  const page = rows.slice(0, limit).reverse();
+  const partsMap = await getMessageParts(
+    chatId,
+    page.map((message) => message.id),
+  );
+
+  return {
+    messages: page.map((message) => ({
+      ...message,
+      parts: partsMap.get(message.id) || [],
+    })),
+    before: rows.length > limit ? page[0].id : null,
+  };
+}
+
 export type ChatWithPreview = {
   id: string;
   title: string;
@@ -493,42 +594,319 @@ export type ChatWithPreview = {
   lastMessagePreview: string | null;
 };
 
-export async function getUserChats(userId: string): Promise<ChatWithPreview[]> {
-  const userChats = await db.query.chats.findMany({
-    where: eq(chats.userId, userId),
-    orderBy: [desc(chats.updatedAt)],
+export type ChatsPage = {
+  chats: ChatWithPreview[];
+  /** Cursor for the next page; null when this page is the last */
+  cursor: string | null;
+};
+
+const CHAT_SORT_COLUMNS = {
+  updated: { column: chats.updatedAt, type: "timestamp", ascending: false },
+  created: { column: chats.createdAt, type: "timestamp", ascending: false },
+  title: { column: chats.title, type: "text", ascending: true },
+} satisfies Record<ChatSort, unknown>;
+
+type UserChatsOptions = {
+  sort?: ChatSort;
+  cursor?: string | null;
+  limit?: number;
+};
+
+/**
+ * The query of `getUserChats`, one row past the page to tell whether more
+ * chats follow. Not awaited, so its query plan can be checked.
+ */
+export function buildUserChatsQuery(
+  userId: string,
+  { sort = "updated", cursor, limit = CHATS_PAGE_SIZE }: UserChatsOptions = {},
+) {
+  const { column, type, ascending } = CHAT_SORT_COLUMNS[sort];
+  const after = cursor ? decodeChatCursor(cursor) : null;
+
+  const messageCount = db
+    .select({ count: sql<number>`count(*)::int`.as("count") })
+    .from(messages)
+    .where(eq(messages.chatId, chats.id))
+    .as("message_count");
+
+  const lastUserMessage = db
+    .select({ id: messages.id })
+    .from(messages)
+    .where(and(eq(messages.chatId, chats.id), eq(messages.role, "user")))
+    .orderBy(desc(messages.id))
+    .limit(1)
+    .as("last_user_message");
+
+  const preview = db
+    .select({ text: sql<string>`left(${messageTexts.text}, 100)`.as("text") })
+    .from(messageTexts)
+    .where(eq(messageTexts.messageId, lastUserMessage.id))
+    .orderBy(asc(messageTexts.id))
+    .limit(1)
+    .as("preview");
+
+  const order = ascending ? asc : desc;
+  return db
+    .select({
+      id: chats.id,
+      title: chats.title,
+      createdAt: chats.createdAt,
+      updatedAt: chats.updatedAt,
+      messageCount: messageCount.count,
+      lastMessagePreview: preview.text,
+      sortValue: sql<string>`${column}::text`,
+    })
+    .from(chats)
+    .leftJoinLateral(messageCount, sql`true`)
+    .leftJoinLateral(lastUserMessage, sql`true`)
+    .leftJoinLateral(preview, sql`true`)
+    .where(
+      and(
+        eq(chats.userId, userId),
+        after
+          ? sql`(${column}, ${chats.id}) ${sql.raw(ascending ? ">" : "<")} (${after.value}::${sql.raw(type)}, ${after.id}::uuid)`
+          : undefined,
+      ),
+    )
+    .orderBy(order(column), order(chats.id))
+    .limit(limit + 1);
+}
+
+/**
+ * Load a page of a user's chats with their message count and a preview of
+ * the last user message, in one query. The cursor comes from the previous
+ * page; an invalid cursor loads the first page.
+ */
+export async function getUserChats(
+  userId: string,
+  { sort = "updated", cursor, limit = CHATS_PAGE_SIZE }: UserChatsOptions = {},
+): Promise<ChatsPage> {
+  const rows = await buildUserChatsQuery(userId, { sort, cursor, limit });
+
+  const page = rows.slice(0, limit);
+  const last = page.at(-1);
+  return {
+    chats: page.map(({ sortValue: _, ...chat }) => ({
+      ...chat,
+      messageCount: chat.messageCount ?? 0,
+    })),
+    cursor:
+      rows.length > limit && last
+        ? encodeChatCursor({ value: last.sortValue, id: last.id })
+        : null,
+  };
+}
+
+/**
+ * Full-text search a user's chat titles and message texts. Message hits also
+ * rank by their chat's title, so chats whose title matches come first.
+ */
+export async function searchUserChats(
+  userId: string,
+  query: string,
+  { limit = CHAT_SEARCH_LIMIT }: { limit?: number } = {},
+): Promise<ChatSearchHit[]> {
+  const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+  const headline = (column: PgColumn) =>
+    sql<string>`ts_headline('english', ${column}, ${tsquery}, ${HEADLINE_OPTIONS})`;
+  const titleRank = sql<number>`ts_rank(${chats.searchVector}, ${tsquery})`;
+  const messageRank = sql<number>`ts_rank(${messageTexts.searchVector}, ${tsquery}) + ${titleRank}`;
+
+  const [titleRows, messageRows] = await Promise.all([
+    db
+      .select({
+        chatId: chats.id,
+        chatTitle: chats.title,
+        messageId: sql<string | null>`null`,
+        headline: headline(chats.title),
+        rank: titleRank,
+      })
+      .from(chats)
+      .where(
+        and(eq(chats.userId, userId), sql`${chats.searchVector} @@ ${tsquery}`),
+      )
+      .orderBy(desc(titleRank))
+      .limit(limit),
+    db
+      .select({
+        chatId: chats.id,
+        chatTitle: chats.title,
+        messageId: messageTexts.messageId,
+        headline: headline(messageTexts.text),
+        rank: messageRank,
+      })
+      .from(messageTexts)
+      .innerJoin(chats, eq(chats.id, messageTexts.chatId))
+      .where(
+        and(
+          eq(chats.userId, userId),
+          sql`${messageTexts.searchVector} @@ ${tsquery}`,
+        ),
+      )
+      .orderBy(desc(messageRank))
+      .limit(limit),
+  ]);
+
+  return mergeChatSearchHits(titleRows, messageRows, limit);
+}
+
+function toChatExport(
+  chat: { id: string; title: string; createdAt: Date; updatedAt: Date },
+  history: MessageWithParts[],
+): ChatExport {
+  const uiMessages = convertDbMessagesToUIMessages(history);
+  return {
+    version: CHAT_EXPORT_VERSION,
+    chat: {
+      id: chat.id,
+      title: chat.title,
+      createdAt: chat.createdAt.toISOString(),
+      updatedAt: chat.updatedAt.toISOString(),
+    },
+    messages: uiMessages.map((message, i) => ({
+      ...message,
+      createdAt: history[i].createdAt.toISOString(),
+    })),
+  };
+}
+
+const chatExportColumns = {
+  id: true,
+  title: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * Export a chat with every message as UI messages. Returns null if the chat
+ * doesn't exist or belongs to a different user.
+ */
+export async function getChatExport(
+  chatId: string,
+  userId: string,
+): Promise<ChatExport | null> {
+  const chat = await db.query.chats.findFirst({
+    where: and(eq(chats.id, chatId), eq(chats.userId, userId)),
+    columns: chatExportColumns,
   });
 
-  const chatPreviews = await Promise.all(
-    userChats.map(async (chat) => {
-      const chatMessages = await db.query.messages.findMany({
-        where: eq(messages.chatId, chat.id),
-      });
+  if (!chat) {
+    return null;
+  }
+
+  return toChatExport(chat, await getChatMessages(chatId));
+}
 
-      const lastUserMessage = chatMessages
-        .filter((m) => m.role === "user")
-        .at(-1);
+/** Chats per batch of `getUserChatExports` */
+const CHAT_EXPORT_BATCH_SIZE = 50;
 
-      let lastMessagePreview: string | null = null;
-      if (lastUserMessage) {
-        const textPart = await db.query.messageTexts.findFirst({
-          where: eq(messageTexts.messageId, lastUserMessage.id),
-        });
-        lastMessagePreview = textPart?.text?.slice(0, 100) ?? null;
-      }
+/**
+ * Export a user's chats oldest first, each with the cursor to continue the
+ * export after it. Chats load in batches, with one query per table for a
+ * whole batch, so a long history takes few queries and never sits in memory
+ * at once. Export from `after`, a cursor of a previous export, to skip the
+ * chats up to it.
+ */
+export async function* getUserChatExports(
+  userId: string,
+  {
+    after,
+    batchSize = CHAT_EXPORT_BATCH_SIZE,
+  }: { after?: string | null; batchSize?: number } = {},
+): AsyncGenerator<ChatExportEntry> {
+  let cursor = after ? decodeChatCursor(after) : null;
+
+  for (;;) {
+    const batch = await db
+      .select({
+        id: chats.id,
+        title: chats.title,
+        createdAt: chats.createdAt,
+        updatedAt: chats.updatedAt,
+        sortValue: sql<string>`${chats.createdAt}::text`,
+      })
+      .from(chats)
+      .where(
+        and(
+          eq(chats.userId, userId),
+          cursor
+            ? sql`(${chats.createdAt}, ${chats.id}) > (${cursor.value}::timestamp, ${cursor.id}::uuid)`
+            : undefined,
+        ),
+      )
+      .orderBy(asc(chats.createdAt), asc(chats.id))
+      .limit(batchSize);
+    if (batch.length === 0) return;
+
+    const chatIds = batch.map((chat) => chat.id);
+    const [messagesData, partsMap] = await Promise.all([
+      db.query.messages.findMany({
+        where: inArray(messages.chatId, chatIds),
+        orderBy: (messages, { asc }) => [asc(messages.createdAt)],
+      }),
+      getMessageParts(chatIds),
+    ]);
+
+    const histories = new Map<string, MessageWithParts[]>();
+    for (const message of messagesData) {
+      const history = histories.get(message.chatId) || [];
+      history.push({ ...message, parts: partsMap.get(message.id) || [] });
+      histories.set(message.chatId, history);
+    }
 
-      return {
-        id: chat.id,
-        title: chat.title,
-        createdAt: chat.createdAt,
-        updatedAt: chat.updatedAt,
-        messageCount: chatMessages.length,
-        lastMessagePreview,
+    for (const chat of batch) {
+      const history = histories.get(chat.id) || [];
+      cursor = { value: chat.sortValue, id: chat.id };
+      yield {
+        exported: toChatExport(chat, history),
+        cursor: encodeChatCursor(cursor),
       };
-    }),
-  );
+    }
+
+    if (batch.length < batchSize) return;
+  }
+}
+
+/**
+ * Recreate an exported chat for a user. The chat and its messages get new
+ * IDs, so importing never collides with existing chats, and a failed import
+ * leaves nothing behind. Returns the new chat ID.
+ */
+export async function importChat(
+  userId: string,
+  exported: ChatExport,
+): Promise<string> {
+  const chatId = uuidv7();
+  await db.insert(chats).values({
+    id: chatId,
+    userId,
+    title: exported.chat.title,
+    createdAt: new Date(exported.chat.createdAt),
+    updatedAt: new Date(exported.chat.updatedAt),
+  });
+
+  try {
+    // UUID v7 IDs generated in order keep the messages in order
+    const messageRows = exported.messages.map((message) => ({
+      id: uuidv7(),
+      chatId,
+      role: message.role,
+      createdAt: new Date(message.createdAt),
+      updatedAt: new Date(message.createdAt),
+    }));
+    if (messageRows.length > 0) {
+      await db.insert(messages).values(messageRows);
+    }
+    for (const [i, message] of exported.messages.entries()) {
+      await insertMessageParts(chatId, messageRows[i].id, message.parts);
+    }
+  } catch (error) {
+    // Messages and parts cascade
+    await db.delete(chats).where(eq(chats.id, chatId));
+    throw error;
+  }
 
-  return chatPreviews;
+  return chatId;
 }
 
 export async function deleteChat(
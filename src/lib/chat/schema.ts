@@ -5,173 +5,261 @@ import {
   uuid,
   jsonb,
   boolean,
+  index,
+  customType,
 } from "drizzle-orm/pg-core";
-import { sql } from "drizzle-orm";
+import { sql, type SQL } from "drizzle-orm";
 import { TOOL_TYPES } from "@/lib/ai/tools";
 import { users } from "@/lib/auth/schema";
 
-export const chats = pgTable("chats", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`uuid_generate_v7()`),
-  userId: text("user_id")
-    .notNull()
-    .references(() => users.id, { onDelete: "cascade" }),
-  title: text("title").notNull().default("New chat"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+// Full-text search document; generated from text columns, never written
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
 });
 
+export const chats = pgTable(
+  "chats",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    title: text("title").notNull().default("New chat"),
+    // Weighted above message text so title matches rank first
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      (): SQL => sql`setweight(to_tsvector('english', ${chats.title}), 'A')`,
+    ),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("chats_userId_updatedAt_id_idx").on(
+      table.userId,
+      table.updatedAt,
+      table.id,
+    ),
+    index("chats_userId_createdAt_id_idx").on(
+      table.userId,
+      table.createdAt,
+      table.id,
+    ),
+    index("chats_userId_title_id_idx").on(table.userId, table.title, table.id),
+    index("chats_searchVector_idx").using("gin", table.searchVector),
+  ],
+);
+
 // runId is non-null while message is streaming, null when complete
-export const messages = pgTable("messages", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`uuid_generate_v7()`),
-  chatId: uuid("chat_id")
-    .notNull()
-    .references(() => chats.id, { onDelete: "cascade" }),
-  role: text("role", { enum: ["user", "assistant", "system"] }).notNull(),
-  runId: text("run_id"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const messages = pgTable(
+  "messages",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    chatId: uuid("chat_id")
+      .notNull()
+      .references(() => chats.id, { onDelete: "cascade" }),
+    role: text("role", { enum: ["user", "assistant", "system"] }).notNull(),
+    runId: text("run_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("messages_chatId_id_idx").on(table.chatId, table.id)],
+);
 
 // Message parts stored in separate tables. UUID v7 IDs enable chronological sorting.
+// Parts are loaded by chat_id (whole chats) and message_id (pages, cascades).
 
-export const messageTexts = pgTable("message_texts", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`uuid_generate_v7()`),
-  messageId: uuid("message_id")
-    .notNull()
-    .references(() => messages.id, { onDelete: "cascade" }),
-  chatId: uuid("chat_id")
-    .notNull()
-    .references(() => chats.id, { onDelete: "cascade" }),
-  text: text("text").notNull(),
-  providerMetadata: jsonb("provider_metadata"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const messageTexts = pgTable(
+  "message_texts",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    chatId: uuid("chat_id")
+      .notNull()
+      .references(() => chats.id, { onDelete: "cascade" }),
+    text: text("text").notNull(),
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      (): SQL => sql`to_tsvector('english', ${messageTexts.text})`,
+    ),
+    providerMetadata: jsonb("provider_metadata"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("message_texts_chatId_idx").on(table.chatId),
+    index("message_texts_messageId_idx").on(table.messageId),
+    index("message_texts_searchVector_idx").using("gin", table.searchVector),
+  ],
+);
 
-export const messageReasoning = pgTable("message_reasoning", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`uuid_generate_v7()`),
-  messageId: uuid("message_id")
-    .notNull()
-    .references(() => messages.id, { onDelete: "cascade" }),
-  chatId: uuid("chat_id")
-    .notNull()
-    .references(() => chats.id, { onDelete: "cascade" }),
-  text: text("text").notNull(),
-  providerMetadata: jsonb("provider_metadata"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const messageReasoning = pgTable(
+  "message_reasoning",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    chatId: uuid("chat_id")
+      .notNull()
+      .references(() => chats.id, { onDelete: "cascade" }),
+    text: text("text").notNull(),
+    providerMetadata: jsonb("provider_metadata"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("message_reasoning_chatId_idx").on(table.chatId),
+    index("message_reasoning_messageId_idx").on(table.messageId),
+  ],
+);
 
-export const messageTools = pgTable("message_tools", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`uuid_generate_v7()`),
-  messageId: uuid("message_id")
-    .notNull()
-    .references(() => messages.id, { onDelete: "cascade" }),
-  chatId: uuid("chat_id")
-    .notNull()
-    .references(() => chats.id, { onDelete: "cascade" }),
-  title: text("title"),
-  toolCallId: text("tool_call_id").notNull(),
-  providerExecuted: boolean("provider_executed").notNull().default(false),
-  errorText: text("error_text"),
-  input: jsonb("input").notNull(),
-  output: jsonb("output"),
-  toolType: text("tool_type", {
-    enum: TOOL_TYPES,
-  }).notNull(),
-  state: text("state", {
-    enum: ["output-available", "output-error", "output-denied"],
-  })
-    .notNull()
-    .default("output-available"),
-  callProviderMetadata: jsonb("call_provider_metadata"),
-  approvalId: text("approval_id"),
-  approvalReason: text("approval_reason"),
-  approved: boolean("approved"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const messageTools = pgTable(
+  "message_tools",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    chatId: uuid("chat_id")
+      .notNull()
+      .references(() => chats.id, { onDelete: "cascade" }),
+    title: text("title"),
+    toolCallId: text("tool_call_id").notNull(),
+    providerExecuted: boolean("provider_executed").notNull().default(false),
+    errorText: text("error_text"),
+    input: jsonb("input").notNull(),
+    output: jsonb("output"),
+    toolType: text("tool_type", {
+      enum: TOOL_TYPES,
+    }).notNull(),
+    state: text("state", {
+      enum: ["output-available", "output-error", "output-denied"],
+    })
+      .notNull()
+      .default("output-available"),
+    callProviderMetadata: jsonb("call_provider_metadata"),
+    approvalId: text("approval_id"),
+    approvalReason: text("approval_reason"),
+    approved: boolean("approved"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("message_tools_chatId_idx").on(table.chatId),
+    index("message_tools_messageId_idx").on(table.messageId),
+  ],
+);
 
-export const messageSourceUrls = pgTable("message_source_urls", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`uuid_generate_v7()`),
-  messageId: uuid("message_id")
-    .notNull()
-    .references(() => messages.id, { onDelete: "cascade" }),
-  chatId: uuid("chat_id")
-    .notNull()
-    .references(() => chats.id, { onDelete: "cascade" }),
-  sourceId: text("source_id").notNull(),
-  url: text("url").notNull(),
-  title: text("title"),
-  providerMetadata: jsonb("provider_metadata"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const messageSourceUrls = pgTable(
+  "message_source_urls",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    chatId: uuid("chat_id")
+      .notNull()
+      .references(() => chats.id, { onDelete: "cascade" }),
+    sourceId: text("source_id").notNull(),
+    url: text("url").notNull(),
+    title: text("title"),
+    providerMetadata: jsonb("provider_metadata"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("message_source_urls_chatId_idx").on(table.chatId),
+    index("message_source_urls_messageId_idx").on(table.messageId),
+  ],
+);
 
-export const messageData = pgTable("message_data", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`uuid_generate_v7()`),
-  messageId: uuid("message_id")
-    .notNull()
-    .references(() => messages.id, { onDelete: "cascade" }),
-  chatId: uuid("chat_id")
-    .notNull()
-    .references(() => chats.id, { onDelete: "cascade" }),
-  dataType: text("data_type").notNull(), // data-weather, data-news, etc.
-  data: jsonb("data").notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const messageData = pgTable(
+  "message_data",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    chatId: uuid("chat_id")
+      .notNull()
+      .references(() => chats.id, { onDelete: "cascade" }),
+    dataType: text("data_type").notNull(), // data-weather, data-news, etc.
+    data: jsonb("data").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("message_data_chatId_idx").on(table.chatId),
+    index("message_data_messageId_idx").on(table.messageId),
+  ],
+);
 
-export const messageFiles = pgTable("message_files", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`uuid_generate_v7()`),
-  messageId: uuid("message_id")
-    .notNull()
-    .references(() => messages.id, { onDelete: "cascade" }),
-  chatId: uuid("chat_id")
-    .notNull()
-    .references(() => chats.id, { onDelete: "cascade" }),
-  mediaType: text("media_type").notNull(), // IANA media type (e.g., image/png, application/pdf)
-  filename: text("filename"), // Optional filename
-  url: text("url").notNull(), // Data URL or regular URL
-  providerMetadata: jsonb("provider_metadata"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const messageFiles = pgTable(
+  "message_files",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    chatId: uuid("chat_id")
+      .notNull()
+      .references(() => chats.id, { onDelete: "cascade" }),
+    mediaType: text("media_type").notNull(), // IANA media type (e.g., image/png, application/pdf)
+    filename: text("filename"), // Optional filename
+    url: text("url").notNull(), // Data URL or regular URL
+    providerMetadata: jsonb("provider_metadata"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("message_files_chatId_idx").on(table.chatId),
+    index("message_files_messageId_idx").on(table.messageId),
+  ],
+);
 
-export const messageSourceDocuments = pgTable("message_source_documents", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`uuid_generate_v7()`),
-  messageId: uuid("message_id")
-    .notNull()
-    .references(() => messages.id, { onDelete: "cascade" }),
-  chatId: uuid("chat_id")
-    .notNull()
-    .references(() => chats.id, { onDelete: "cascade" }),
-  sourceId: text("source_id").notNull(),
-  mediaType: text("media_type").notNull(), // IANA media type
-  title: text("title").notNull(),
-  filename: text("filename"), // Optional filename
-  providerMetadata: jsonb("provider_metadata"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const messageSourceDocuments = pgTable(
+  "message_source_documents",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    chatId: uuid("chat_id")
+      .notNull()
+      .references(() => chats.id, { onDelete: "cascade" }),
+    sourceId: text("source_id").notNull(),
+    mediaType: text("media_type").notNull(), // IANA media type
+    title: text("title").notNull(),
+    filename: text("filename"), // Optional filename
+    providerMetadata: jsonb("provider_metadata"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("message_source_documents_chatId_idx").on(table.chatId),
+    index("message_source_documents_messageId_idx").on(table.messageId),
+  ],
+);
 
 // Type exports
 export type Chat = typeof chats.$inferSelect;
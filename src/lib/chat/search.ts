@@ -0,0 +1,90 @@
+/** Hits returned by `searchUserChats` */
+export const CHAT_SEARCH_LIMIT = 20;
+
+/** Longer queries are cut before reaching `websearch_to_tsquery` */
+export const CHAT_SEARCH_MAX_QUERY_LENGTH = 200;
+
+// Control characters can't appear in chat text, so they safely delimit the
+// matches `ts_headline` marks without escaping the snippet for HTML
+const MATCH_START = "\u0002";
+const MATCH_STOP = "\u0003";
+
+/** `ts_headline` options: one short fragment with the matches delimited */
+export const HEADLINE_OPTIONS = [
+  `StartSel=${MATCH_START}`,
+  `StopSel=${MATCH_STOP}`,
+  "MaxFragments=1",
+  "MaxWords=24",
+  "MinWords=8",
+].join(", ");
+
+/** A run of snippet text, marked when it matched the query */
+export type SnippetSegment = { text: string; match: boolean };
+
+export type ChatSearchHit = {
+  chatId: string;
+  chatTitle: string;
+  /** The matching message, or null when only the title matched */
+  messageId: string | null;
+  snippet: SnippetSegment[];
+  rank: number;
+  /** Deep link to the chat, at the matching message */
+  url: string;
+};
+
+/** A row of `searchUserChats` before its snippet is parsed */
+export type ChatSearchRow = Omit<ChatSearchHit, "snippet" | "url"> & {
+  headline: string;
+};
+
+/** Split a `ts_headline` result into plain and matched segments */
+export function parseHeadline(headline: string): SnippetSegment[] {
+  const [before, ...parts] = headline.split(MATCH_START);
+  const segments: SnippetSegment[] = [{ text: before, match: false }];
+  for (const part of parts) {
+    const stop = part.indexOf(MATCH_STOP);
+    segments.push(
+      { text: stop === -1 ? part : part.slice(0, stop), match: true },
+      { text: stop === -1 ? "" : part.slice(stop + 1), match: false },
+    );
+  }
+  return segments.filter((segment) => segment.text);
+}
+
+export function getChatSearchHitUrl(
+  chatId: string,
+  messageId: string | null,
+): string {
+  return messageId ? `/chats/${chatId}#${messageId}` : `/chats/${chatId}`;
+}
+
+/**
+ * Combine title and message hits, best first. A message with several
+ * matching text parts keeps its best hit, and a chat whose title matched
+ * keeps that hit only when none of its messages did.
+ */
+export function mergeChatSearchHits(
+  titleRows: ChatSearchRow[],
+  messageRows: ChatSearchRow[],
+  limit = CHAT_SEARCH_LIMIT,
+): ChatSearchHit[] {
+  const chatsWithMessageHits = new Set(messageRows.map((row) => row.chatId));
+  const seenMessages = new Set<string>();
+  return [
+    ...messageRows,
+    ...titleRows.filter((row) => !chatsWithMessageHits.has(row.chatId)),
+  ]
+    .sort((a, b) => b.rank - a.rank)
+    .filter((row) => {
+      if (!row.messageId) return true;
+      if (seenMessages.has(row.messageId)) return false;
+      seenMessages.add(row.messageId);
+      return true;
+    })
+    .slice(0, limit)
+    .map(({ headline, ...row }) => ({
+      ...row,
+      snippet: parseHeadline(headline),
+      url: getChatSearchHitUrl(row.chatId, row.messageId),
+    }));
+}
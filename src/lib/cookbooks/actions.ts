@@ -0,0 +1,80 @@
+"use server";
+
+import { headers } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { auth } from "@/lib/auth/server";
+import {
+  createCustomCookbook,
+  deleteCustomCookbook,
+  updateCustomCookbook,
+} from "./queries";
+import { customCookbookInputSchema, type CustomCookbookInput } from "./custom";
+
+async function getUserId() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  return session?.user.id ?? null;
+}
+
+export async function createCustomCookbookAction(input: CustomCookbookInput) {
+  const userId = await getUserId();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = customCookbookInputSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.issues[0].message };
+  }
+
+  const id = await createCustomCookbook(userId, result.data);
+
+  revalidatePath("/profile");
+  return { success: true, id };
+}
+
+export async function updateCustomCookbookAction(
+  id: string,
+  input: CustomCookbookInput,
+) {
+  const userId = await getUserId();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = customCookbookInputSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.issues[0].message };
+  }
+
+  const success =
+    z.uuid().safeParse(id).success &&
+    (await updateCustomCookbook(id, userId, result.data));
+
+  if (!success) {
+    return { error: "Cookbook not found" };
+  }
+
+  revalidatePath(`/c/${id}`);
+  revalidatePath("/profile");
+  return { success: true, id };
+}
+
+export async function deleteCustomCookbookAction(id: string) {
+  const userId = await getUserId();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const success =
+    z.uuid().safeParse(id).success && (await deleteCustomCookbook(id, userId));
+
+  if (!success) {
+    return { error: "Cookbook not found" };
+  }
+
+  revalidatePath("/profile");
+  return { success: true };
+}
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { BookOpen } from "lucide-react";
+import {
+  getItemBySlug,
+  getRecipeBySlug,
+  getRedirectSlug,
+  isCookbook,
+  type Cookbook,
+} from "@/lib/recipes/data";
+
+const SITE_URL = "https://fullstackrecipes.com";
+const MAX_RECIPES = 100;
+
+/** A user-defined cookbook with its recipes in order */
+export type CustomCookbook = {
+  id: string;
+  userId: string;
+  title: string;
+  description: string;
+  recipes: { slug: string; note: string | null }[];
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const noteSchema = z
+  .string()
+  .trim()
+  .max(1000)
+  // Notes are rendered as Markdoc, so they can't open tags of their own
+  .refine((note) => !note.includes("{%"), {
+    message: "Notes can't contain Markdoc tags",
+  })
+  .nullable()
+  .transform((note) => note || null);
+
+/** What a user submits when saving or editing a custom cookbook */
+export const customCookbookInputSchema = z.object({
+  title: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(1000),
+  recipes: z
+    .array(
+      z.object({
+        slug: z.string().refine((slug) => getRecipeBySlug(slug), {
+          message: "Unknown recipe",
+        }),
+        note: noteSchema,
+      }),
+    )
+    .min(1, "Add at least one recipe")
+    .max(MAX_RECIPES)
+    .refine(
+      (recipes) =>
+        new Set(recipes.map((recipe) => recipe.slug)).size === recipes.length,
+      { message: "Each recipe can only be added once" },
+    ),
+});
+
+export type CustomCookbookInput = z.input<typeof customCookbookInputSchema>;
+
+/** Markdown twin of a custom cookbook page */
+export function getCustomCookbookMarkdownUrl(id: string): string {
+  return `${SITE_URL}/c/${id}.md`;
+}
+
+/**
+ * Recipes of a selection to save as a custom cookbook: selected recipes, and
+ * the recipes of selected cookbooks, each once and in selection order.
+ */
+export function getSelectionRecipeSlugs(slugs: string[]): string[] {
+  const recipes = slugs.flatMap((slug) => {
+    const item = getItemBySlug(slug);
+    if (!item) return [];
+    return isCookbook(item) ? item.recipes : [slug];
+  });
+  return Array.from(new Set(recipes));
+}
+
+/**
+ * Current slugs of saved recipes: renamed recipes follow their redirect, and
+ * recipes that were removed since the cookbook was saved are dropped.
+ */
+export function resolveSavedRecipes(
+  recipes: CustomCookbook["recipes"],
+): CustomCookbook["recipes"] {
+  const resolved = new Map<string, string | null>();
+  for (const { slug, note } of recipes) {
+    const current = getRecipeBySlug(slug) ? slug : getRedirectSlug(slug);
+    if (current && getRecipeBySlug(current) && !resolved.has(current)) {
+      resolved.set(current, note);
+    }
+  }
+  return Array.from(resolved, ([slug, note]) => ({ slug, note }));
+}
+
+/**
+ * A custom cookbook as a `Cookbook`, so it renders through the same loader as
+ * the built-in ones: recipe sections in order, notes above each section, and
+ * prerequisites of its recipes.
+ */
+export function toCookbook(custom: CustomCookbook): Cookbook {
+  const recipes = resolveSavedRecipes(custom.recipes);
+  const recipeNotes: Record<string, string> = {};
+  for (const { slug, note } of recipes) {
+    if (note) recipeNotes[slug] = note;
+  }
+
+  return {
+    slug: custom.id,
+    title: custom.title,
+    description:
+      custom.description ||
+      `A custom cookbook of ${recipes.length} ${
+        recipes.length === 1 ? "recipe" : "recipes"
+      }.`,
+    tags: ["Cookbook"],
+    icon: BookOpen,
+    type: "setup",
+    previewCode: "",
+    isCookbook: true,
+    recipes: recipes.map((recipe) => recipe.slug),
+    recipeNotes,
+  };
+}
@@ -0,0 +1,136 @@
+import { db } from "@/lib/db/client";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { customCookbookRecipes, customCookbooks } from "./schema";
+import type { CustomCookbook } from "./custom";
+
+type CustomCookbookValues = Pick<
+  CustomCookbook,
+  "title" | "description" | "recipes"
+>;
+
+function toRecipeRows(cookbookId: string, recipes: CustomCookbook["recipes"]) {
+  return recipes.map((recipe, position) => ({
+    cookbookId,
+    slug: recipe.slug,
+    position,
+    note: recipe.note,
+  }));
+}
+
+/**
+ * Get a custom cookbook with its recipes in order, or null if it doesn't
+ * exist. Custom cookbooks are public, so no user is required.
+ */
+export async function getCustomCookbook(
+  id: string,
+): Promise<CustomCookbook | null> {
+  const [cookbook] = await db
+    .select()
+    .from(customCookbooks)
+    .where(eq(customCookbooks.id, id));
+
+  if (!cookbook) {
+    return null;
+  }
+
+  const recipes = await db
+    .select({
+      slug: customCookbookRecipes.slug,
+      note: customCookbookRecipes.note,
+    })
+    .from(customCookbookRecipes)
+    .where(eq(customCookbookRecipes.cookbookId, id))
+    .orderBy(asc(customCookbookRecipes.position));
+
+  return { ...cookbook, recipes };
+}
+
+/**
+ * Custom cookbooks of a user, most recently updated first. Recipes are not
+ * loaded; use `getCustomCookbook` for a single cookbook.
+ */
+export async function getUserCustomCookbooks(userId: string) {
+  return db
+    .select()
+    .from(customCookbooks)
+    .where(eq(customCookbooks.userId, userId))
+    .orderBy(desc(customCookbooks.updatedAt));
+}
+
+/**
+ * Create a custom cookbook and return its id.
+ */
+export async function createCustomCookbook(
+  userId: string,
+  values: CustomCookbookValues,
+): Promise<string> {
+  return db.transaction(async (tx) => {
+    const [cookbook] = await tx
+      .insert(customCookbooks)
+      .values({
+        userId,
+        title: values.title,
+        description: values.description,
+      })
+      .returning({ id: customCookbooks.id });
+
+    await tx
+      .insert(customCookbookRecipes)
+      .values(toRecipeRows(cookbook.id, values.recipes));
+
+    return cookbook.id;
+  });
+}
+
+/**
+ * Replace a custom cookbook's name, description, and recipes.
+ * Returns false if the cookbook doesn't exist or belongs to another user.
+ */
+export async function updateCustomCookbook(
+  id: string,
+  userId: string,
+  values: CustomCookbookValues,
+): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const updated = await tx
+      .update(customCookbooks)
+      .set({
+        title: values.title,
+        description: values.description,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(eq(customCookbooks.id, id), eq(customCookbooks.userId, userId)),
+      )
+      .returning({ id: customCookbooks.id });
+
+    if (updated.length === 0) {
+      return false;
+    }
+
+    await tx
+      .delete(customCookbookRecipes)
+      .where(eq(customCookbookRecipes.cookbookId, id));
+    await tx
+      .insert(customCookbookRecipes)
+      .values(toRecipeRows(id, values.recipes));
+
+    return true;
+  });
+}
+
+/**
+ * Delete a custom cookbook. Returns false if it doesn't exist or belongs to
+ * another user.
+ */
+export async function deleteCustomCookbook(
+  id: string,
+  userId: string,
+): Promise<boolean> {
+  const deleted = await db
+    .delete(customCookbooks)
+    .where(and(eq(customCookbooks.id, id), eq(customCookbooks.userId, userId)))
+    .returning({ id: customCookbooks.id });
+
+  return deleted.length > 0;
+}
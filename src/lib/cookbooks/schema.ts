@@ -0,0 +1,56 @@
+import {
+  index,
+  integer,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { users } from "@/lib/auth/schema";
+
+// A user's own selection of recipes, public by URL at /c/<id>. Listed per
+// user, most recently updated first.
+export const customCookbooks = pgTable(
+  "custom_cookbooks",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`uuid_generate_v7()`),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    title: text("title").notNull(),
+    description: text("description").notNull().default(""),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("custom_cookbooks_userId_updatedAt_idx").on(
+      table.userId,
+      table.updatedAt,
+    ),
+  ],
+);
+
+// Recipes of a custom cookbook, rendered in position order
+export const customCookbookRecipes = pgTable(
+  "custom_cookbook_recipes",
+  {
+    cookbookId: uuid("cookbook_id")
+      .notNull()
+      .references(() => customCookbooks.id, { onDelete: "cascade" }),
+    slug: text("slug").notNull(),
+    position: integer("position").notNull(),
+    note: text("note"),
+  },
+  (table) => [primaryKey({ columns: [table.cookbookId, table.slug] })],
+);
+
+// Type exports
+export type CustomCookbookRow = typeof customCookbooks.$inferSelect;
+export type NewCustomCookbookRow = typeof customCookbooks.$inferInsert;
+export type CustomCookbookRecipeRow = typeof customCookbookRecipes.$inferSelect;
+export type NewCustomCookbookRecipeRow =
+  typeof customCookbookRecipes.$inferInsert;
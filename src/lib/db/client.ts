@@ -5,10 +5,14 @@ import { databaseConfig } from "./config";
 
 import * as authSchema from "@/lib/auth/schema";
 import * as chatSchema from "@/lib/chat/schema";
+import * as progressSchema from "@/lib/progress/schema";
+import * as cookbookSchema from "@/lib/cookbooks/schema";
 
 const schema = {
   ...authSchema,
   ...chatSchema,
+  ...progressSchema,
+  ...cookbookSchema,
 };
 
 const pool = new Pool({
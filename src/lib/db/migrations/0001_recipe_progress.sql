@@ -0,0 +1,9 @@
+CREATE TABLE "recipe_progress" (
+	"user_id" text NOT NULL,
+	"slug" text NOT NULL,
+	"heading_id" text NOT NULL,
+	"completed_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "recipe_progress_user_id_slug_heading_id_pk" PRIMARY KEY("user_id","slug","heading_id")
+);
+--> statement-breakpoint
+ALTER TABLE "recipe_progress" ADD CONSTRAINT "recipe_progress_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "custom_cookbook_recipes" (
+	"cookbook_id" uuid NOT NULL,
+	"slug" text NOT NULL,
+	"position" integer NOT NULL,
+	"note" text,
+	CONSTRAINT "custom_cookbook_recipes_cookbook_id_slug_pk" PRIMARY KEY("cookbook_id","slug")
+);
+--> statement-breakpoint
+CREATE TABLE "custom_cookbooks" (
+	"id" uuid PRIMARY KEY DEFAULT uuid_generate_v7() NOT NULL,
+	"user_id" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "custom_cookbook_recipes" ADD CONSTRAINT "custom_cookbook_recipes_cookbook_id_custom_cookbooks_id_fk" FOREIGN KEY ("cookbook_id") REFERENCES "public"."custom_cookbooks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_cookbooks" ADD CONSTRAINT "custom_cookbooks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "custom_cookbooks_userId_updatedAt_idx" ON "custom_cookbooks" USING btree ("user_id","updated_at");
\ No newline at end of file
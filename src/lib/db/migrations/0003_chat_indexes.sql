@@ -0,0 +1,16 @@
+CREATE INDEX "chats_userId_updatedAt_id_idx" ON "chats" USING btree ("user_id","updated_at","id");--> statement-breakpoint
+CREATE INDEX "message_data_chatId_idx" ON "message_data" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX "message_data_messageId_idx" ON "message_data" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "message_files_chatId_idx" ON "message_files" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX "message_files_messageId_idx" ON "message_files" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "message_reasoning_chatId_idx" ON "message_reasoning" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX "message_reasoning_messageId_idx" ON "message_reasoning" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "message_source_documents_chatId_idx" ON "message_source_documents" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX "message_source_documents_messageId_idx" ON "message_source_documents" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "message_source_urls_chatId_idx" ON "message_source_urls" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX "message_source_urls_messageId_idx" ON "message_source_urls" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "message_texts_chatId_idx" ON "message_texts" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX "message_texts_messageId_idx" ON "message_texts" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "message_tools_chatId_idx" ON "message_tools" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX "message_tools_messageId_idx" ON "message_tools" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "messages_chatId_id_idx" ON "messages" USING btree ("chat_id","id");
\ No newline at end of file
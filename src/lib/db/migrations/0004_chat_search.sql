@@ -0,0 +1,4 @@
+ALTER TABLE "chats" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', "chats"."title"), 'A')) STORED;--> statement-breakpoint
+ALTER TABLE "message_texts" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', "message_texts"."text")) STORED;--> statement-breakpoint
+CREATE INDEX "chats_searchVector_idx" ON "chats" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "message_texts_searchVector_idx" ON "message_texts" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE INDEX "chats_userId_createdAt_id_idx" ON "chats" USING btree ("user_id","created_at","id");--> statement-breakpoint
+CREATE INDEX "chats_userId_title_id_idx" ON "chats" USING btree ("user_id","title","id");
\ No newline at end of file
@@ -0,0 +1,34 @@
+"use server";
+
+import { headers } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { auth } from "@/lib/auth/server";
+import { getRecipeBySlug } from "@/lib/recipes/data";
+import { getRecipeSteps } from "@/lib/recipes/loader";
+import { setStepCompleted } from "./queries";
+
+export async function setStepCompletedAction(
+  slug: string,
+  headingId: string,
+  completed: boolean,
+) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return { error: "Unauthorized" };
+  }
+
+  // Only steps that exist on the recipe page can be ticked off
+  const recipe = getRecipeBySlug(slug);
+  const steps = recipe ? await getRecipeSteps(recipe) : [];
+  if (!steps.some((step) => step.id === headingId)) {
+    return { error: "Step not found" };
+  }
+
+  await setStepCompleted(session.user.id, slug, headingId, completed);
+
+  revalidatePath("/profile");
+  return { success: true };
+}
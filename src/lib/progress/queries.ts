@@ -0,0 +1,52 @@
+import { db } from "@/lib/db/client";
+import { and, eq, inArray } from "drizzle-orm";
+import { recipeProgress, type RecipeProgressRow } from "./schema";
+
+/**
+ * Completed steps of a user, optionally limited to some recipe slugs.
+ */
+export async function getCompletedSteps(
+  userId: string,
+  slugs?: string[],
+): Promise<RecipeProgressRow[]> {
+  return db
+    .select()
+    .from(recipeProgress)
+    .where(
+      slugs
+        ? and(
+            eq(recipeProgress.userId, userId),
+            inArray(recipeProgress.slug, slugs),
+          )
+        : eq(recipeProgress.userId, userId),
+    );
+}
+
+/**
+ * Tick off or untick a step. Ticking an already completed step keeps its
+ * original completion time.
+ */
+export async function setStepCompleted(
+  userId: string,
+  slug: string,
+  headingId: string,
+  completed: boolean,
+): Promise<void> {
+  if (completed) {
+    await db
+      .insert(recipeProgress)
+      .values({ userId, slug, headingId })
+      .onConflictDoNothing();
+    return;
+  }
+
+  await db
+    .delete(recipeProgress)
+    .where(
+      and(
+        eq(recipeProgress.userId, userId),
+        eq(recipeProgress.slug, slug),
+        eq(recipeProgress.headingId, headingId),
+      ),
+    );
+}
@@ -0,0 +1,24 @@
+import { pgTable, primaryKey, text, timestamp } from "drizzle-orm/pg-core";
+import { users } from "@/lib/auth/schema";
+
+// One row per completed step. headingId is the step's heading id on the
+// recipe page (see getRecipeSteps); cookbooks have no rows of their own and
+// roll up the rows of their recipes.
+export const recipeProgress = pgTable(
+  "recipe_progress",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    slug: text("slug").notNull(),
+    headingId: text("heading_id").notNull(),
+    completedAt: timestamp("completed_at").defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.slug, table.headingId] }),
+  ],
+);
+
+// Type exports
+export type RecipeProgressRow = typeof recipeProgress.$inferSelect;
+export type NewRecipeProgressRow = typeof recipeProgress.$inferInsert;
@@ -0,0 +1,74 @@
+import {
+  getCookbookRecipes,
+  isCookbook,
+  type Cookbook,
+  type Recipe,
+} from "@/lib/recipes/data";
+import { getRecipeSteps } from "@/lib/recipes/loader";
+import type { RecipeProgressRow } from "./schema";
+import {
+  getStepKey,
+  summarizeProgress,
+  type ProgressStep,
+  type RecipeProgress,
+} from "./summary";
+
+/**
+ * Checklist steps of a recipe, or of every recipe in a cookbook in order.
+ * A heading repeated within a recipe shares its id, so it is listed once.
+ */
+export async function getProgressSteps(
+  item: Recipe | Cookbook,
+): Promise<ProgressStep[]> {
+  const recipes = isCookbook(item) ? getCookbookRecipes(item) : [item];
+  const steps = await Promise.all(
+    recipes.map(async (recipe) =>
+      (await getRecipeSteps(recipe)).map((step) => ({
+        slug: recipe.slug,
+        id: step.id,
+        title: step.title,
+      })),
+    ),
+  );
+
+  const unique = new Map<string, ProgressStep>();
+  for (const step of steps.flat()) {
+    if (!unique.has(getStepKey(step))) unique.set(getStepKey(step), step);
+  }
+  return Array.from(unique.values());
+}
+
+/**
+ * Progress for each item, from a user's completed rows. Cookbooks roll up the
+ * rows of their recipes.
+ */
+export async function getRecipeProgress(
+  items: (Recipe | Cookbook)[],
+  rows: RecipeProgressRow[],
+): Promise<RecipeProgress[]> {
+  const completedKeys = [...rows]
+    .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime())
+    .map((row) => getStepKey({ slug: row.slug, id: row.headingId }));
+
+  return Promise.all(
+    items.map(async (item) =>
+      summarizeProgress(item.slug, await getProgressSteps(item), completedKeys),
+    ),
+  );
+}
+
+/**
+ * Items a user has ticked off at least one step of: the recipes themselves
+ * and every cookbook that includes one of them, in display order.
+ */
+export function getStartedItems(
+  items: (Recipe | Cookbook)[],
+  rows: Pick<RecipeProgressRow, "slug">[],
+): (Recipe | Cookbook)[] {
+  const started = new Set(rows.map((row) => row.slug));
+  return items.filter((item) =>
+    isCookbook(item)
+      ? item.recipes.some((slug) => started.has(slug))
+      : started.has(item.slug),
+  );
+}
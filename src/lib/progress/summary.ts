@@ -0,0 +1,45 @@
+/** A checklist step: the recipe that owns it and its heading id there */
+export type ProgressStep = {
+  slug: string;
+  id: string;
+  title: string;
+};
+
+/** A user's progress through a recipe, or a cookbook's recipes combined */
+export type RecipeProgress = {
+  slug: string;
+  total: number;
+  /** Completed steps as `getStepKey` keys, in the order they were ticked off */
+  completed: string[];
+  /** Where to pick up: the next open step, null when every step is done */
+  resume: ProgressStep | null;
+};
+
+/** Key of a step across recipes, e.g. `neon-drizzle-setup#step-1-install-packages` */
+export function getStepKey(step: { slug: string; id: string }): string {
+  return `${step.slug}#${step.id}`;
+}
+
+/**
+ * Summarize completed steps against a checklist. Keys of headings that no
+ * longer exist are ignored. The resume step is the first open step after the
+ * most recently ticked one, wrapping around to the first open step.
+ */
+export function summarizeProgress(
+  slug: string,
+  steps: ProgressStep[],
+  completedKeys: string[],
+): RecipeProgress {
+  const stepKeys = steps.map(getStepKey);
+  const completed = completedKeys.filter((key) => stepKeys.includes(key));
+  const done = new Set(completed);
+
+  const lastIndex = completed.length
+    ? stepKeys.indexOf(completed[completed.length - 1])
+    : -1;
+  const isOpen = (step: ProgressStep) => !done.has(getStepKey(step));
+  const resume =
+    steps.slice(lastIndex + 1).find(isOpen) ?? steps.find(isOpen) ?? null;
+
+  return { slug, total: steps.length, completed, resume };
+}
@@ -0,0 +1,329 @@
+import { isAbsolute, relative, resolve, sep } from "path";
+import Markdoc from "@markdoc/markdoc";
+import { createTwoFilesPatch } from "diff";
+import { ELISION_LINE, extractFilePath } from "./file-path";
+import {
+  getPackageName,
+  getRegistryItemName,
+  type RegistryItemJson,
+} from "./registry";
+
+/** A file a recipe declares with a `// path/to/file.ts` comment */
+export type RecipeFile = { path: string; content: string };
+
+/** What applying a recipe's Markdown twin changes in a project */
+export type RecipeChanges = {
+  /** Complete files; a later block for the same path replaces an earlier one */
+  files: RecipeFile[];
+  /** Paths only shown in part (with `// ...` elisions), to edit by hand */
+  excerpts: string[];
+  /** Package specifiers from install commands, e.g. `zod` or `zod@^4` */
+  dependencies: string[];
+  devDependencies: string[];
+  /** Registry items installed with `shadcn add` */
+  registryItems: string[];
+  /** `NAME=value` lines from `.env` blocks */
+  envVars: string[];
+};
+
+/**
+ * How applying a recipe changes a file:
+ * - "create": the file doesn't exist yet
+ * - "update": the file is merged (`package.json`, `.env.example`) or forced
+ * - "unchanged": the file already has the recipe's content
+ * - "conflict": the file exists with other content and is left as is
+ */
+export type FileChangeStatus = "create" | "update" | "unchanged" | "conflict";
+
+export type FileChange = {
+  path: string;
+  status: FileChangeStatus;
+  before: string | null;
+  after: string;
+};
+
+export type ApplyOptions = {
+  /** Title of the recipe, used to label the `.env.example` section */
+  title: string;
+  /** Project root that every file must stay inside (default: the cwd) */
+  root?: string;
+  /** Whether the project keeps its code in `src/` (registry targets) */
+  srcDir: boolean;
+  /** Overwrite existing files that differ instead of reporting a conflict */
+  force?: boolean;
+};
+
+/**
+ * Thrown when a recipe or registry item names a file outside the project.
+ * Paths come from fetched Markdown and JSON, so they are never trusted.
+ */
+export class UnsafeFilePathError extends Error {
+  constructor(filePath: string) {
+    super(`Refusing to write "${filePath}": it is outside the project.`);
+    this.name = "UnsafeFilePathError";
+  }
+}
+
+function assertInsideProject(filePath: string, root: string) {
+  const inRoot = relative(root, resolve(root, filePath));
+  if (
+    isAbsolute(filePath) ||
+    !inRoot ||
+    inRoot === ".." ||
+    inRoot.startsWith(`..${sep}`) ||
+    isAbsolute(inRoot)
+  ) {
+    throw new UnsafeFilePathError(filePath);
+  }
+}
+
+const INSTALL_COMMAND = /^(?:bun add|npm (?:install|i)|pnpm add|yarn add)\s/;
+const DEV_FLAGS = new Set(["-D", "--dev", "--save-dev"]);
+const SHELL_LANGUAGES = new Set(["bash", "sh", "shell"]);
+const ENV_LANGUAGES = new Set(["env", "dotenv"]);
+const ENV_LINE = /^#?\s*([A-Z][A-Z0-9_]*)=/;
+
+function toFileContent(content: string): string {
+  return content.replace(/^\n+/, "").trimEnd() + "\n";
+}
+
+function isEnvFile(filePath: string): boolean {
+  return (filePath.split("/").pop() ?? "").startsWith(".env");
+}
+
+function getEnvName(line: string): string | null {
+  return line.match(ENV_LINE)?.[1] ?? null;
+}
+
+function parseShellBlock(content: string, changes: RecipeChanges) {
+  for (const line of content.split("\n").map((l) => l.trim())) {
+    const args = line.split(/\s+/);
+    if (INSTALL_COMMAND.test(line)) {
+      const dev = args.some((arg) => DEV_FLAGS.has(arg));
+      const specifiers = args.slice(2).filter((arg) => !arg.startsWith("-"));
+      (dev ? changes.devDependencies : changes.dependencies).push(
+        ...specifiers,
+      );
+    } else if (/\bshadcn(?:@\S+)?\s+add\b/.test(line)) {
+      for (const arg of args) {
+        const name = getRegistryItemName(arg);
+        if (name) changes.registryItems.push(name);
+      }
+    }
+  }
+}
+
+/**
+ * Collect what a recipe's Markdown twin (`/recipes/<slug>.md`) asks to change:
+ * code blocks that name a file, `bun add` commands, `shadcn add` registry
+ * items, and `.env` blocks. Cookbook twins cover all of their recipes.
+ */
+export function parseRecipeMarkdown(markdown: string): RecipeChanges {
+  const changes: RecipeChanges = {
+    files: [],
+    excerpts: [],
+    dependencies: [],
+    devDependencies: [],
+    registryItems: [],
+    envVars: [],
+  };
+  const files = new Map<string, string>();
+  const envVars = new Map<string, string>();
+
+  for (const node of Markdoc.parse(markdown).walk()) {
+    if (node.type !== "fence") continue;
+    const language = String(node.attributes.language ?? "");
+    const content = String(node.attributes.content ?? "");
+    const { filePath, displayContent } = extractFilePath(content.trim());
+
+    if (filePath && !isEnvFile(filePath)) {
+      const path = filePath.replace(/^\.\//, "");
+      if (displayContent.split("\n").some((line) => ELISION_LINE.test(line))) {
+        changes.excerpts.push(path);
+      } else {
+        files.set(path, toFileContent(displayContent));
+      }
+    } else if (filePath || ENV_LANGUAGES.has(language)) {
+      for (const line of displayContent.split("\n").map((l) => l.trim())) {
+        const name = getEnvName(line);
+        if (name && !line.startsWith("#") && !envVars.has(name)) {
+          envVars.set(name, line);
+        }
+      }
+    } else if (SHELL_LANGUAGES.has(language)) {
+      parseShellBlock(content, changes);
+    }
+  }
+
+  changes.files = Array.from(files, ([path, content]) => ({ path, content }));
+  changes.excerpts = Array.from(new Set(changes.excerpts));
+  changes.dependencies = Array.from(new Set(changes.dependencies));
+  changes.devDependencies = Array.from(new Set(changes.devDependencies));
+  changes.registryItems = Array.from(new Set(changes.registryItems));
+  changes.envVars = Array.from(envVars.values());
+  return changes;
+}
+
+/**
+ * Where a registry file lands in a project, following shadcn: `~/` is the
+ * project root, and other targets go under `src/` when the project has one.
+ */
+export function resolveRegistryTarget(target: string, srcDir: boolean) {
+  if (target.startsWith("~/")) return target.slice(2);
+  if (!srcDir || target.startsWith("src/")) return target;
+  return `src/${target}`;
+}
+
+function sortKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(record).sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+/**
+ * Add missing dependencies to a `package.json`. Specifiers without a version
+ * are added as `latest`; packages already listed in either section are kept.
+ */
+export function mergePackageJson(
+  content: string,
+  dependencies: string[],
+  devDependencies: string[],
+): string {
+  const pkg = JSON.parse(content) as {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  };
+  const installed = new Set([
+    ...Object.keys(pkg.dependencies ?? {}),
+    ...Object.keys(pkg.devDependencies ?? {}),
+  ]);
+
+  let changed = false;
+  const add = (key: "dependencies" | "devDependencies", specs: string[]) => {
+    for (const spec of specs) {
+      const name = getPackageName(spec);
+      if (installed.has(name)) continue;
+      installed.add(name);
+      pkg[key] = sortKeys({
+        ...pkg[key],
+        [name]: spec.slice(name.length + 1) || "latest",
+      });
+      changed = true;
+    }
+  };
+  add("dependencies", dependencies);
+  add("devDependencies", devDependencies);
+
+  return changed ? JSON.stringify(pkg, null, 2) + "\n" : content;
+}
+
+/**
+ * Append env vars missing from a `.env.example` (set or commented out) in a
+ * section labelled with the recipe title.
+ */
+export function mergeEnvExample(
+  content: string | null,
+  envVars: string[],
+  title: string,
+): string {
+  const existing = new Set(
+    (content ?? "").split("\n").map((line) => getEnvName(line.trim())),
+  );
+  const missing = envVars.filter((line) => !existing.has(getEnvName(line)));
+  if (missing.length === 0) return content ?? "";
+
+  const prefix = content ? content.trimEnd() + "\n\n" : "";
+  return `${prefix}# ${title}\n${missing.join("\n")}\n`;
+}
+
+/**
+ * Plan applying a recipe to a project: its files and registry files are
+ * created, or reported as conflicts when a different file exists (unless
+ * `force`); dependencies are merged into `package.json` and env vars into
+ * `.env.example`. `readFile` returns null for missing files. Throws an
+ * `UnsafeFilePathError`, before reading anything, when a file would land
+ * outside the project root.
+ */
+export async function planApply(
+  changes: RecipeChanges,
+  registryItems: RegistryItemJson[],
+  readFile: (path: string) => Promise<string | null>,
+  options: ApplyOptions,
+): Promise<FileChange[]> {
+  const files = new Map<string, string>();
+  for (const item of registryItems) {
+    for (const file of item.files) {
+      files.set(
+        resolveRegistryTarget(file.target, options.srcDir),
+        toFileContent(file.content),
+      );
+    }
+  }
+  for (const file of changes.files) {
+    files.set(file.path, file.content);
+  }
+  const root = options.root ?? process.cwd();
+  for (const filePath of files.keys()) {
+    assertInsideProject(filePath, root);
+  }
+
+  const plan: FileChange[] = [];
+  for (const [path, after] of files) {
+    const before = await readFile(path);
+    const status: FileChangeStatus =
+      before === null
+        ? "create"
+        : before === after
+          ? "unchanged"
+          : options.force
+            ? "update"
+            : "conflict";
+    plan.push({ path, status, before, after });
+  }
+
+  const dependencies = [
+    ...changes.dependencies,
+    ...registryItems.flatMap((item) => item.dependencies ?? []),
+  ];
+  if (dependencies.length > 0 || changes.devDependencies.length > 0) {
+    const before = await readFile("package.json");
+    if (before !== null) {
+      const after = mergePackageJson(
+        before,
+        dependencies,
+        changes.devDependencies,
+      );
+      plan.push({
+        path: "package.json",
+        status: before === after ? "unchanged" : "update",
+        before,
+        after,
+      });
+    }
+  }
+
+  if (changes.envVars.length > 0) {
+    const before = await readFile(".env.example");
+    const after = mergeEnvExample(before, changes.envVars, options.title);
+    plan.push({
+      path: ".env.example",
+      status:
+        before === null ? "create" : before === after ? "unchanged" : "update",
+      before,
+      after,
+    });
+  }
+
+  return plan;
+}
+
+/** Unified diff of a planned change; empty when the file stays the same */
+export function formatFileChange(change: FileChange): string {
+  if (change.status === "unchanged") return "";
+  return createTwoFilesPatch(
+    change.before === null ? "/dev/null" : `a/${change.path}`,
+    `b/${change.path}`,
+    change.before ?? "",
+    change.after,
+  );
+}
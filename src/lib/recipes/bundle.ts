@@ -0,0 +1,57 @@
+import { getItemBySlug, getRedirectSlug } from "./data";
+import { getBundleRecipes } from "./graph";
+import { loadRecipeSection, slugify } from "./loader";
+import { toMarkdown } from "./to-markdown";
+
+/**
+ * Parse the comma-separated `slugs` query param of a bundle request.
+ * Renamed slugs resolve to their redirect target; slugs that match no recipe
+ * or cookbook are returned in `unknown`.
+ */
+export function parseBundleSlugs(param: string | null): {
+  slugs: string[];
+  unknown: string[];
+} {
+  const slugs: string[] = [];
+  const unknown: string[] = [];
+
+  for (const raw of (param ?? "").split(",")) {
+    const slug = raw.trim();
+    if (!slug) continue;
+    const resolved = getItemBySlug(slug) ? slug : getRedirectSlug(slug);
+    if (!resolved) {
+      unknown.push(slug);
+    } else if (!slugs.includes(resolved)) {
+      slugs.push(resolved);
+    }
+  }
+
+  return { slugs, unknown };
+}
+
+/**
+ * Build a single Markdown document for a selection of recipes and cookbooks,
+ * with a generated table of contents. Custom tags are expanded like the
+ * `.md` twin of a single recipe.
+ */
+export async function loadBundleMarkdown(slugs: string[]): Promise<string> {
+  const selected = slugs
+    .map((slug) => getItemBySlug(slug))
+    .filter((item) => item !== undefined);
+  const recipes = getBundleRecipes(slugs);
+
+  const titles = selected.map((item) => item.title).join(", ");
+  const toc = recipes
+    .map(
+      (recipe, index) =>
+        `${index + 1}. [${recipe.title}](#${slugify(recipe.title)}) - ${recipe.description}`,
+    )
+    .join("\n");
+
+  const header = `# Recipe Bundle: ${titles}\n\nEverything needed to implement ${titles}, in install order. Prerequisites are included, and recipes shared by several cookbooks appear once.\n\n## Contents\n\n${toc}`;
+  const sections = await Promise.all(
+    recipes.map((recipe) => loadRecipeSection(recipe.slug)),
+  );
+
+  return toMarkdown([header, ...sections].join("\n\n---\n\n"));
+}
@@ -0,0 +1,201 @@
+import path from "path";
+import { parse } from "yaml";
+import { z } from "zod";
+import {
+  getAllRecipes,
+  getCookbookRecipes,
+  isCookbook,
+  type Cookbook,
+  type Recipe,
+} from "./data";
+import { getLastCommitDate, RecipeHistoryError } from "./git";
+import { getRecipeSourcePath, readRecipeSource } from "./source";
+
+/** Thrown when a recipe's frontmatter changelog is malformed */
+export class RecipeChangelogError extends Error {
+  constructor(slug: string, message: string) {
+    super(`Invalid changelog for "${slug}": ${message}`);
+    this.name = "RecipeChangelogError";
+  }
+}
+
+const changelogEntrySchema = z.object({
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, "Expected a semver version"),
+  date: z.iso.date(),
+  changes: z.string().min(1),
+});
+
+// Recipes start without a changelog; the first entry comes with the first
+// change worth announcing
+const frontmatterSchema = z.object({
+  changelog: z.array(changelogEntrySchema).default([]),
+});
+
+export type ChangelogEntry = z.infer<typeof changelogEntrySchema> & {
+  /** Recipe the entry belongs to (differs from the item for cookbooks) */
+  slug: string;
+  title: string;
+};
+
+export type RecipeChangelog = {
+  /** Current version, or null for cookbooks and recipes without entries */
+  version: string | null;
+  /**
+   * ISO date (YYYY-MM-DD) of the most recent change: the newest entry, or
+   * the last commit to the source file while there are no entries
+   */
+  updatedAt: string;
+  /** Newest first */
+  entries: ChangelogEntry[];
+};
+
+/**
+ * A feed item: a changelog entry, or the last change of a recipe that has
+ * no entries yet (without version and summary)
+ */
+export type RecipeUpdate = Omit<ChangelogEntry, "version" | "changes"> & {
+  version: string | null;
+  changes: string | null;
+};
+
+function compareVersions(a: string, b: string): number {
+  const [aParts, bParts] = [a, b].map((v) => v.split(".").map(Number));
+  for (let i = 0; i < 3; i++) {
+    if (aParts[i] !== bParts[i]) return aParts[i] - bParts[i];
+  }
+  return 0;
+}
+
+function byDateDescending(a: { date: string }, b: { date: string }): number {
+  return b.date.localeCompare(a.date);
+}
+
+/**
+ * Last commit date of a recipe's source file, or null in deployments without
+ * git history.
+ */
+async function getSourceUpdatedAt(
+  recipe: Recipe,
+  revision?: string,
+): Promise<string | null> {
+  const sourcePath = path.relative(process.cwd(), getRecipeSourcePath(recipe));
+  return getLastCommitDate(sourcePath, revision).catch((error) => {
+    if (error instanceof RecipeHistoryError) return null;
+    throw error;
+  });
+}
+
+/**
+ * Read and validate the `changelog` list from a recipe's frontmatter.
+ * Entries must be newest first with strictly decreasing versions. Without
+ * entries, the recipe is dated by git history; null when that's unavailable.
+ */
+async function loadRecipeChangelog(
+  recipe: Recipe,
+  revision?: string,
+): Promise<RecipeChangelog | null> {
+  const { frontmatter } = await readRecipeSource(recipe, revision);
+  const result = frontmatterSchema.safeParse(parse(frontmatter) ?? {});
+  if (!result.success) {
+    throw new RecipeChangelogError(recipe.slug, z.prettifyError(result.error));
+  }
+
+  const entries = result.data.changelog;
+  for (let i = 1; i < entries.length; i++) {
+    const [newer, older] = [entries[i - 1], entries[i]];
+    if (
+      compareVersions(newer.version, older.version) <= 0 ||
+      newer.date < older.date
+    ) {
+      throw new RecipeChangelogError(
+        recipe.slug,
+        `entries must be listed newest first (${newer.version} before ${older.version})`,
+      );
+    }
+  }
+
+  if (entries.length === 0) {
+    const updatedAt = await getSourceUpdatedAt(recipe, revision);
+    return updatedAt ? { version: null, updatedAt, entries: [] } : null;
+  }
+  return {
+    version: entries[0].version,
+    updatedAt: entries[0].date,
+    entries: entries.map((entry) => ({
+      ...entry,
+      slug: recipe.slug,
+      title: recipe.title,
+    })),
+  };
+}
+
+/**
+ * Version and changelog of a recipe or cookbook, from the `changelog`
+ * frontmatter of its source files, falling back to git history for the
+ * update date. Null when neither dates it.
+ * Cookbooks merge the changelogs of their recipes and are as recent as their
+ * most recently updated recipe.
+ * Pass a resolved git `revision` to read the changelog as of that commit.
+ */
+export async function getChangelog(
+  item: Recipe | Cookbook,
+  revision?: string,
+): Promise<RecipeChangelog | null> {
+  if (!isCookbook(item)) {
+    return loadRecipeChangelog(item, revision);
+  }
+
+  const changelogs = (
+    await Promise.all(
+      getCookbookRecipes(item).map((recipe) =>
+        loadRecipeChangelog(recipe, revision),
+      ),
+    )
+  ).filter((changelog) => changelog !== null);
+  if (changelogs.length === 0) return null;
+
+  return {
+    version: null,
+    updatedAt: changelogs
+      .map((changelog) => changelog.updatedAt)
+      .sort()
+      .at(-1)!,
+    entries: changelogs
+      .flatMap((changelog) => changelog.entries)
+      .sort(byDateDescending),
+  };
+}
+
+/**
+ * Every recipe update, newest first: all changelog entries, plus the last
+ * change in git of each recipe without entries.
+ */
+export async function getRecipeUpdates(): Promise<RecipeUpdate[]> {
+  const updates = await Promise.all(
+    getAllRecipes().map(async (recipe): Promise<RecipeUpdate[]> => {
+      const changelog = await loadRecipeChangelog(recipe);
+      if (!changelog) return [];
+      if (changelog.entries.length > 0) return changelog.entries;
+      return [
+        {
+          slug: recipe.slug,
+          title: recipe.title,
+          date: changelog.updatedAt,
+          version: null,
+          changes: null,
+        },
+      ];
+    }),
+  );
+  return updates.flat().sort(byDateDescending);
+}
+
+/** Format a changelog date (YYYY-MM-DD) for display, e.g. "Oct 19, 2026" */
+export function formatChangelogDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
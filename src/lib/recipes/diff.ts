@@ -0,0 +1,40 @@
+import { createTwoFilesPatch } from "diff";
+import type { Cookbook, Recipe } from "./data";
+import { resolveRevision } from "./git";
+import { loadRecipeMarkdown } from "./loader";
+
+/**
+ * Unified diff of a recipe's Markdown (as served at `/recipes/<slug>.md`)
+ * between two points in the history of `docs/recipes` and `skills/`.
+ * `from` and `to` are git refs or dates (YYYY-MM-DD); `to` defaults to the
+ * current content. Returns an empty string when nothing changed.
+ *
+ * Throws `RecipeHistoryError` when a revision can't be resolved.
+ */
+export async function getRecipeDiff(
+  item: Recipe | Cookbook,
+  from: string,
+  to?: string,
+): Promise<string> {
+  const [fromRevision, toRevision] = await Promise.all([
+    resolveRevision(from),
+    to ? resolveRevision(to) : undefined,
+  ]);
+  const [before, after] = await Promise.all([
+    loadRecipeMarkdown(item, { revision: fromRevision }),
+    loadRecipeMarkdown(item, { revision: toRevision }),
+  ]);
+  if (before === after) {
+    return "";
+  }
+
+  const fileName = `${item.slug}.md`;
+  return createTwoFilesPatch(
+    `a/${fileName}`,
+    `b/${fileName}`,
+    before,
+    after,
+    from,
+    to ?? "current",
+  );
+}
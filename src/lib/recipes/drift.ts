@@ -0,0 +1,187 @@
+import Markdoc, { type Node } from "@markdoc/markdoc";
+import { promises as fs } from "fs";
+import path from "path";
+import { getAllRecipes, type Recipe } from "./data";
+import { ELISION_LINE, extractFilePath } from "./file-path";
+import { loadRecipeContent } from "./loader";
+
+/**
+ * How a recipe code block compares to the file it names:
+ * - "match": the block is the whole file
+ * - "excerpt": every line of the block appears in the file, in order
+ * - "drift": the block has lines the file doesn't
+ * - "missing": no file exists at that path
+ */
+export type CodeBlockStatus = "match" | "excerpt" | "drift" | "missing";
+
+export type CodeBlockCheck = {
+  /** Path named by the block's file path comment */
+  filePath: string;
+  /** Repo-relative file the block was compared against */
+  resolvedPath: string | null;
+  status: CodeBlockStatus;
+  /** Recipe lines with no counterpart in the file */
+  unmatchedLines: string[];
+};
+
+export type RecipeDriftReport = {
+  slug: string;
+  title: string;
+  blocks: CodeBlockCheck[];
+};
+
+const ROOT_DIR = process.cwd();
+
+// Where recipe files live, checked in order
+const SOURCE_ROOTS = ["templates/fullstackrecipe", "."];
+
+function normalizeLines(content: string): string[] {
+  const lines = content.split("\n").map((line) => line.trimEnd());
+  while (lines.length > 0 && lines[0] === "") lines.shift();
+  while (lines.length > 0 && lines.at(-1) === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Lines of `block` that are not part of its longest common subsequence with
+ * `file`. Empty when the block is an in-order excerpt of the file.
+ */
+function getUnmatchedLines(block: string[], file: string[]): string[] {
+  const cols = file.length + 1;
+  const lengths = new Uint32Array((block.length + 1) * cols);
+  for (let i = block.length - 1; i >= 0; i--) {
+    for (let j = file.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        block[i] === file[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const unmatched: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < block.length) {
+    if (j < file.length && block[i] === file[j]) {
+      i++;
+      j++;
+    } else if (
+      j < file.length &&
+      lengths[i * cols + j + 1] >= lengths[(i + 1) * cols + j]
+    ) {
+      j++;
+    } else {
+      unmatched.push(block[i]);
+      i++;
+    }
+  }
+  return unmatched;
+}
+
+async function resolveFile(
+  filePath: string,
+): Promise<{ resolvedPath: string; content: string } | null> {
+  const relativePath = filePath.replace(/^\.\//, "");
+  for (const root of SOURCE_ROOTS) {
+    const resolvedPath = path.join(root, relativePath);
+    try {
+      const content = await fs.readFile(
+        path.join(ROOT_DIR, resolvedPath),
+        "utf-8",
+      );
+      return { resolvedPath, content };
+    } catch {
+      // Try the next root
+    }
+  }
+  return null;
+}
+
+async function checkCodeBlock(
+  filePath: string,
+  code: string,
+): Promise<CodeBlockCheck> {
+  const file = await resolveFile(filePath);
+  if (!file) {
+    return {
+      filePath,
+      resolvedPath: null,
+      status: "missing",
+      unmatchedLines: [],
+    };
+  }
+
+  const blockLines = normalizeLines(code);
+  const fileLines = normalizeLines(file.content);
+  if (blockLines.join("\n") === fileLines.join("\n")) {
+    return {
+      filePath,
+      resolvedPath: file.resolvedPath,
+      status: "match",
+      unmatchedLines: [],
+    };
+  }
+
+  const unmatchedLines = getUnmatchedLines(
+    blockLines.filter((line) => line !== "" && !ELISION_LINE.test(line)),
+    fileLines,
+  );
+  return {
+    filePath,
+    resolvedPath: file.resolvedPath,
+    status: unmatchedLines.length === 0 ? "excerpt" : "drift",
+    unmatchedLines,
+  };
+}
+
+/**
+ * Compare every code block in a recipe that names a file path (the
+ * `// path/to/file.ts` convention rendered by `MarkdownBlock`, or a
+ * `{% file %}` tag) against that
+ * file in `templates/fullstackrecipe`, falling back to this app's sources.
+ */
+export async function checkRecipeDrift(
+  recipe: Recipe,
+): Promise<RecipeDriftReport> {
+  const ast = Markdoc.parse(await loadRecipeContent(recipe));
+  const blocks: CodeBlockCheck[] = [];
+  // Fences wrapped in `{% file %}` take their path from the tag
+  const taggedFences = new Set<Node>();
+
+  for (const node of ast.walk()) {
+    if (node.type === "tag" && node.tag === "file") {
+      for (const fence of node.children.filter((c) => c.type === "fence")) {
+        taggedFences.add(fence);
+        blocks.push(
+          await checkCodeBlock(
+            String(node.attributes.path),
+            String(fence.attributes.content ?? "").trim(),
+          ),
+        );
+      }
+      continue;
+    }
+    if (node.type !== "fence" || taggedFences.has(node)) continue;
+    const { filePath, displayContent } = extractFilePath(
+      String(node.attributes.content ?? "").trim(),
+    );
+    if (filePath) {
+      blocks.push(await checkCodeBlock(filePath, displayContent));
+    }
+  }
+
+  return { slug: recipe.slug, title: recipe.title, blocks };
+}
+
+/** Drift reports for every recipe (cookbooks only inline their recipes) */
+export async function checkAllRecipeDrift(): Promise<RecipeDriftReport[]> {
+  return Promise.all(getAllRecipes().map(checkRecipeDrift));
+}
+
+/** Unique file paths whose code blocks drifted from the source */
+export function getDriftedFiles(report: RecipeDriftReport): string[] {
+  const files = report.blocks
+    .filter((block) => block.status === "drift")
+    .map((block) => block.filePath);
+  return Array.from(new Set(files)).sort();
+}
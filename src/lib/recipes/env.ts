@@ -0,0 +1,174 @@
+import { getItemBySlug, type EnvVarSpec, type Recipe } from "./data";
+import { getBundleRecipes } from "./graph";
+
+/** An env var in a selection's manifest, with the recipe that declares it */
+export type EnvManifestEntry = EnvVarSpec & {
+  recipe: Pick<Recipe, "slug" | "title">;
+};
+
+/** Env vars read by one `configSchema()` in the selection */
+type EnvConfigGroup = {
+  config: string;
+  recipe: Pick<Recipe, "slug" | "title">;
+  vars: EnvManifestEntry[];
+};
+
+const SITE_URL = "https://fullstackrecipes.com";
+const HEADER_RULE = `# ${"=".repeat(77)}`;
+const SECTION_RULE = `# ${"-".repeat(77)}`;
+
+/** Public URL of the env manifest for a selection */
+function getEnvMarkdownUrl(slugs: string[]): string {
+  return `${SITE_URL}/env.md?slugs=${slugs.join(",")}`;
+}
+
+/**
+ * Every env var needed by a selection of recipes and cookbooks, in install
+ * order. Cookbooks and prerequisites are expanded like the bundle; a var
+ * declared by several recipes is listed once, by the first one.
+ */
+export function getEnvManifest(slugs: string[]): EnvManifestEntry[] {
+  const entries = new Map<string, EnvManifestEntry>();
+  for (const recipe of getBundleRecipes(slugs)) {
+    for (const envVar of recipe.envVars ?? []) {
+      if (!entries.has(envVar.name)) {
+        entries.set(envVar.name, {
+          ...envVar,
+          recipe: { slug: recipe.slug, title: recipe.title },
+        });
+      }
+    }
+  }
+  return Array.from(entries.values());
+}
+
+function getTitles(slugs: string[]): string {
+  return slugs
+    .map((slug) => getItemBySlug(slug)?.title)
+    .filter((title) => title !== undefined)
+    .join(", ");
+}
+
+function groupByConfig(entries: EnvManifestEntry[]): EnvConfigGroup[] {
+  const groups = new Map<string, EnvConfigGroup>();
+  for (const entry of entries) {
+    const group = groups.get(entry.config) ?? {
+      config: entry.config,
+      recipe: entry.recipe,
+      vars: [],
+    };
+    group.vars.push(entry);
+    groups.set(entry.config, group);
+  }
+  return Array.from(groups.values());
+}
+
+/** Names of the vars sharing a `oneOf` constraint with `entry` */
+function getOneOfNames(entry: EnvVarSpec, vars: EnvVarSpec[]): string[] {
+  return vars
+    .filter((other) => other.oneOf && other.oneOf === entry.oneOf)
+    .map((other) => other.name);
+}
+
+/** When a config's vars must be set, e.g. "REQUIRED" or "OPTIONAL" */
+function getRequirement(group: EnvConfigGroup): string {
+  const flag = group.vars.find((entry) => entry.flag);
+  if (flag) {
+    return `required only when ${flag.name}=true`;
+  }
+  if (group.vars.every((entry) => entry.optional)) {
+    return "OPTIONAL";
+  }
+  if (group.vars.some((entry) => entry.oneOf)) {
+    return "REQUIRED (set ONE of the following)";
+  }
+  return "REQUIRED";
+}
+
+/** Human-readable requirement of a single var for the manifest table */
+function getVarRequirement(entry: EnvManifestEntry, group: EnvConfigGroup) {
+  const flag = group.vars.find((other) => other.flag);
+  if (entry.flag || entry.optional) return "no";
+  if (entry.oneOf) {
+    const names = getOneOfNames(entry, group.vars).map((name) => `\`${name}\``);
+    return `one of ${names.join(", ")}`;
+  }
+  return flag ? `when \`${flag.name}=true\`` : "yes";
+}
+
+/**
+ * Build a merged `.env.example` for a selection: one commented section per
+ * config module, in install order. Optional vars are commented out so their
+ * defaults apply; other vars get their example value or an empty string.
+ */
+export function buildEnvExample(slugs: string[]): string {
+  const titles = getTitles(slugs);
+  const groups = groupByConfig(getEnvManifest(slugs));
+
+  const lines = [
+    HEADER_RULE,
+    `# Environment variables for: ${titles}`,
+    "# Copy to .env.development (and .env.production) and fill in real values.",
+    `# Generated from ${getEnvMarkdownUrl(slugs)}`,
+    HEADER_RULE,
+  ];
+
+  if (groups.length === 0) {
+    lines.push("", "# The selected recipes read no environment variables.");
+  }
+
+  for (const group of groups) {
+    lines.push(
+      "",
+      SECTION_RULE,
+      `# ${group.config} (${group.recipe.title}) — ${getRequirement(group)}`,
+      SECTION_RULE,
+    );
+    for (const entry of group.vars) {
+      const visibility = entry.scope === "public" ? " (public)" : "";
+      const prefix = entry.optional ? "Optional. " : "";
+      lines.push(`# ${prefix}${entry.description}${visibility}`);
+      const assignment = `${entry.name}="${entry.example ?? ""}"`;
+      lines.push(entry.optional ? `# ${assignment}` : assignment);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * The env manifest as Markdown: a table of every var with its scope,
+ * requirement, and declaring recipe, followed by the merged `.env.example`.
+ */
+export function buildEnvMarkdown(slugs: string[]): string {
+  const titles = getTitles(slugs);
+  const groups = groupByConfig(getEnvManifest(slugs));
+
+  const rows = groups.flatMap((group) =>
+    group.vars.map(
+      (entry) =>
+        `| \`${entry.name}\` | ${entry.config} | ${entry.scope} | ${getVarRequirement(entry, group)} | [${entry.recipe.title}](${SITE_URL}/recipes/${entry.recipe.slug}) |`,
+    ),
+  );
+  const table =
+    rows.length > 0
+      ? [
+          "| Variable | Config | Scope | Required | Recipe |",
+          "| --- | --- | --- | --- | --- |",
+          ...rows,
+        ].join("\n")
+      : "The selected recipes read no environment variables.";
+
+  return `# Environment Variables: ${titles}
+
+Env vars read by the better-env config modules of ${titles}, including prerequisites. \`server\` vars stay on the server; \`public\` vars are inlined into the client bundle.
+
+${table}
+
+## .env.example
+
+\`\`\`dotenv
+${buildEnvExample(slugs).trim()}
+\`\`\`
+`;
+}
@@ -0,0 +1,37 @@
+// Patterns for file path comments at the start of code blocks
+// Matches: // path/to/file.tsx or # path/to/file.py or // .env.local etc.
+const FILE_PATH_PATTERNS = [
+  /^\/\/\s*([^\s]+\.[a-zA-Z0-9]+)\s*\n/, // // path/to/file.ext
+  /^#\s*([^\s]+\.[a-zA-Z0-9]+)\s*\n/, // # path/to/file.ext (for bash, python, yaml)
+];
+
+/**
+ * Detect the file path comment that names the file a code block belongs to,
+ * e.g. `// src/lib/db/client.ts`. Returns the path and the block without it.
+ */
+export function extractFilePath(content: string): {
+  filePath: string | null;
+  displayContent: string;
+} {
+  for (const pattern of FILE_PATH_PATTERNS) {
+    const match = content.match(pattern);
+    if (match?.[1]) {
+      // Validate it looks like a file path (contains / or . or starts with .)
+      const potentialPath = match[1];
+      if (
+        potentialPath.includes("/") ||
+        potentialPath.startsWith(".") ||
+        /^[a-zA-Z0-9_-]+\.[a-zA-Z0-9]+$/.test(potentialPath)
+      ) {
+        return {
+          filePath: potentialPath,
+          displayContent: content.replace(pattern, ""),
+        };
+      }
+    }
+  }
+  return { filePath: null, displayContent: content };
+}
+
+// Lines like `// ...`, `# ...`, or `{/* ... */}` that mark elided code
+export const ELISION_LINE = /^\s*(?:\/\/|#|\{?\/\*)?\s*(?:\.\.\.|…)[^\n]*$/;
@@ -0,0 +1,241 @@
+import { execFile } from "child_process";
+import { existsSync, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// Git's well-known empty tree: the state before the first commit
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+// Branches, tags, SHAs, and suffixes like `HEAD~3` or `main@{1}`
+const REF = /^[\w./~^@{}-]+$/;
+
+/** Thrown when recipe history can't be read from git */
+export class RecipeHistoryError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: "unknown-revision" | "unavailable",
+  ) {
+    super(message);
+    this.name = "RecipeHistoryError";
+  }
+}
+
+/**
+ * Whether this deployment has the repo's git history. Serverless deployments
+ * ship without `.git`, so history features hide themselves there instead of
+ * spawning git on every request just to fail.
+ */
+export function isRecipeHistoryAvailable(): boolean {
+  return existsSync(path.join(process.cwd(), ".git"));
+}
+
+async function git(args: string[]): Promise<string>;
+async function git(args: string[], encoding: "buffer"): Promise<Buffer>;
+async function git(
+  args: string[],
+  encoding: "utf-8" | "buffer" = "utf-8",
+): Promise<string | Buffer> {
+  if (!isRecipeHistoryAvailable()) {
+    throw new RecipeHistoryError(
+      "Recipe history is not available in this deployment",
+      "unavailable",
+    );
+  }
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd: process.cwd(),
+      maxBuffer: 10 * 1024 * 1024,
+      encoding,
+    });
+    return stdout;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOENT") {
+      throw new RecipeHistoryError(
+        "Recipe history is not available: git is not installed",
+        "unavailable",
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve a git ref (branch, tag, SHA) or a date (YYYY-MM-DD) to a commit.
+ * A date resolves to the last commit before that day started, or to the empty
+ * tree when the history starts later.
+ */
+export async function resolveRevision(refOrDate: string): Promise<string> {
+  if (DATE.test(refOrDate)) {
+    const sha = await git([
+      "rev-list",
+      "-1",
+      `--before=${refOrDate}T00:00:00Z`,
+      "HEAD",
+    ]).catch(() => {
+      throw new RecipeHistoryError(
+        "Recipe history is not available in this deployment",
+        "unavailable",
+      );
+    });
+    return sha.trim() || EMPTY_TREE;
+  }
+
+  if (!REF.test(refOrDate) || refOrDate.startsWith("-")) {
+    throw new RecipeHistoryError(
+      `Invalid revision: ${refOrDate}`,
+      "unknown-revision",
+    );
+  }
+  const sha = await git([
+    "rev-parse",
+    "--verify",
+    "--quiet",
+    `${refOrDate}^{commit}`,
+  ]).catch(() => "");
+  if (!sha.trim()) {
+    throw new RecipeHistoryError(
+      `Unknown revision: ${refOrDate}`,
+      "unknown-revision",
+    );
+  }
+  return sha.trim();
+}
+
+/**
+ * Read a repo-relative file as of a resolved revision.
+ * Returns null when the file doesn't exist at that revision.
+ */
+export async function readFileAtRevision(
+  revision: string,
+  filePath: string,
+): Promise<string | null> {
+  try {
+    return await git(["show", `${revision}:${filePath}`]);
+  } catch (error) {
+    if (error instanceof RecipeHistoryError) throw error;
+    return null;
+  }
+}
+
+/**
+ * Read a repo-relative file's bytes as of a resolved revision, for files
+ * that may not be text. Returns null when the file doesn't exist there.
+ */
+export async function readFileBytesAtRevision(
+  revision: string,
+  filePath: string,
+): Promise<Buffer | null> {
+  try {
+    return await git(["show", `${revision}:${filePath}`], "buffer");
+  } catch (error) {
+    if (error instanceof RecipeHistoryError) throw error;
+    return null;
+  }
+}
+
+/**
+ * Day (YYYY-MM-DD) of the last commit that changed a repo-relative file, as
+ * of a resolved revision. Returns null when no commit up to there touched it.
+ */
+export async function getLastCommitDate(
+  filePath: string,
+  revision = "HEAD",
+): Promise<string | null> {
+  try {
+    const date = await git([
+      "log",
+      "-1",
+      "--format=%cs",
+      revision,
+      "--",
+      filePath,
+    ]);
+    return date.trim() || null;
+  } catch (error) {
+    if (error instanceof RecipeHistoryError) throw error;
+    // The empty tree has no commits to log
+    return null;
+  }
+}
+
+/** Whether a resolved revision is a commit, not the empty tree or a blob */
+export async function isCommit(revision: string): Promise<boolean> {
+  const type = await git(["cat-file", "-t", revision]).catch(() => "");
+  return type.trim() === "commit";
+}
+
+/**
+ * Whether content is text, by git's rule: no NUL byte in the first 8000
+ * bytes. Binary files can't be merged line by line.
+ */
+export function isTextContent(content: Buffer): boolean {
+  return !content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Repo-relative paths under `dir` that differ between two resolved revisions,
+ * including files added or deleted in between.
+ */
+export async function getChangedFiles(
+  from: string,
+  to: string,
+  dir: string,
+): Promise<string[]> {
+  const output = await git([
+    "diff",
+    "--name-only",
+    "--no-renames",
+    "-z",
+    from,
+    to,
+    "--",
+    dir,
+  ]);
+  return output.split("\0").filter(Boolean);
+}
+
+/**
+ * Three-way merge of text file contents with `git merge-file`. Overlapping
+ * changes are kept as diff3 conflict markers named after `labels` (ours,
+ * base, theirs), like a conflicted `git merge`. Contents stay bytes
+ * throughout, so files that aren't UTF-8 merge unchanged.
+ */
+export async function mergeFileContents(
+  ours: Buffer,
+  base: Buffer,
+  theirs: Buffer,
+  labels: [string, string, string],
+): Promise<{ content: Buffer; conflicts: number }> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "merge-file-"));
+  try {
+    const files = ["ours", "base", "theirs"].map((name) =>
+      path.join(dir, name),
+    );
+    await Promise.all(
+      [ours, base, theirs].map((content, i) => fs.writeFile(files[i], content)),
+    );
+    const args = ["merge-file", "-p", "--diff3"];
+    for (const label of labels) args.push("-L", label);
+
+    try {
+      return {
+        content: await git([...args, ...files], "buffer"),
+        conflicts: 0,
+      };
+    } catch (error) {
+      // merge-file exits with the number of conflicts
+      const { code, stdout } = error as { code?: unknown; stdout?: Buffer };
+      if (typeof code === "number" && code > 0 && stdout !== undefined) {
+        return { content: stdout, conflicts: code };
+      }
+      throw error;
+    }
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "bun:test";
+import { Settings } from "lucide-react";
+import type { Recipe, Cookbook } from "./data";
+import {
+  createRecipeGraph,
+  getInstallPlan,
+  getPrerequisites,
+  RecipeGraphError,
+} from "./graph";
+
+function recipe(slug: string, requires?: string[]): Recipe {
+  return {
+    slug,
+    title: slug,
+    description: "",
+    tags: ["Setup Instructions"],
+    icon: Settings,
+    type: "setup",
+    requires,
+    previewCode: "",
+  };
+}
+
+function cookbook(
+  slug: string,
+  recipes: string[],
+  requires?: string[],
+): Cookbook {
+  return { ...recipe(slug, requires), isCookbook: true, recipes };
+}
+
+const slugs = (items: { slug: string }[]) => items.map((item) => item.slug);
+
+describe("createRecipeGraph", () => {
+  describe("validation", () => {
+    it("throws for unknown required slugs", () => {
+      expect(() => createRecipeGraph([recipe("a", ["missing"])])).toThrow(
+        RecipeGraphError,
+      );
+    });
+
+    it("throws for unknown cookbook recipes", () => {
+      expect(() => createRecipeGraph([cookbook("c", ["missing"])])).toThrow(
+        'Unknown slug "missing" referenced by "c"',
+      );
+    });
+
+    it("throws for requires cycles", () => {
+      expect(() =>
+        createRecipeGraph([recipe("a", ["b"]), recipe("b", ["a"])]),
+      ).toThrow("Recipe dependency cycle: a -> b -> a");
+    });
+
+    it("throws when a recipe requires a cookbook that includes it", () => {
+      expect(() =>
+        createRecipeGraph([recipe("a", ["c"]), cookbook("c", ["a"])]),
+      ).toThrow("Recipe dependency cycle: a -> c -> a");
+    });
+  });
+
+  describe("install plan", () => {
+    const graph = createRecipeGraph([
+      recipe("base"),
+      recipe("db", ["base"]),
+      recipe("ui", ["base"]),
+      recipe("auth", ["db"]),
+      recipe("emails", ["auth"]),
+      cookbook("auth-cookbook", ["auth", "emails"], ["ui"]),
+      recipe("chat", ["auth-cookbook"]),
+    ]);
+
+    it("resolves transitive prerequisites before the selected item", () => {
+      expect(slugs(graph.getInstallPlan(["emails"]))).toEqual([
+        "base",
+        "db",
+        "auth",
+        "emails",
+      ]);
+    });
+
+    it("keeps required cookbooks as a single step", () => {
+      expect(slugs(graph.getInstallPlan(["chat"]))).toEqual([
+        "base",
+        "db",
+        "ui",
+        "auth-cookbook",
+        "chat",
+      ]);
+    });
+
+    it("does not repeat recipes covered by a selected cookbook", () => {
+      expect(slugs(graph.getInstallPlan(["auth", "auth-cookbook"]))).toEqual([
+        "base",
+        "db",
+        "ui",
+        "auth-cookbook",
+      ]);
+    });
+
+    it("excludes the item itself from its prerequisites", () => {
+      expect(slugs(graph.getPrerequisites(recipe("base")))).toEqual([]);
+      expect(
+        slugs(graph.getPrerequisites(recipe("chat", ["auth-cookbook"]))),
+      ).toEqual(["base", "db", "ui", "auth-cookbook"]);
+    });
+  });
+});
+
+describe("recipe graph from data.tsx", () => {
+  it("pulls auth, nuqs, and workflow setup into the AI Chat plan in order", () => {
+    const plan = slugs(getInstallPlan(["ai-chat"]));
+
+    expect(plan.at(-1)).toBe("ai-chat");
+    for (const slug of ["authentication", "nuqs-setup", "workflow-setup"]) {
+      expect(plan).toContain(slug);
+    }
+    expect(plan.indexOf("neon-drizzle-setup")).toBeLessThan(
+      plan.indexOf("authentication"),
+    );
+    expect(plan.indexOf("pino-logging-setup")).toBeLessThan(
+      plan.indexOf("workflow-setup"),
+    );
+  });
+
+  it("keeps the agent workflow prerequisites for the custom durable agent", () => {
+    const prerequisites = slugs(
+      getPrerequisites(getInstallPlan(["custom-durable-agent"]).at(-1)!),
+    );
+
+    for (const slug of [
+      "ai-chat-persistence",
+      "pino-logging-setup",
+      "workflow-setup",
+      "resumable-ai-streams",
+    ]) {
+      expect(prerequisites).toContain(slug);
+    }
+    expect(prerequisites).not.toContain("ai-agent-workflow");
+  });
+
+  it("lists prerequisites without the item itself", () => {
+    const prerequisites = slugs(
+      getPrerequisites(getInstallPlan(["drizzle-queries"]).at(-1)!),
+    );
+
+    expect(prerequisites).toEqual([
+      "config-schema-setup",
+      "neon-drizzle-setup",
+    ]);
+  });
+});
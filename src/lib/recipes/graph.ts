@@ -0,0 +1,205 @@
+import {
+  getAllItems,
+  getRecipeBySlug,
+  isCookbook,
+  type Recipe,
+  type Cookbook,
+} from "./data";
+
+type Item = Recipe | Cookbook;
+
+/** Thrown when `requires`/`recipes` metadata references unknown slugs or forms a cycle */
+export class RecipeGraphError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecipeGraphError";
+  }
+}
+
+export type RecipeGraph = {
+  /**
+   * Ordered install plan for a selection of slugs: every transitive
+   * prerequisite followed by the selected items, topologically sorted.
+   * Cookbooks are kept as a single step; recipes they already include are
+   * not repeated as separate steps.
+   */
+  getInstallPlan: (slugs: string[]) => Item[];
+  /**
+   * Transitive prerequisites of an item in install order (excluding the item).
+   * Also accepts cookbooks that aren't part of the graph, such as user-defined
+   * ones, as long as their recipes are.
+   */
+  getPrerequisites: (item: Item) => Item[];
+};
+
+/**
+ * Build a dependency graph over recipes and cookbooks.
+ *
+ * Edges come from `requires` and, for cookbooks, from their included recipes
+ * (a cookbook depends on its recipes and everything they require). Throws a
+ * `RecipeGraphError` for unknown slugs or dependency cycles.
+ */
+export function createRecipeGraph(items: Item[]): RecipeGraph {
+  const bySlug = new Map(items.map((item) => [item.slug, item]));
+  // Display order in data.tsx breaks ties so plans read like the site
+  const displayOrder = new Map(items.map((item, index) => [item.slug, index]));
+  const byDisplayOrder = (a: string, b: string) =>
+    displayOrder.get(a)! - displayOrder.get(b)!;
+
+  function getItem(slug: string, referencedBy?: string): Item {
+    const item = bySlug.get(slug);
+    if (!item) {
+      throw new RecipeGraphError(
+        referencedBy
+          ? `Unknown slug "${slug}" referenced by "${referencedBy}"`
+          : `Unknown slug "${slug}"`,
+      );
+    }
+    return item;
+  }
+
+  function getEdges(item: Item): string[] {
+    const edges = [...(item.requires ?? [])];
+    if (isCookbook(item)) {
+      edges.push(...item.recipes);
+    }
+    return edges;
+  }
+
+  // Validate every reference and reject cycles up front
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  function checkCycles(item: Item) {
+    if (visited.has(item.slug)) return;
+    const cycleStart = stack.indexOf(item.slug);
+    if (cycleStart !== -1) {
+      const cycle = [...stack.slice(cycleStart), item.slug].join(" -> ");
+      throw new RecipeGraphError(`Recipe dependency cycle: ${cycle}`);
+    }
+    stack.push(item.slug);
+    for (const slug of getEdges(item)) {
+      checkCycles(getItem(slug, item.slug));
+    }
+    stack.pop();
+    visited.add(item.slug);
+  }
+
+  for (const item of items) {
+    checkCycles(item);
+  }
+
+  /** Everything reachable from the given slugs via `requires` and cookbook recipes */
+  function getClosure(slugs: string[]): Set<string> {
+    const closure = new Set<string>();
+    const queue = [...slugs];
+    while (queue.length > 0) {
+      const slug = queue.shift()!;
+      if (closure.has(slug)) continue;
+      closure.add(slug);
+      queue.push(...getEdges(getItem(slug)));
+    }
+    return closure;
+  }
+
+  function getInstallPlan(slugs: string[]): Item[] {
+    const closure = getClosure(slugs);
+
+    // Recipes included in a cookbook that is part of the plan are covered by
+    // that cookbook's step. The first cookbook in display order claims them.
+    const coveredBy = new Map<string, string>();
+    for (const slug of Array.from(closure).sort(byDisplayOrder)) {
+      const item = getItem(slug);
+      if (!isCookbook(item)) continue;
+      for (const recipeSlug of item.recipes) {
+        if (!coveredBy.has(recipeSlug)) {
+          coveredBy.set(recipeSlug, slug);
+        }
+      }
+    }
+
+    const stepOf = (slug: string) => coveredBy.get(slug) ?? slug;
+
+    function getStepDependencies(slug: string): string[] {
+      const item = getItem(slug);
+      const members = isCookbook(item) ? item.recipes : [];
+      const requires = [item, ...members.map((m) => getItem(m))].flatMap(
+        (i) => i.requires ?? [],
+      );
+      const steps = new Set(requires.map(stepOf));
+      steps.delete(slug);
+      return Array.from(steps).sort(byDisplayOrder);
+    }
+
+    const plan: Item[] = [];
+    const done = new Set<string>();
+    const visiting: string[] = [];
+
+    function visit(slug: string) {
+      if (done.has(slug)) return;
+      if (visiting.includes(slug)) {
+        const cycle = [...visiting.slice(visiting.indexOf(slug)), slug];
+        throw new RecipeGraphError(
+          `Recipe install plan cycle: ${cycle.join(" -> ")}`,
+        );
+      }
+      visiting.push(slug);
+      for (const dependency of getStepDependencies(slug)) {
+        visit(dependency);
+      }
+      visiting.pop();
+      done.add(slug);
+      plan.push(getItem(slug));
+    }
+
+    const steps = new Set(Array.from(closure).map(stepOf));
+    for (const slug of Array.from(steps).sort(byDisplayOrder)) {
+      visit(slug);
+    }
+    return plan;
+  }
+
+  function getPrerequisites(item: Item): Item[] {
+    // User-defined cookbooks aren't in the graph: plan their recipes instead
+    if (!bySlug.has(item.slug) && isCookbook(item)) {
+      const members = new Set(item.recipes);
+      return getInstallPlan([...(item.requires ?? []), ...item.recipes]).filter(
+        (i) => !members.has(i.slug),
+      );
+    }
+    return getInstallPlan([item.slug]).filter((i) => i.slug !== item.slug);
+  }
+
+  // Every single-item plan must resolve, so broken metadata fails on load
+  for (const item of items) {
+    getInstallPlan([item.slug]);
+  }
+
+  return { getInstallPlan, getPrerequisites };
+}
+
+const recipeGraph = createRecipeGraph(getAllItems());
+
+export const getInstallPlan = recipeGraph.getInstallPlan;
+export const getPrerequisites = recipeGraph.getPrerequisites;
+
+/**
+ * Every recipe needed for a selection, in install order: prerequisites first,
+ * cookbooks expanded into their recipes, and recipes shared by several
+ * cookbooks included once.
+ */
+export function getBundleRecipes(slugs: string[]): Recipe[] {
+  const recipes = new Map<string, Recipe>();
+
+  for (const item of getInstallPlan(slugs)) {
+    const recipeSlugs = isCookbook(item) ? item.recipes : [item.slug];
+    for (const slug of recipeSlugs) {
+      const recipe = getRecipeBySlug(slug);
+      if (recipe && !recipes.has(slug)) {
+        recipes.set(slug, recipe);
+      }
+    }
+  }
+
+  return Array.from(recipes.values());
+}
@@ -0,0 +1,110 @@
+import { getAllItems } from "./data";
+import { loadRecipeMarkdown } from "./loader";
+import { estimateTokens } from "./tokens";
+
+const SITE_URL = "https://fullstackrecipes.com";
+
+export type LlmsFullSection = {
+  slug: string;
+  title: string;
+  /** Estimated tokens of the section's Markdown */
+  tokens: number;
+};
+
+export type LlmsFull = {
+  content: string;
+  sections: LlmsFullSection[];
+  /** Estimated tokens of the whole document */
+  tokens: number;
+};
+
+/** Every tag used in the catalog, e.g. "Skills" or "Cookbooks" */
+function getAllTags(): string[] {
+  return Array.from(new Set(getAllItems().flatMap((item) => item.tags)));
+}
+
+/**
+ * Parse the comma-separated `tags` query param of `/llms-full.txt`, matching
+ * catalog tags case-insensitively. Tags that match none are returned in
+ * `unknown`.
+ */
+export function parseTags(param: string | null): {
+  tags: string[];
+  unknown: string[];
+} {
+  const allTags = getAllTags();
+  const tags: string[] = [];
+  const unknown: string[] = [];
+
+  for (const raw of (param ?? "").split(",")) {
+    const value = raw.trim();
+    if (!value) continue;
+    const tag = allTags.find((t) => t.toLowerCase() === value.toLowerCase());
+    if (!tag) {
+      unknown.push(value);
+    } else if (!tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+
+  return { tags, unknown };
+}
+
+function formatTokens(tokens: number): string {
+  return `~${tokens.toLocaleString("en-US")} tokens`;
+}
+
+/**
+ * Build `/llms-full.txt`: the expanded Markdown of every setup recipe,
+ * cookbook, and skill in display order, for agents that can't browse. With
+ * `tags`, only items with at least one of them are included. Each registry
+ * item's source is inlined the first time it appears, so cookbooks don't
+ * repeat the code of the recipes before them.
+ */
+export async function buildLlmsFull(tags: string[] = []): Promise<LlmsFull> {
+  const items = getAllItems().filter(
+    (item) => tags.length === 0 || item.tags.some((tag) => tags.includes(tag)),
+  );
+
+  // Sequential, so registry code lands in the first section that uses it
+  const inlinedRegistryItems = new Set<string>();
+  const sections: (LlmsFullSection & { markdown: string })[] = [];
+  for (const item of items) {
+    const markdown = await loadRecipeMarkdown(item, { inlinedRegistryItems });
+    sections.push({
+      slug: item.slug,
+      title: item.title,
+      tokens: estimateTokens(markdown),
+      markdown,
+    });
+  }
+
+  const filter = tags.length > 0 ? ` tagged ${tags.join(", ")}` : "";
+  const contents = sections
+    .map(
+      (section, index) =>
+        `${index + 1}. [${section.title}](${SITE_URL}/recipes/${section.slug}.md) - ${formatTokens(section.tokens)}`,
+    )
+    .join("\n");
+  const header = `# fullstackrecipes: full content
+
+> Every setup recipe, cookbook, and skill${filter} from ${SITE_URL}, expanded to Markdown in display order. Registry source code is included the first time it appears. Token counts are estimates.
+
+## Contents
+
+${contents}`;
+
+  const content = [header, ...sections.map((section) => section.markdown)]
+    .join("\n\n---\n\n")
+    .concat("\n");
+
+  return {
+    content,
+    sections: sections.map(({ slug, title, tokens }) => ({
+      slug,
+      title,
+      tokens,
+    })),
+    tokens: estimateTokens(content),
+  };
+}
@@ -1,15 +1,25 @@
-import fs from "fs/promises";
-import path from "path";
 import {
   isCookbook,
   isSkillRecipe,
   getRecipeBySlug,
   getCookbookRecipes,
-  getRequiredItems,
   getSkillsInstallCommandForSlugs,
   type Recipe,
   type Cookbook,
 } from "./data";
+import {
+  getChangelog,
+  RecipeChangelogError,
+  type RecipeChangelog,
+} from "./changelog";
+import { getPrerequisites } from "./graph";
+import { readRecipeSource } from "./source";
+import { type Node } from "@markdoc/markdoc";
+import {
+  getStepHeading,
+  parseRecipeContent,
+  type MarkdownOptions,
+} from "./tags";
 import { toMarkdown } from "./to-markdown";
 
 export type TocItem = {
@@ -18,7 +28,8 @@ export type TocItem = {
   level: number;
 };
 
-function slugify(text: string): string {
+/** Heading id slug, matching the ids rendered by `MarkdownBlock` */
+export function slugify(text: string): string {
   return text
     .toLowerCase()
     .replace(/[^a-z0-9\s-]/g, "")
@@ -37,8 +48,39 @@ export function getCookbookTableOfContents(cookbook: Cookbook): TocItem[] {
   }));
 }
 
-const RECIPES_DIR = path.join(process.cwd(), "docs", "recipes");
-const SKILLS_DIR = path.join(process.cwd(), "skills");
+function getHeadingText(node: Node): string {
+  if (node.type === "text" || node.type === "code") {
+    return String(node.attributes.content ?? "");
+  }
+  return node.children.map(getHeadingText).join("");
+}
+
+/**
+ * The steps of recipe content: its `###` headings and `{% step %}` tags, with
+ * the ids `MarkdownBlock` renders for them. Progress checklists are keyed by
+ * these ids.
+ */
+export function getContentSteps(content: string): TocItem[] {
+  const ast = parseRecipeContent(content);
+  const steps: TocItem[] = [];
+  for (const node of ast.walk()) {
+    const title =
+      node.type === "heading" && node.attributes.level === 3
+        ? getHeadingText(node).trim()
+        : node.type === "tag" && node.tag === "step"
+          ? getStepHeading(node)
+          : null;
+    if (title) {
+      steps.push({ id: slugify(title), title, level: 3 });
+    }
+  }
+  return steps;
+}
+
+/** The steps of a recipe page, see `getContentSteps` */
+export async function getRecipeSteps(recipe: Recipe): Promise<TocItem[]> {
+  return getContentSteps(await loadRecipeContent(recipe));
+}
 
 /**
  * Read the authored body of a skill from its `skills/<slug>/SKILL.md`
@@ -46,47 +88,72 @@ const SKILLS_DIR = path.join(process.cwd(), "skills");
  * description, and Prerequisites block (the loader regenerates those from
  * metadata). Returns only the how-to body.
  */
-async function loadSkillBody(slug: string): Promise<string> {
-  const filePath = path.join(SKILLS_DIR, slug, "SKILL.md");
-  const raw = await fs.readFile(filePath, "utf-8");
-
-  // Strip YAML frontmatter
-  const withoutFrontmatter = raw.replace(/^---\n[\s\S]*?\n---\n+/, "");
+async function loadSkillBody(
+  recipe: Recipe,
+  revision?: string,
+): Promise<string> {
+  const { body } = await readRecipeSource(recipe, revision);
 
   // Drop everything up to the first body section heading. Authored skills lead
   // with `# Title`, the description, and a `## Prerequisites` list — all of
   // which the loader re-derives from metadata.
-  const bodyStart = withoutFrontmatter.search(/^### /m);
+  const bodyStart = body.search(/^### /m);
   if (bodyStart === -1) {
     // No subsection headings: fall back to content after the first H1 block.
-    return withoutFrontmatter.replace(/^#[^\n]*\n+/, "").trim();
+    return body.replace(/^#[^\n]*\n+/, "").trim();
   }
-  return withoutFrontmatter.slice(bodyStart).trim();
+  return body.slice(bodyStart).trim();
+}
+
+/** A cookbook's note on one of its recipes, as a blockquote */
+function getNoteBlock(note: string | undefined): string {
+  if (!note) return "";
+  const quoted = note
+    .trim()
+    .split("\n")
+    .map((line) => `> ${line}`.trimEnd())
+    .join("\n");
+  return `> **Note:**\n>\n${quoted}\n\n`;
 }
 
-/** Load raw Markdoc content (includes custom tags like {% registry %}) */
+/**
+ * Load a recipe as an `##` section of a combined document (cookbooks and
+ * bundles). Setup recipes inline their full content; skill recipes render as a
+ * compact install section (title, motivation, install command) so the reader
+ * ends up installing them as skills rather than re-teaching their content.
+ * A cookbook's `note` on the recipe is quoted after its description.
+ */
+export async function loadRecipeSection(
+  slug: string,
+  revision?: string,
+  note?: string,
+): Promise<string> {
+  const recipe = getRecipeBySlug(slug);
+  if (!recipe) {
+    throw new Error(`Recipe not found: ${slug}`);
+  }
+  if (isSkillRecipe(recipe)) {
+    const command = getSkillsInstallCommandForSlugs([slug]);
+    return `## ${recipe.title}\n\n${recipe.description}\n\n${getNoteBlock(note)}Install this skill so your agent retains these patterns for day-to-day work:\n\n\`\`\`bash\n${command}\n\`\`\``;
+  }
+  const { body } = await readRecipeSource(recipe, revision);
+  return `## ${recipe.title}\n\n${recipe.description}\n\n${getNoteBlock(note)}${body}`;
+}
+
+/**
+ * Load raw Markdoc content (includes custom tags like {% registry %}).
+ * Pass a resolved git `revision` to load the content as of that commit.
+ */
 export async function loadRecipeContent(
   item: Recipe | Cookbook,
+  revision?: string,
 ): Promise<string> {
   if (isCookbook(item)) {
-    // Cookbooks combine their recipes in order. Setup recipes inline their full
-    // content; skill recipes render as a compact install section (title,
-    // motivation, install command) so the cookbook ends up installing them as
-    // skills rather than re-teaching their content.
+    // Cookbooks combine their recipes in order
     const contents = await Promise.all(
-      item.recipes.map(async (slug) => {
-        const recipe = getRecipeBySlug(slug);
-        if (!recipe) {
-          throw new Error(`Recipe not found: ${slug}`);
-        }
-        if (isSkillRecipe(recipe)) {
-          const command = getSkillsInstallCommandForSlugs([slug]);
-          return `## ${recipe.title}\n\n${recipe.description}\n\nInstall this skill so your agent retains these patterns for day-to-day work:\n\n\`\`\`bash\n${command}\n\`\`\``;
-        }
-        const filePath = path.join(RECIPES_DIR, `${slug}.md`);
-        const content = await fs.readFile(filePath, "utf-8");
-        return `## ${recipe.title}\n\n${recipe.description}\n\n${content}`;
-      }),
+      item.recipes.map((slug) =>
+        loadRecipeSection(slug, revision, item.recipeNotes?.[slug]),
+      ),
     );
     return contents.join("\n\n---\n\n");
   }
@@ -94,41 +161,89 @@ export async function loadRecipeContent(
   // Skills are authored under skills/ and read from there. Setup recipes
   // live in docs/recipes.
   if (isSkillRecipe(item)) {
-    return loadSkillBody(item.slug);
+    return loadSkillBody(item, revision);
   }
 
-  const filePath = path.join(RECIPES_DIR, `${item.slug}.md`);
-  return fs.readFile(filePath, "utf-8");
+  const { body } = await readRecipeSource(item, revision);
+  return body;
 }
 
 /**
- * Build the prerequisites section from an item's `requires` metadata.
+ * Build the prerequisites section from the transitive closure of an item's
+ * `requires` metadata, listed in install order.
  * Returns an empty string when the item has no prerequisites.
  */
 function getPrerequisitesSection(item: Recipe | Cookbook): string {
-  const requiredItems = getRequiredItems(item);
+  const requiredItems = getPrerequisites(item);
   if (requiredItems.length === 0) {
     return "";
   }
-  const list = requiredItems.map((r) => `- ${r.title}`).join("\n");
-  return `## Prerequisites\n\nComplete these setup recipes first:\n\n${list}\n\n`;
+  const list = requiredItems
+    .map(
+      (r, index) =>
+        `${index + 1}. [${r.title}](https://fullstackrecipes.com/recipes/${r.slug}.md)`,
+    )
+    .join("\n");
+  return `## Prerequisites\n\nComplete these setup recipes first, in order:\n\n${list}\n\n`;
+}
+
+const CHANGELOG_HEADER_ENTRIES = 5;
+
+/**
+ * Build the version header: current version, last update, and the most recent
+ * changelog entries, so agents can tell whether an applied recipe changed.
+ */
+function getChangelogSection(changelog: RecipeChangelog): string {
+  const status = changelog.version
+    ? `**Version ${changelog.version}** · Last updated ${changelog.updatedAt}`
+    : `Last updated ${changelog.updatedAt}`;
+  if (changelog.entries.length === 0) return `> ${status}\n\n`;
+  const entries = changelog.entries
+    .slice(0, CHANGELOG_HEADER_ENTRIES)
+    .map((entry) => {
+      const label = changelog.version
+        ? entry.version
+        : `${entry.title} ${entry.version}`;
+      return `> - **${label}** (${entry.date}): ${entry.changes}`;
+    })
+    .join("\n");
+  return `> ${status}\n>\n> Changelog:\n>\n${entries}\n\n`;
 }
 
 /**
  * Load recipe content transformed to plain markdown.
  * Custom tags are expanded to their full markdown representation.
  * Use this for MCP server, copy buttons, and agent consumption.
- * Prepends title, description, and prerequisites for standalone markdown output.
+ * Prepends title, description, version/changelog, and prerequisites for
+ * standalone markdown output.
+ *
+ * With a resolved git `revision`, recipe sources are read as of that commit
+ * (metadata and registry items stay current). The version header is omitted
+ * when nothing dates the recipe at that commit, or its changelog doesn't parse.
+ * `inlinedRegistryItems` is passed on to `toMarkdown`.
  */
 export async function loadRecipeMarkdown(
   item: Recipe | Cookbook,
+  options: { revision?: string } & MarkdownOptions = {},
 ): Promise<string> {
-  const rawContent = await loadRecipeContent(item);
-  const expandedContent = await toMarkdown(rawContent);
+  const { revision, inlinedRegistryItems } = options;
+  const [rawContent, changelog] = await Promise.all([
+    loadRecipeContent(item, revision),
+    revision
+      ? getChangelog(item, revision).catch((error) => {
+          if (error instanceof RecipeChangelogError) return null;
+          throw error;
+        })
+      : getChangelog(item),
+  ]);
+  const expandedContent = await toMarkdown(rawContent, {
+    inlinedRegistryItems,
+  });
 
-  // Prepend title, description, and prerequisites for markdown output
+  // Prepend title, description, version, and prerequisites for markdown output
   // (not needed for HTML rendering since the page displays these separately)
   const header = `# ${item.title}\n\n${item.description}\n\n`;
+  const version = changelog ? getChangelogSection(changelog) : "";
   const prerequisites = getPrerequisitesSection(item);
-  return header + prerequisites + expandedContent;
+  return header + version + prerequisites + expandedContent;
 }
@@ -0,0 +1,198 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  getAllItems,
+  getItemBySlug,
+  getRedirectSlug,
+  getRegistryItems,
+  isCookbook,
+  type Cookbook,
+  type Recipe,
+} from "./data";
+import { loadRecipeMarkdown } from "./loader";
+import { loadRegistryItem } from "./registry";
+import { searchRecipes } from "./search";
+
+const MARKDOWN_MIME_TYPE = "text/markdown";
+
+function getRecipeUri(slug: string): string {
+  return `recipe://${slug}`;
+}
+
+function resolveItem(slug: string): Recipe | Cookbook | undefined {
+  const redirectSlug = getRedirectSlug(slug);
+  return getItemBySlug(slug) ?? getItemBySlug(redirectSlug ?? "");
+}
+
+function summarize(item: Recipe | Cookbook) {
+  return {
+    slug: item.slug,
+    title: item.title,
+    description: item.description,
+    kind: isCookbook(item) ? "cookbook" : item.type,
+    tags: item.tags,
+    requires: item.requires ?? [],
+    registryDeps: item.registryDeps ?? [],
+    ...(isCookbook(item) && { recipes: item.recipes }),
+    uri: getRecipeUri(item.slug),
+  };
+}
+
+function text(value: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text:
+          typeof value === "string" ? value : JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+function toolError(message: string) {
+  return { ...text(message), isError: true };
+}
+
+/**
+ * Register the fullstackrecipes tools and `recipe://<slug>` resources on an
+ * MCP server. Content comes from the same sources as the `.md` twins:
+ * `getAllItems` metadata, `loadRecipeMarkdown`, and the built `public/r`
+ * registry.
+ */
+export function registerRecipeMcp(server: McpServer) {
+  server.registerTool(
+    "list_recipes",
+    {
+      title: "List recipes",
+      description:
+        "List every fullstackrecipes recipe, cookbook, and skill with its slug, description, tags, and prerequisites.",
+      inputSchema: {
+        tag: z
+          .string()
+          .optional()
+          .describe('Only include items with this tag, e.g. "AI" or "Skills"'),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ tag }) => {
+      const items = getAllItems().filter(
+        (item) =>
+          !tag || item.tags.some((t) => t.toLowerCase() === tag.toLowerCase()),
+      );
+      return text(items.map(summarize));
+    },
+  );
+
+  server.registerTool(
+    "get_recipe",
+    {
+      title: "Get recipe",
+      description:
+        "Get the full Markdown of a recipe or cookbook by slug, including prerequisites, steps, code, and registry source. Follow it step by step.",
+      inputSchema: {
+        slug: z.string().describe('Recipe or cookbook slug, e.g. "ai-chat"'),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ slug }) => {
+      const item = resolveItem(slug);
+      if (!item) {
+        return toolError(
+          `Recipe not found: ${slug}. Use list_recipes to see available slugs.`,
+        );
+      }
+      return text(await loadRecipeMarkdown(item));
+    },
+  );
+
+  server.registerTool(
+    "search_recipes",
+    {
+      title: "Search recipes",
+      description:
+        "Full-text search over recipe content, including code. Use it to find which recipe covers an API, file, or package.",
+      inputSchema: {
+        query: z.string().min(1).describe("Search terms"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .optional()
+          .describe("Maximum number of results (default 20)"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ query, limit }) => {
+      return text(await searchRecipes(query, { limit }));
+    },
+  );
+
+  server.registerTool(
+    "get_registry_item",
+    {
+      title: "Get registry item",
+      description:
+        "Get a shadcn registry item by name, including its dependencies and the full source of every file with its target path.",
+      inputSchema: {
+        name: z.string().describe('Registry item name, e.g. "assert"'),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ name }) => {
+      const item = await loadRegistryItem(name);
+      if (!item) {
+        const names = getRegistryItems().map((i) => i.name);
+        return toolError(
+          `Registry item not found: ${name}. Available items: ${names.join(", ")}`,
+        );
+      }
+      return text(item);
+    },
+  );
+
+  server.registerResource(
+    "recipe",
+    new ResourceTemplate("recipe://{slug}", {
+      list: async () => ({
+        resources: getAllItems().map((item) => ({
+          uri: getRecipeUri(item.slug),
+          name: item.slug,
+          title: item.title,
+          description: item.description,
+          mimeType: MARKDOWN_MIME_TYPE,
+        })),
+      }),
+      complete: {
+        slug: (value) =>
+          getAllItems()
+            .map((item) => item.slug)
+            .filter((slug) => slug.startsWith(value)),
+      },
+    }),
+    {
+      title: "Recipe",
+      description: "Full Markdown of a recipe or cookbook",
+      mimeType: MARKDOWN_MIME_TYPE,
+    },
+    async (uri, { slug }) => {
+      const item = resolveItem(String(slug));
+      if (!item) {
+        throw new Error(`Recipe not found: ${slug}`);
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: MARKDOWN_MIME_TYPE,
+            text: await loadRecipeMarkdown(item),
+          },
+        ],
+      };
+    },
+  );
+}
@@ -0,0 +1,101 @@
+import { getItemBySlug, getRedirectSlug } from "./data";
+
+/**
+ * How a page request resolves when it has a Markdown twin:
+ * - "page": the page exists; `markdownPath` is the public `.md` URL and
+ *   `handlerPath` the route that serves it (`/md/[[...path]]`, or
+ *   `/c/[id]/md` for custom cookbooks)
+ * - "redirect": an old recipe slug that moved to `location`
+ */
+export type PageTwin =
+  | { kind: "page"; markdownPath: string; handlerPath: string }
+  | { kind: "redirect"; location: string };
+
+const CUSTOM_COOKBOOK_PATH =
+  /^\/c\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+const MARKDOWN_TYPES = new Set(["text/markdown", "text/x-markdown"]);
+
+type MediaRange = { type: string; q: number };
+
+function parseAccept(accept: string): MediaRange[] {
+  return accept
+    .split(",")
+    .map((part) => {
+      const [type, ...params] = part.trim().toLowerCase().split(";");
+      const q = params
+        .map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1])
+        .find((value) => value !== undefined);
+      return { type: type.trim(), q: q === undefined ? 1 : Number(q) };
+    })
+    .filter((range) => range.type.length > 0 && !Number.isNaN(range.q));
+}
+
+/**
+ * Whether an Accept header prefers Markdown over HTML. Markdown must be
+ * listed explicitly (`text/markdown` or `text/x-markdown`), since wildcards
+ * are what browsers and plain `curl` send. It wins over a higher or equal
+ * `text/html` quality only when HTML is matched by a wildcard alone.
+ */
+export function prefersMarkdown(accept: string | null): boolean {
+  const ranges = parseAccept(accept ?? "");
+  const markdownQ = Math.max(
+    0,
+    ...ranges.filter((r) => MARKDOWN_TYPES.has(r.type)).map((r) => r.q),
+  );
+  if (markdownQ === 0) return false;
+
+  const html = ranges.find((r) => r.type === "text/html");
+  if (html) return markdownQ > html.q;
+  const wildcardQ = Math.max(
+    0,
+    ...ranges
+      .filter((r) => r.type === "text/*" || r.type === "*/*")
+      .map((r) => r.q),
+  );
+  return markdownQ >= wildcardQ;
+}
+
+/**
+ * The Markdown twin of an HTML page: the landing page, `/recipes` (which
+ * shows the landing page's catalog), every recipe and cookbook page, and
+ * custom cookbooks (`/c/<id>`, whose handler 404s for unknown ids).
+ * Returns null for other paths, unknown slugs, and `.md`/`.diff` URLs.
+ */
+export function resolvePageTwin(pathname: string): PageTwin | null {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  if (path === "/") {
+    return { kind: "page", markdownPath: "/index.md", handlerPath: "/md" };
+  }
+  if (path === "/recipes") {
+    return {
+      kind: "page",
+      markdownPath: "/recipes.md",
+      handlerPath: "/md/recipes",
+    };
+  }
+
+  const customId = path.match(CUSTOM_COOKBOOK_PATH)?.[1];
+  if (customId) {
+    return {
+      kind: "page",
+      markdownPath: `/c/${customId}.md`,
+      handlerPath: `/c/${customId}/md`,
+    };
+  }
+
+  const slug = path.match(/^\/recipes\/([^/.]+)$/)?.[1];
+  if (!slug) return null;
+
+  if (getItemBySlug(slug)) {
+    return {
+      kind: "page",
+      markdownPath: `/recipes/${slug}.md`,
+      handlerPath: `/md/recipes/${slug}`,
+    };
+  }
+  const redirectSlug = getRedirectSlug(slug);
+  return redirectSlug
+    ? { kind: "redirect", location: `/recipes/${redirectSlug}` }
+    : null;
+}
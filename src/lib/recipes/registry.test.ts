@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import { checkRegistry } from "../../../scripts/registry/registry";
+import { getImportedPackages, loadRegistryItem } from "./registry";
+import { toMarkdown } from "./to-markdown";
+
+describe("getImportedPackages", () => {
+  it("collects package names from every import form", () => {
+    const source = [
+      'import { z } from "zod";',
+      'import type { UIMessage } from "ai";',
+      'export { useChat } from "@ai-sdk/react";',
+      'import { configSchema } from "better-env/config-schema";',
+      'const pino = require("pino");',
+      'const mod = await import("uuid");',
+      'import "server-only";',
+    ].join("\n");
+
+    expect(getImportedPackages(source).sort()).toEqual([
+      "@ai-sdk/react",
+      "ai",
+      "better-env",
+      "pino",
+      "server-only",
+      "uuid",
+      "zod",
+    ]);
+  });
+
+  it("skips relative paths, aliases, and Node builtins", () => {
+    const source = [
+      'import { tools } from "./tools";',
+      'import { db } from "@/lib/db/client";',
+      'import fs from "fs/promises";',
+      'import path from "node:path";',
+    ].join("\n");
+
+    expect(getImportedPackages(source)).toEqual([]);
+  });
+});
+
+describe("registry.json", () => {
+  it("resolves every source and matches the built public/r output", async () => {
+    expect(await checkRegistry()).toEqual([]);
+  });
+});
+
+describe("loadRegistryItem", () => {
+  it("loads items listed in registry.json", async () => {
+    expect((await loadRegistryItem("assert"))?.name).toBe("assert");
+  });
+
+  it("never reads paths outside public/r", async () => {
+    expect(await loadRegistryItem("../../package")).toBeNull();
+    expect(await loadRegistryItem("/etc/passwd")).toBeNull();
+    expect(await loadRegistryItem("registry")).toBeNull();
+  });
+});
+
+describe("toMarkdown", () => {
+  it("throws for registry items missing from public/r", async () => {
+    await expect(
+      toMarkdown('{% registry items="missing-item" /%}'),
+    ).rejects.toThrow('Registry item "missing-item" is missing from public/r');
+  });
+});
@@ -0,0 +1,88 @@
+import { promises as fs } from "fs";
+import { builtinModules } from "module";
+import path from "path";
+import registry from "../../../registry.json";
+
+/** Built shadcn registry item as served from `public/r/<name>.json` */
+export type RegistryItemJson = {
+  name: string;
+  title: string;
+  description: string;
+  dependencies?: string[];
+  files: Array<{
+    path: string;
+    content: string;
+    target: string;
+  }>;
+};
+
+/** Thrown when recipe content references a registry item that was not built */
+export class RegistryItemNotFoundError extends Error {
+  constructor(name: string) {
+    super(
+      `Registry item "${name}" is missing from public/r. Add it to registry.json and run \`bun run registry:build\`.`,
+    );
+    this.name = "RegistryItemNotFoundError";
+  }
+}
+
+const SITE_URL = "https://fullstackrecipes.com";
+const REGISTRY_DIR = path.join(process.cwd(), "public", "r");
+
+/** Public URL of a built registry item, as passed to `shadcn add` */
+export function getRegistryItemUrl(name: string, origin = SITE_URL): string {
+  return `${origin}/r/${name}.json`;
+}
+
+/** Name of the registry item served at a `getRegistryItemUrl` URL */
+export function getRegistryItemName(url: string): string | null {
+  return url.match(/\/r\/([\w-]+)\.json$/)?.[1] ?? null;
+}
+
+/**
+ * Read a built registry item from `public/r`.
+ * Returns null when the item has not been built, or when `name` is not an
+ * item in `registry.json` (names come from users, e.g. the MCP tool, so they
+ * must never reach the file system as paths).
+ */
+export async function loadRegistryItem(
+  name: string,
+): Promise<RegistryItemJson | null> {
+  if (!registry.items.some((item) => item.name === name)) {
+    return null;
+  }
+  try {
+    const content = await fs.readFile(
+      path.join(REGISTRY_DIR, `${name}.json`),
+      "utf-8",
+    );
+    return JSON.parse(content) as RegistryItemJson;
+  } catch {
+    return null;
+  }
+}
+
+/** Package name of a dependency spec, e.g. `zod@^4` -> `zod` */
+export function getPackageName(specifier: string): string {
+  const [first, second] = specifier.split("/");
+  const name = first.startsWith("@") ? `${first}/${second}` : first;
+  return name.replace(/(?<=.)@.*$/, "");
+}
+
+/**
+ * External packages imported by a source file (static imports, re-exports,
+ * dynamic imports, and requires). Relative paths, `@/` aliases, and Node
+ * builtins are skipped.
+ */
+export function getImportedPackages(source: string): string[] {
+  const pattern =
+    /(?:\bfrom\s+|\bimport\s*\(?\s*|\brequire\s*\(\s*)["']([^"']+)["']/g;
+  const packages = new Set<string>();
+  for (const [, specifier] of source.matchAll(pattern)) {
+    if (specifier.startsWith(".") || specifier.startsWith("@/")) continue;
+    const name = getPackageName(specifier);
+    if (name.startsWith("node:") || builtinModules.includes(name)) continue;
+    packages.add(name);
+  }
+  return Array.from(packages);
+}
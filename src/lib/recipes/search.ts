@@ -0,0 +1,219 @@
+import { type Node } from "@markdoc/markdoc";
+import { getAllItems, isCookbook, type Recipe, type Cookbook } from "./data";
+import { loadRecipeContent, slugify } from "./loader";
+import { getStepHeading, parseRecipeContent } from "./tags";
+
+/** A heading-delimited chunk of a recipe body */
+type SearchSection = {
+  slug: string;
+  itemTitle: string;
+  /** Heading text, or null for the item overview (title + description) */
+  heading: string | null;
+  /** Heading id on the recipe page, or null for the top of the page */
+  anchor: string | null;
+  text: string;
+  /** Lowercased token counts for body, heading, and item title */
+  bodyTerms: Map<string, number>;
+  headingTerms: Set<string>;
+  titleTerms: Set<string>;
+};
+
+export type SearchResult = {
+  slug: string;
+  title: string;
+  section: string | null;
+  anchor: string | null;
+  /** Deep link to the matching section on the recipe page */
+  url: string;
+  snippet: string;
+  score: number;
+};
+
+const TITLE_WEIGHT = 8;
+const HEADING_WEIGHT = 4;
+const PHRASE_BONUS = 5;
+const SNIPPET_RADIUS = 80;
+const DEFAULT_LIMIT = 20;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9_]+/g) ?? [];
+}
+
+function countTerms(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Collect the plain text of a Markdoc node, including inline code and fenced
+ * code content, so identifiers like `attachDatabasePool` are searchable.
+ */
+function nodeText(node: Node): string {
+  switch (node.type) {
+    case "text":
+    case "code":
+      return (node.attributes.content as string) ?? "";
+    case "fence":
+      return `${node.attributes.content ?? ""}\n`;
+    case "tag":
+      if (node.tag === "registry") {
+        return `${node.attributes.items ?? ""}\n`;
+      }
+      if (node.tag === "env") {
+        return `${node.attributes.name} ${node.attributes.description ?? ""}\n`;
+      }
+      break;
+  }
+  const inner = node.children.map(nodeText).join("");
+  return node.type === "inline" ? inner : `${inner}\n`;
+}
+
+function createSection(
+  item: Recipe | Cookbook,
+  heading: string | null,
+  text: string,
+): SearchSection {
+  return {
+    slug: item.slug,
+    itemTitle: item.title,
+    heading,
+    anchor: heading ? slugify(heading) : null,
+    text: text.trim(),
+    bodyTerms: countTerms(text),
+    headingTerms: new Set(tokenize(heading ?? "")),
+    titleTerms: new Set(tokenize(item.title)),
+  };
+}
+
+/**
+ * Split an item's body into sections at every `##` and `###` heading and
+ * every `{% step %}` tag. Content before the first heading is attached to the
+ * item overview.
+ */
+function splitSections(item: Recipe | Cookbook, content: string) {
+  const ast = parseRecipeContent(content);
+  const sections: SearchSection[] = [];
+  let heading: string | null = null;
+  let buffer = `${item.title}\n${item.description}\n`;
+
+  for (const node of ast.children) {
+    const level = node.type === "heading" ? node.attributes.level : null;
+    if (level === 2 || level === 3) {
+      sections.push(createSection(item, heading, buffer));
+      heading = nodeText(node).trim();
+      buffer = "";
+      continue;
+    }
+    if (node.type === "tag" && node.tag === "step") {
+      sections.push(createSection(item, heading, buffer));
+      heading = getStepHeading(node);
+      buffer = nodeText(node);
+      continue;
+    }
+    buffer += nodeText(node);
+  }
+  sections.push(createSection(item, heading, buffer));
+
+  return sections.filter((section) => section.text.length > 0);
+}
+
+async function indexItem(item: Recipe | Cookbook): Promise<SearchSection[]> {
+  // Cookbooks inline the bodies of their recipes, which are already indexed
+  // on their own. Index only the cookbook overview to avoid duplicate hits.
+  if (isCookbook(item)) {
+    return [createSection(item, null, `${item.title}\n${item.description}`)];
+  }
+  return splitSections(item, await loadRecipeContent(item));
+}
+
+let indexPromise: Promise<SearchSection[]> | null = null;
+
+/** Build (once per server instance) the section index over all items */
+function getSearchIndex(): Promise<SearchSection[]> {
+  if (!indexPromise) {
+    indexPromise = Promise.all(getAllItems().map(indexItem)).then((sections) =>
+      sections.flat(),
+    );
+    // Don't cache a failed build; retry on the next search
+    indexPromise.catch(() => {
+      indexPromise = null;
+    });
+  }
+  return indexPromise;
+}
+
+function scoreSection(
+  section: SearchSection,
+  terms: string[],
+  phrase: string,
+): number {
+  let score = 0;
+  for (const term of terms) {
+    const inTitle = section.titleTerms.has(term);
+    const inHeading = section.headingTerms.has(term);
+    const count = section.bodyTerms.get(term) ?? 0;
+    if (!inTitle && !inHeading && count === 0) {
+      // Every term must match somewhere in the section
+      return 0;
+    }
+    if (inTitle) score += TITLE_WEIGHT;
+    if (inHeading) score += HEADING_WEIGHT;
+    // Dampen repeated occurrences so long sections don't dominate
+    score += Math.log2(1 + count);
+  }
+  if (terms.length > 1 && section.text.toLowerCase().includes(phrase)) {
+    score += PHRASE_BONUS;
+  }
+  return score;
+}
+
+function buildSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index >= 0);
+  const hit = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(text.length, hit + SNIPPET_RADIUS);
+  const body = text.slice(start, end).replace(/\s+/g, " ").trim();
+
+  return `${start > 0 ? "…" : ""}${body}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Full-text search over recipe, cookbook, and skill content.
+ * Returns sections ranked by relevance, with snippets and deep-link anchors.
+ */
+export async function searchRecipes(
+  query: string,
+  { limit = DEFAULT_LIMIT }: { limit?: number } = {},
+): Promise<SearchResult[]> {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) {
+    return [];
+  }
+  const phrase = query.trim().toLowerCase();
+  const index = await getSearchIndex();
+
+  return index
+    .map((section) => ({
+      section,
+      score: scoreSection(section, terms, phrase),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ section, score }) => ({
+      slug: section.slug,
+      title: section.itemTitle,
+      section: section.heading,
+      anchor: section.anchor,
+      url: `/recipes/${section.slug}${section.anchor ? `#${section.anchor}` : ""}`,
+      snippet: buildSnippet(section.text, terms),
+      score: Math.round(score * 100) / 100,
+    }));
+}
@@ -18,6 +18,17 @@ import {
   type Recipe,
   type Cookbook,
 } from "@/lib/recipes/data";
+import { getInstallPlan } from "@/lib/recipes/graph";
+import {
+  buildEnvExample,
+  getEnvManifest,
+  type EnvManifestEntry,
+} from "@/lib/recipes/env";
+import {
+  DEFAULT_TOKEN_BUDGET,
+  getSelectionTokens,
+  splitSelection,
+} from "@/lib/recipes/tokens";
 
 const items = getAllItems();
 
@@ -31,12 +42,15 @@ function getItemOrder(slug: string): number {
 // Default prompt when no items are selected
 const DEFAULT_PROMPT = "Suggest how to use fullstackrecipes in this app";
 
-// Get combined prompt text for multiple items
+// Get combined prompt text for the selection, including every transitive
+// prerequisite in install order
 function getCombinedPromptText(selectedItems: (Recipe | Cookbook)[]): string {
   if (selectedItems.length === 0) return DEFAULT_PROMPT;
-  if (selectedItems.length === 1) return getItemPromptText(selectedItems[0]);
 
-  const itemDescriptions = selectedItems.map((item) => {
+  const plan = getInstallPlan(selectedItems.map((item) => item.slug));
+  if (plan.length === 1) return getItemPromptText(plan[0]);
+
+  const itemDescriptions = plan.map((item) => {
     const type = isCookbook(item) ? "cookbook" : "recipe";
     return `- "${item.title}" ${type}`;
   });
@@ -81,8 +95,18 @@ type SelectionContextValue = {
   skillSlugs: string[];
   /** Top-level selected slugs whose Markdown should be fetched (cookbooks + setup recipes) */
   markdownSlugs: string[];
-  /** curl command that fetches the Markdown for the selected setup recipes/cookbooks */
+  /** Single curl command that fetches the Markdown for the selected setup recipes/cookbooks as one bundle */
   markdownCurlCommand: string;
+  /** Estimated tokens of the Markdown fetched for the selection */
+  selectionTokens: number;
+  /** Token budget the selection is checked against */
+  tokenBudget: number;
+  /** Suggested parts to fetch one at a time, or null when the selection fits the budget */
+  budgetSplit: string[][] | null;
+  /** Env vars read by the selected recipes and their prerequisites */
+  envManifest: EnvManifestEntry[];
+  /** Merged `.env.example` for the selection */
+  envExample: string;
   /** Prompt text for the selected items */
   promptText: string;
   /** Combined registry deps from selected items */
@@ -111,11 +135,14 @@ type SelectionProviderProps = {
   children: ReactNode;
   /** Initial selection, defaults to first item */
   initialSlugs?: string[];
+  /** Max tokens of Markdown to fetch at once, defaults to `DEFAULT_TOKEN_BUDGET` */
+  tokenBudget?: number;
 };
 
 export function SelectionProvider({
   children,
   initialSlugs,
+  tokenBudget = DEFAULT_TOKEN_BUDGET,
 }: SelectionProviderProps) {
   const [selectedSlugs, setSelectedSlugs] = useState<string[]>(
     initialSlugs ?? [items[0]?.slug].filter(Boolean),
@@ -173,6 +200,7 @@ export function SelectionProvider({
   // Top-level selected items whose Markdown should be fetched via curl.
   // Cookbooks expose a single `.md` that inlines their recipes, so we fetch the
   // selected cookbooks/setup recipes directly and leave skills to the CLI.
+  // Several slugs are combined into one `/bundle.md` URL.
   const markdownSlugs = useMemo(() => {
     return selectedItems
       .filter((item) => isCookbook(item) || !isSkillRecipe(item))
@@ -184,6 +212,30 @@ export function SelectionProvider({
     [markdownSlugs],
   );
 
+  const selectionTokens = useMemo(
+    () => getSelectionTokens(markdownSlugs),
+    [markdownSlugs],
+  );
+
+  // Only suggest a split once the selection no longer fits the budget
+  const budgetSplit = useMemo(
+    () =>
+      selectionTokens > tokenBudget
+        ? splitSelection(markdownSlugs, tokenBudget)
+        : null,
+    [markdownSlugs, selectionTokens, tokenBudget],
+  );
+
+  const envManifest = useMemo(
+    () => getEnvManifest(selectedItems.map((item) => item.slug)),
+    [selectedItems],
+  );
+
+  const envExample = useMemo(
+    () => buildEnvExample(selectedItems.map((item) => item.slug)),
+    [selectedItems],
+  );
+
   const registryDeps = useMemo(
     () => getCombinedRegistryDeps(selectedItems),
     [selectedItems],
@@ -252,6 +304,11 @@ export function SelectionProvider({
     skillSlugs,
     markdownSlugs,
     markdownCurlCommand,
+    selectionTokens,
+    tokenBudget,
+    budgetSplit,
+    envManifest,
+    envExample,
     promptText,
     registryDeps,
     hasRegistry,
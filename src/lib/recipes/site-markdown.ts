@@ -7,6 +7,7 @@ import {
   type Recipe,
   type Cookbook,
 } from "@/lib/recipes/data";
+import { formatTokenCount, getTokenEstimate } from "@/lib/recipes/tokens";
 
 const SITE_URL = "https://fullstackrecipes.com";
 
@@ -21,19 +22,46 @@ raw content for your coding agent — no MCP server required.
 # This index
 curl ${SITE_URL}/llms.txt
 
-# Any recipe or cookbook (use the slugs listed below)
+# Every recipe, cookbook, and skill in one document (filter with ?tags=Skills)
+curl ${SITE_URL}/llms-full.txt
+
+# Any recipe or cookbook (use the slugs listed below, each with its size)
 curl ${SITE_URL}/recipes/<slug>.md
 
+# Or ask any page URL for Markdown instead of HTML
+curl -H "Accept: text/markdown" ${SITE_URL}/recipes/<slug>
+
+# Several recipes as one document, prerequisites included in install order
+curl "${SITE_URL}/bundle.md?slugs=<slug>,<slug>"
+
+# Env vars those recipes read, with a merged .env.example
+curl "${SITE_URL}/env.md?slugs=<slug>,<slug>"
+
 # This landing page as Markdown
 curl ${SITE_URL}/index.md
-\`\`\``;
+
+# Recipe changelog (Atom) to see what changed since your last sync
+curl ${SITE_URL}/feed.xml
+
+# Unified diff of a recipe since a date or git ref
+curl "${SITE_URL}/recipes/<slug>.diff?from=2026-01-01"
+
+# Search the full content of every recipe
+curl "${SITE_URL}/api/search?q=attachDatabasePool"
+\`\`\`
+
+Agents that prefer tool calls can connect the Streamable HTTP MCP server at
+\`${SITE_URL}/api/mcp\` instead. It offers \`list_recipes\`, \`get_recipe\`,
+\`search_recipes\`, and \`get_registry_item\` tools, and exposes every recipe as
+a \`recipe://<slug>\` resource.`;
 
 function itemList(items: (Recipe | Cookbook)[]): string {
   return items
-    .map(
-      (item) =>
-        `- [${item.title}](${SITE_URL}/recipes/${item.slug}.md) - ${item.description}`,
-    )
+    .map((item) => {
+      const tokens = getTokenEstimate(item.slug);
+      const size = tokens !== undefined ? ` (${formatTokenCount(tokens)})` : "";
+      return `- [${item.title}](${SITE_URL}/recipes/${item.slug}.md)${size} - ${item.description}`;
+    })
     .join("\n");
 }
 
@@ -58,6 +86,6 @@ export async function buildLandingMarkdown(): Promise<string> {
     `## Cookbooks\n\nCookbooks are curated bundles of multiple recipes for complete feature implementations.\n\n${itemList(getAllCookbooks())}`,
     `## Recipes\n\n${itemList(getAllRecipes())}`,
     `## Shadcn Registry\n\nInstall reusable utilities directly:\n\n\`\`\`bash\n${registryCommands()}\n\`\`\``,
-    `## Links\n\n- Homepage: ${SITE_URL}\n- Index: ${SITE_URL}/llms.txt`,
+    `## Links\n\n- Homepage: ${SITE_URL}\n- Index: ${SITE_URL}/llms.txt\n- Full content: ${SITE_URL}/llms-full.txt`,
   ].join("\n\n---\n\n");
 }
@@ -0,0 +1,43 @@
+import fs from "fs/promises";
+import path from "path";
+import { isSkillRecipe, type Recipe } from "./data";
+import { readFileAtRevision } from "./git";
+
+const RECIPES_DIR = path.join(process.cwd(), "docs", "recipes");
+const SKILLS_DIR = path.join(process.cwd(), "skills");
+
+const FRONTMATTER = /^---\n([\s\S]*?)\n---\n+/;
+
+/**
+ * Authored source file of a recipe. Skills live in `skills/<slug>/SKILL.md`
+ * so the skills CLI can install them; setup recipes live in
+ * `docs/recipes/<slug>.md`.
+ */
+export function getRecipeSourcePath(recipe: Recipe): string {
+  return isSkillRecipe(recipe)
+    ? path.join(SKILLS_DIR, recipe.slug, "SKILL.md")
+    : path.join(RECIPES_DIR, `${recipe.slug}.md`);
+}
+
+/**
+ * Read a recipe's source file, split into its raw YAML frontmatter and body.
+ * With a resolved git `revision`, reads the file as of that commit instead;
+ * a recipe that didn't exist yet reads as empty.
+ */
+export async function readRecipeSource(
+  recipe: Recipe,
+  revision?: string,
+): Promise<{ frontmatter: string; body: string }> {
+  const sourcePath = getRecipeSourcePath(recipe);
+  const raw = revision
+    ? ((await readFileAtRevision(
+        revision,
+        path.relative(process.cwd(), sourcePath),
+      )) ?? "")
+    : await fs.readFile(sourcePath, "utf-8");
+  const match = raw.match(FRONTMATTER);
+  return {
+    frontmatter: match?.[1] ?? "",
+    body: match ? raw.slice(match[0].length) : raw,
+  };
+}
@@ -0,0 +1,309 @@
+import { type Node } from "@markdoc/markdoc";
+import { z } from "zod";
+import { isCookbook, isSkillRecipe, type Cookbook, type Recipe } from "./data";
+import { getChangelog } from "./changelog";
+import { getEnvManifest } from "./env";
+import { extractFilePath } from "./file-path";
+import { getPrerequisites } from "./graph";
+import { loadRecipeContent, slugify } from "./loader";
+import {
+  loadRegistryItem,
+  RegistryItemNotFoundError,
+  type RegistryItemJson,
+} from "./registry";
+import { getRegistryFileLanguage, parseRecipeContent } from "./tags";
+
+/** Bumped on breaking changes to the structured recipe shape */
+export const STRUCTURED_RECIPE_SCHEMA_VERSION = 1;
+
+const stepSchema = z.object({
+  /** `N` from a `Step N:` heading or `{% step %}` tag, null for other `###` headings */
+  number: z.number().int().nullable(),
+  title: z.string(),
+  /** Heading id on the recipe page */
+  anchor: z.string(),
+  /** `##` heading the step is under (the recipe title inside cookbooks) */
+  section: z.string().nullable(),
+});
+
+const fileSchema = z.object({
+  /** Target path in the consuming project */
+  path: z.string(),
+  language: z.string().nullable(),
+  code: z.string(),
+  /** Anchor of the step the file is created in */
+  step: z.string().nullable(),
+  /** Registry item that ships the file, null for inline code blocks */
+  registryItem: z.string().nullable(),
+});
+
+const envVarSchema = z.object({
+  name: z.string(),
+  /** `server()` values stay on the server; `pub()` values reach the client */
+  scope: z.enum(["server", "public"]),
+  optional: z.boolean(),
+  /** Name passed to the `configSchema()` that declares it */
+  config: z.string().nullable(),
+  description: z.string().nullable(),
+});
+
+const registryDependencySchema = z.object({
+  name: z.string(),
+  url: z.string(),
+  /** npm packages the registry item installs */
+  dependencies: z.array(z.string()),
+});
+
+export const structuredRecipeSchema = z.object({
+  schemaVersion: z.literal(STRUCTURED_RECIPE_SCHEMA_VERSION),
+  slug: z.string(),
+  title: z.string(),
+  description: z.string(),
+  type: z.enum(["setup", "skill", "cookbook"]),
+  version: z.string().nullable(),
+  updatedAt: z.iso.date().nullable(),
+  /** Prerequisite slugs in install order */
+  requires: z.array(z.string()),
+  steps: z.array(stepSchema),
+  files: z.array(fileSchema),
+  /** Packages from `bun add` commands, as written */
+  packages: z.object({
+    dependencies: z.array(z.string()),
+    devDependencies: z.array(z.string()),
+  }),
+  envVars: z.array(envVarSchema),
+  registryDependencies: z.array(registryDependencySchema),
+});
+
+export type StructuredRecipe = z.infer<typeof structuredRecipeSchema>;
+type RecipeStep = z.infer<typeof stepSchema>;
+type RecipeFile = z.infer<typeof fileSchema>;
+type RecipeEnvVar = z.infer<typeof envVarSchema>;
+
+const STEP_HEADING = /^Step (\d+):\s*(.+)$/;
+const SHELL_LANGUAGES = new Set(["bash", "shell", "sh", "zsh", ""]);
+const CONFIG_SCHEMA_CALL = /\bconfigSchema\(\s*["'`]([^"'`]+)["'`]/g;
+const ENV_DECLARATION =
+  /\b(server|pub)\(\s*\{([^}]*?)\benv:\s*["'`]([A-Z][A-Z0-9_]*)["'`]([^}]*)\}/g;
+
+function getText(node: Node): string {
+  if (node.type === "text" || node.type === "code") {
+    return String(node.attributes.content ?? "");
+  }
+  return node.children.map(getText).join("");
+}
+
+/** Packages named by the `bun add` commands in a shell snippet */
+function getBunAddPackages(script: string) {
+  const dependencies: string[] = [];
+  const devDependencies: string[] = [];
+  for (const [, args] of script.matchAll(/\bbun add\b([^\n&|;]*)/g)) {
+    const tokens = args.trim().split(/\s+/).filter(Boolean);
+    // Global installs are tools for the developer, not project dependencies
+    if (tokens.includes("-g") || tokens.includes("--global")) continue;
+    const isDev = tokens.includes("-D") || tokens.includes("--dev");
+    const packages = tokens.filter((token) => !token.startsWith("-"));
+    (isDev ? devDependencies : dependencies).push(...packages);
+  }
+  return { dependencies, devDependencies };
+}
+
+/**
+ * Env vars declared through better-env `server({ env })` and `pub({ env })`
+ * calls, attributed to the closest preceding `configSchema("Name", ...)`.
+ */
+function getConfigEnvVars(code: string): RecipeEnvVar[] {
+  const schemas = Array.from(code.matchAll(CONFIG_SCHEMA_CALL));
+  return Array.from(code.matchAll(ENV_DECLARATION), (match) => {
+    const [, kind, before, name, after] = match;
+    const config = schemas
+      .filter((schema) => (schema.index ?? 0) < (match.index ?? 0))
+      .at(-1)?.[1];
+    return {
+      name,
+      scope: kind === "pub" ? "public" : "server",
+      optional: /\boptional:\s*true\b/.test(before + after),
+      config: config ?? null,
+      description: null,
+    };
+  });
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * Parse a recipe or cookbook into machine-readable data: steps from its
+ * headings, the files it creates (inline code blocks and registry items),
+ * `bun add` packages, env vars, and registry dependencies. Walks the same
+ * Markdoc AST as `toMarkdown`, so custom tags are understood the same way.
+ */
+export async function getStructuredRecipe(
+  item: Recipe | Cookbook,
+): Promise<StructuredRecipe> {
+  const [content, changelog] = await Promise.all([
+    loadRecipeContent(item),
+    getChangelog(item),
+  ]);
+  const ast = parseRecipeContent(content);
+
+  const steps: RecipeStep[] = [];
+  const files: RecipeFile[] = [];
+  const dependencies: string[] = [];
+  const devDependencies: string[] = [];
+  const envVars = new Map<string, RecipeEnvVar>();
+  const registryItems = new Map<string, RegistryItemJson>();
+  let section: string | null = null;
+  let step: string | null = null;
+
+  const addStep = (number: number | null, title: string, heading: string) => {
+    step = slugify(heading);
+    steps.push({ number, title, anchor: step, section });
+  };
+  const addCode = (
+    path: string | null,
+    language: string | null,
+    code: string,
+    registryItem: string | null,
+  ) => {
+    if (path) {
+      files.push({ path, language, code, step, registryItem });
+    }
+    for (const envVar of getConfigEnvVars(code)) {
+      if (!envVars.has(envVar.name)) envVars.set(envVar.name, envVar);
+    }
+  };
+
+  // Fences wrapped in `{% file %}` take their path from the tag
+  const taggedFences = new Set<Node>();
+
+  for (const node of ast.walk()) {
+    if (node.type === "heading") {
+      const level = Number(node.attributes.level);
+      const text = getText(node).trim();
+      if (level <= 2) {
+        section = text;
+        step = null;
+      } else if (level === 3) {
+        const match = text.match(STEP_HEADING);
+        addStep(match ? Number(match[1]) : null, match?.[2] ?? text, text);
+      }
+      continue;
+    }
+
+    if (node.type === "fence") {
+      if (taggedFences.has(node)) continue;
+      const language = node.attributes.language
+        ? String(node.attributes.language)
+        : null;
+      const raw = String(node.attributes.content ?? "").trim();
+      if (SHELL_LANGUAGES.has(language ?? "")) {
+        const packages = getBunAddPackages(raw);
+        dependencies.push(...packages.dependencies);
+        devDependencies.push(...packages.devDependencies);
+      }
+      const { filePath, displayContent } = extractFilePath(raw);
+      addCode(filePath, language, displayContent.trim(), null);
+      continue;
+    }
+
+    if (node.type !== "tag") continue;
+    const { attributes } = node;
+    switch (node.tag) {
+      case "step":
+        addStep(
+          attributes.number,
+          attributes.title,
+          `Step ${attributes.number}: ${attributes.title}`,
+        );
+        break;
+      case "file":
+        for (const fence of node.children) {
+          if (fence.type !== "fence") continue;
+          taggedFences.add(fence);
+          addCode(
+            String(attributes.path),
+            fence.attributes.language ?? null,
+            String(fence.attributes.content ?? "").trim(),
+            null,
+          );
+        }
+        break;
+      case "env":
+        envVars.set(attributes.name, {
+          name: attributes.name,
+          scope: attributes.name.startsWith("NEXT_PUBLIC_")
+            ? "public"
+            : "server",
+          optional: false,
+          config: envVars.get(attributes.name)?.config ?? null,
+          description: attributes.description ?? null,
+        });
+        break;
+      case "registry":
+        // Files belong to the step the tag is in, like inline code blocks
+        for (const name of String(attributes.items).split(",")) {
+          const itemName = name.trim();
+          if (!itemName || registryItems.has(itemName)) continue;
+          const registryItem = await loadRegistryItem(itemName);
+          if (!registryItem) {
+            throw new RegistryItemNotFoundError(itemName);
+          }
+          registryItems.set(itemName, registryItem);
+          for (const file of registryItem.files) {
+            addCode(
+              file.target,
+              getRegistryFileLanguage(file.path),
+              file.content.trim(),
+              itemName,
+            );
+          }
+        }
+        break;
+    }
+  }
+
+  const registryDependencies = Array.from(
+    registryItems,
+    ([name, registryItem]) => ({
+      name,
+      url: `https://fullstackrecipes.com/r/${name}.json`,
+      dependencies: registryItem.dependencies ?? [],
+    }),
+  );
+
+  // Declared env var metadata fills in what the code alone doesn't say
+  const declared = new Map(
+    getEnvManifest([item.slug]).map((envVar) => [envVar.name, envVar]),
+  );
+  for (const envVar of envVars.values()) {
+    const spec = declared.get(envVar.name);
+    if (!spec) continue;
+    envVar.optional ||= spec.optional ?? false;
+    envVar.description ??= spec.description;
+  }
+
+  return {
+    schemaVersion: STRUCTURED_RECIPE_SCHEMA_VERSION,
+    slug: item.slug,
+    title: item.title,
+    description: item.description,
+    type: isCookbook(item)
+      ? "cookbook"
+      : isSkillRecipe(item)
+        ? "skill"
+        : "setup",
+    version: changelog?.version ?? null,
+    updatedAt: changelog?.updatedAt ?? null,
+    requires: getPrerequisites(item).map((required) => required.slug),
+    steps,
+    files,
+    packages: {
+      dependencies: unique(dependencies),
+      devDependencies: unique(devDependencies),
+    },
+    envVars: Array.from(envVars.values()),
+    registryDependencies,
+  };
+}
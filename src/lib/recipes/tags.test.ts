@@ -0,0 +1,132 @@
+import { describe, it, expect } from "bun:test";
+import { validateRecipeTags } from "./tags";
+import { toMarkdown } from "./to-markdown";
+
+describe("validateRecipeTags", () => {
+  it("accepts every registered tag", () => {
+    const content = [
+      '{% callout type="tip" %}Use the pooled URL.{% /callout %}',
+      '{% tabs %}\n{% tab label="bun" %}\nbun add zod\n{% /tab %}\n{% /tabs %}',
+      '{% env name="DATABASE_URL" /%}',
+      '{% file path="src/lib/db/config.ts" %}\n```ts\nexport {};\n```\n{% /file %}',
+      '{% step title="Install" %}\nRun it.\n{% /step %}',
+    ].join("\n\n");
+
+    expect(validateRecipeTags(content)).toEqual([]);
+  });
+
+  it("reports unknown tags", () => {
+    const errors = validateRecipeTags("{% alert %}Careful{% /alert %}");
+
+    expect(errors.map((e) => e.error.message)).toEqual([
+      "Undefined tag: 'alert'",
+    ]);
+  });
+
+  it("reports missing and invalid attributes", () => {
+    const errors = validateRecipeTags(
+      '{% env /%}\n\n{% callout type="danger" %}x{% /callout %}',
+    );
+
+    expect(errors).toHaveLength(2);
+  });
+
+  it("requires file tags to wrap a single fence", () => {
+    const errors = validateRecipeTags(
+      '{% file path="a.ts" %}\nNo code here.\n{% /file %}',
+    );
+
+    expect(errors.map((e) => e.error.id)).toEqual(["file-children"]);
+  });
+
+  it("only allows tab tags inside tabs", () => {
+    const errors = validateRecipeTags("{% tabs %}\nloose text\n{% /tabs %}");
+
+    expect(errors.map((e) => e.error.id)).toEqual(["tabs-children"]);
+  });
+});
+
+describe("toMarkdown tag expansion", () => {
+  it("expands callouts to blockquotes", async () => {
+    expect(
+      await toMarkdown(
+        '{% callout type="warning" %}Back up first.{% /callout %}',
+      ),
+    ).toBe("> **Warning**: Back up first.");
+    expect(
+      await toMarkdown(
+        '{% callout title="Why pooling" %}\nFewer round trips.\n{% /callout %}',
+      ),
+    ).toBe("> **Note: Why pooling**\n>\n> Fewer round trips.");
+  });
+
+  it("expands tabs to labelled sections", async () => {
+    const markdown = await toMarkdown(
+      '{% tabs %}\n{% tab label="bun" %}\n```bash\nbun add zod\n```\n{% /tab %}\n{% tab label="npm" %}\n```bash\nnpm install zod\n```\n{% /tab %}\n{% /tabs %}',
+    );
+
+    expect(markdown).toBe(
+      "**bun:**\n\n```bash\nbun add zod\n```\n\n**npm:**\n\n```bash\nnpm install zod\n```",
+    );
+  });
+
+  it("expands env vars to an env block", async () => {
+    expect(
+      await toMarkdown(
+        '{% env name="DATABASE_URL" description="Neon connection string" example="postgresql://..." /%}',
+      ),
+    ).toBe(
+      "```env\n# Neon connection string\nDATABASE_URL=postgresql://...\n```",
+    );
+  });
+
+  it("expands file tags to a path comment", async () => {
+    expect(
+      await toMarkdown(
+        '{% file path="src/lib/db/config.ts" %}\n```typescript\nexport {};\n```\n{% /file %}',
+      ),
+    ).toBe("```typescript\n// src/lib/db/config.ts\nexport {};\n```");
+    expect(
+      await toMarkdown(
+        '{% file path=".env.local" %}\n```env\nA=1\n```\n{% /file %}',
+      ),
+    ).toBe("```env\n# .env.local\nA=1\n```");
+  });
+
+  it("numbers steps and restarts under each section heading", async () => {
+    const markdown = await toMarkdown(
+      [
+        "## First",
+        '{% step title="One" %}\na\n{% /step %}',
+        '{% step title="Two" %}\nb\n{% /step %}',
+        "## Second",
+        '{% step title="Again" %}\nc\n{% /step %}',
+      ].join("\n\n"),
+    );
+
+    expect(markdown).toContain("### Step 1: One\n\na");
+    expect(markdown).toContain("### Step 2: Two\n\nb");
+    expect(markdown).toContain("### Step 1: Again\n\nc");
+  });
+
+  it("inlines registry source only once per document", async () => {
+    const inlinedRegistryItems = new Set<string>();
+    const first = await toMarkdown('{% registry items="assert" /%}', {
+      inlinedRegistryItems,
+    });
+    const second = await toMarkdown('{% registry items="assert" /%}', {
+      inlinedRegistryItems,
+    });
+
+    expect(first).toContain("**Or copy the source code:**");
+    expect(second).toContain("shadcn@latest add");
+    expect(second).not.toContain("**Or copy the source code:**");
+    expect(second).toContain("The source code of `assert` is included above.");
+  });
+
+  it("rejects unknown tags instead of dropping them", async () => {
+    expect(toMarkdown("{% alert %}Careful{% /alert %}")).rejects.toThrow(
+      "Unknown Markdoc tag {% alert %}",
+    );
+  });
+});
@@ -0,0 +1,330 @@
+import Markdoc, {
+  Tag,
+  type Node,
+  type Schema,
+  type ValidateError,
+} from "@markdoc/markdoc";
+import {
+  getRegistryItemUrl,
+  loadRegistryItem,
+  RegistryItemNotFoundError,
+} from "./registry";
+
+/**
+ * A custom Markdoc tag usable in recipe content. One definition drives both
+ * outputs: the Markdoc schema (attributes, allowed children, and the name of
+ * the component `MarkdownBlock` renders it with) for the site, and
+ * `toMarkdown` for the `.md` twins, MCP, and copy buttons.
+ */
+type RecipeTag = Schema & {
+  /**
+   * Expand the tag to plain Markdown. `children` is the tag's content already
+   * converted to Markdown.
+   */
+  toMarkdown(
+    node: Node,
+    children: string,
+    options: MarkdownOptions,
+  ): string | Promise<string>;
+};
+
+/** Options for expanding recipe content to Markdown */
+export type MarkdownOptions = {
+  /**
+   * Registry items whose source code is already in the output document.
+   * `{% registry %}` only lists the install command for these, and adds the
+   * items it inlines. Used to print each item's code once in long documents.
+   */
+  inlinedRegistryItems?: Set<string>;
+};
+
+const CALLOUT_TYPES = ["note", "tip", "warning", "important"] as const;
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: "typescript",
+  tsx: "tsx",
+  js: "javascript",
+  jsx: "jsx",
+};
+
+/** Code fence language of a registry file, from its extension */
+export function getRegistryFileLanguage(filePath: string): string {
+  const ext = filePath.split(".").pop() ?? "ts";
+  return LANGUAGE_BY_EXTENSION[ext] ?? ext;
+}
+
+// Languages whose file path comment starts with `#` instead of `//`
+const HASH_COMMENT_LANGUAGES = new Set([
+  "bash",
+  "shell",
+  "sh",
+  "python",
+  "yaml",
+  "env",
+  "dotenv",
+]);
+
+/**
+ * Get the markdown representation of registry items.
+ * Expands the {% registry %} tag into CLI command + source code. Items in
+ * `inlined` are only named, since their source is already in the document.
+ * Throws a `RegistryItemNotFoundError` when an item was never built.
+ */
+async function getRegistryMarkdown(
+  itemNames: string[],
+  inlined: Set<string> = new Set(),
+): Promise<string> {
+  const sections: string[] = [];
+
+  const urls = itemNames.map((name) => getRegistryItemUrl(name)).join(" ");
+  const command = `bunx --bun shadcn@latest add ${urls}`;
+
+  sections.push(
+    `**Install via shadcn registry:**\n\n\`\`\`bash\n${command}\n\`\`\``,
+  );
+
+  const repeated = itemNames.filter((name) => inlined.has(name));
+  if (repeated.length > 0) {
+    const names = repeated.map((name) => `\`${name}\``).join(", ");
+    sections.push(`\nThe source code of ${names} is included above.`);
+  }
+  const newItems = itemNames.filter((name) => !inlined.has(name));
+  for (const name of newItems) {
+    inlined.add(name);
+  }
+
+  for (const name of newItems) {
+    const data = await loadRegistryItem(name);
+    if (!data) {
+      throw new RegistryItemNotFoundError(name);
+    }
+
+    if (data.files && data.files.length > 0) {
+      sections.push(`\n**Or copy the source code:**`);
+      for (const file of data.files) {
+        if (file.content) {
+          const lang = getRegistryFileLanguage(file.path);
+          sections.push(
+            `\n\`${file.target}\`:\n\n\`\`\`${lang}\n${file.content.trim()}\n\`\`\``,
+          );
+        }
+      }
+    }
+  }
+
+  return sections.join("\n");
+}
+
+function quote(content: string): string {
+  return content
+    .trim()
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+/** `{% registry items="a,b" /%}`: shadcn install command and item sources */
+const registry = {
+  render: "RegistryTag" as const,
+  selfClosing: true,
+  attributes: {
+    items: { type: String, required: true },
+  },
+  async toMarkdown(node, _children, { inlinedRegistryItems }) {
+    const itemNames = String(node.attributes.items ?? "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+    if (itemNames.length === 0) {
+      return "";
+    }
+    return (
+      (await getRegistryMarkdown(itemNames, inlinedRegistryItems)) + "\n\n"
+    );
+  },
+} satisfies RecipeTag;
+
+/** `{% callout type="warning" title="..." %}`: highlighted aside */
+const callout = {
+  render: "Callout" as const,
+  attributes: {
+    type: { type: String, default: "note", matches: [...CALLOUT_TYPES] },
+    title: { type: String },
+  },
+  toMarkdown(node, children) {
+    const type = String(node.attributes.type ?? "note");
+    const label = type.charAt(0).toUpperCase() + type.slice(1);
+    const title = node.attributes.title
+      ? `**${label}: ${node.attributes.title}**`
+      : `**${label}**:`;
+    const body = children.trim();
+    return `${quote(node.attributes.title ? `${title}\n\n${body}` : `${title} ${body}`)}\n\n`;
+  },
+} satisfies RecipeTag;
+
+/** `{% tabs %}`: alternatives (e.g. per package manager), one `{% tab %}` each */
+const tabs = {
+  render: "Tabs" as const,
+  validate(node) {
+    return node.children
+      .filter((child) => !(child.type === "tag" && child.tag === "tab"))
+      .map((child) => ({
+        id: "tabs-children",
+        level: "error",
+        message: `{% tabs %} may only contain {% tab %} tags, found '${child.tag ?? child.type}'`,
+      }));
+  },
+  transform(node, config) {
+    const labels = node.children
+      .filter((child) => child.tag === "tab")
+      .map((child) => String(child.attributes.label));
+    return new Tag("Tabs", { labels }, node.transformChildren(config));
+  },
+  toMarkdown(_node, children) {
+    return children;
+  },
+} satisfies RecipeTag;
+
+/** `{% tab label="bun" %}`: one alternative inside `{% tabs %}` */
+const tab = {
+  render: "Tab" as const,
+  attributes: {
+    label: { type: String, required: true },
+  },
+  toMarkdown(node, children) {
+    return `**${node.attributes.label}:**\n\n${children.trim()}\n\n`;
+  },
+} satisfies RecipeTag;
+
+/** `{% env name="DATABASE_URL" description="..." example="..." /%}` */
+const env = {
+  render: "EnvVar" as const,
+  selfClosing: true,
+  attributes: {
+    name: { type: String, required: true },
+    description: { type: String },
+    example: { type: String },
+  },
+  toMarkdown(node) {
+    const { name, description, example = "" } = node.attributes;
+    const comment = description ? `# ${description}\n` : "";
+    return `\`\`\`env\n${comment}${name}=${example}\n\`\`\`\n\n`;
+  },
+} satisfies RecipeTag;
+
+/**
+ * `{% file path="src/lib/db/client.ts" %}` around a single code fence: names
+ * the file the code belongs to. Equivalent to a leading `// path` comment.
+ */
+const file = {
+  attributes: {
+    path: { type: String, required: true },
+  },
+  validate(node) {
+    const fences = node.children.filter((child) => child.type === "fence");
+    if (fences.length === 1 && node.children.length === 1) {
+      return [];
+    }
+    return [
+      {
+        id: "file-children",
+        level: "error",
+        message: "{% file %} must wrap exactly one code fence",
+      },
+    ];
+  },
+  transform(node, config) {
+    return node.children.map((child) =>
+      child.type === "fence"
+        ? new Tag("CodeBlock", {
+            ...child.transformAttributes(config),
+            filePath: node.attributes.path,
+          })
+        : Markdoc.transform(child, config),
+    );
+  },
+  toMarkdown(node) {
+    const fence = node.children.find((child) => child.type === "fence");
+    const lang = String(fence?.attributes.language ?? "");
+    const comment = HASH_COMMENT_LANGUAGES.has(lang) ? "#" : "//";
+    const content = String(fence?.attributes.content ?? "").trim();
+    return `\`\`\`${lang}\n${comment} ${node.attributes.path}\n${content}\n\`\`\`\n\n`;
+  },
+} satisfies RecipeTag;
+
+/**
+ * `{% step title="Install packages" %}`: a numbered setup step, rendered as a
+ * `### Step N: <title>` heading. Numbers are assigned by `numberSteps`.
+ */
+const step = {
+  render: "Step" as const,
+  attributes: {
+    title: { type: String, required: true },
+    number: { type: Number },
+  },
+  toMarkdown(node, children) {
+    return `### ${getStepHeading(node)}\n\n${children.trim()}\n\n`;
+  },
+} satisfies RecipeTag;
+
+export const recipeTags = {
+  registry,
+  callout,
+  tabs,
+  tab,
+  env,
+  file,
+  step,
+} satisfies Record<string, RecipeTag>;
+
+export type RecipeTagName = keyof typeof recipeTags;
+
+/** Names of the components `MarkdownBlock` must provide for the tags */
+export type RecipeTagComponent = {
+  [Name in RecipeTagName]: (typeof recipeTags)[Name] extends {
+    render: infer Component;
+  }
+    ? Component
+    : never;
+}[RecipeTagName];
+
+export function isRecipeTag(name: string | undefined): name is RecipeTagName {
+  return name !== undefined && Object.hasOwn(recipeTags, name);
+}
+
+/**
+ * Number `{% step %}` tags in document order. Numbering restarts under every
+ * `#`/`##` heading, so each recipe in a combined cookbook starts at Step 1.
+ */
+function numberSteps(ast: Node): Node {
+  let count = 0;
+  for (const node of ast.walk()) {
+    if (node.type === "heading" && Number(node.attributes.level) <= 2) {
+      count = 0;
+    } else if (node.type === "tag" && node.tag === "step") {
+      node.attributes.number = ++count;
+    }
+  }
+  return ast;
+}
+
+/** Heading text of a numbered `{% step %}` tag, e.g. "Step 2: Install packages" */
+export function getStepHeading(node: Node): string {
+  return `Step ${node.attributes.number}: ${node.attributes.title}`;
+}
+
+/** Parse recipe content with step numbers assigned, ready to transform */
+export function parseRecipeContent(content: string): Node {
+  return numberSteps(Markdoc.parse(content));
+}
+
+/**
+ * Validate recipe content against the tag registry. Unknown tags, missing
+ * required attributes, and invalid attribute values are reported as errors.
+ */
+export function validateRecipeTags(content: string): ValidateError[] {
+  return Markdoc.validate(Markdoc.parse(content), { tags: recipeTags }).filter(
+    (error) =>
+      error.error.level === "error" || error.error.level === "critical",
+  );
+}
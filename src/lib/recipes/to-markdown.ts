@@ -1,77 +1,24 @@
-import Markdoc, { type Node } from "@markdoc/markdoc";
-import { promises as fs } from "fs";
-import path from "path";
-
-type RegistryItemJson = {
-  name: string;
-  title: string;
-  description: string;
-  dependencies?: string[];
-  files: Array<{
-    path: string;
-    content: string;
-    target: string;
-  }>;
-};
-
-/**
- * Get the markdown representation of registry items.
- * Expands the {% registry %} tag into CLI command + source code.
- */
-async function getRegistryMarkdown(itemNames: string[]): Promise<string> {
-  const sections: string[] = [];
-
-  const urls = itemNames
-    .map((name) => `https://fullstackrecipes.com/r/${name}.json`)
-    .join(" ");
-  const command = `bunx --bun shadcn@latest add ${urls}`;
-
-  sections.push(
-    `**Install via shadcn registry:**\n\n\`\`\`bash\n${command}\n\`\`\``,
-  );
-
-  for (const name of itemNames) {
-    try {
-      const filePath = path.join(process.cwd(), "public", "r", `${name}.json`);
-      const content = await fs.readFile(filePath, "utf-8");
-      const data = JSON.parse(content) as RegistryItemJson;
-
-      if (data.files && data.files.length > 0) {
-        sections.push(`\n**Or copy the source code:**`);
-        for (const file of data.files) {
-          if (file.content) {
-            const ext = file.path.split(".").pop() ?? "ts";
-            const langMap: Record<string, string> = {
-              ts: "typescript",
-              tsx: "tsx",
-              js: "javascript",
-              jsx: "jsx",
-            };
-            const lang = langMap[ext] ?? ext;
-            sections.push(
-              `\n\`${file.target}\`:\n\n\`\`\`${lang}\n${file.content.trim()}\n\`\`\``,
-            );
-          }
-        }
-      }
-    } catch {
-      // Registry file not found, skip
-    }
-  }
-
-  return sections.join("\n");
-}
+import { type Node } from "@markdoc/markdoc";
+import {
+  isRecipeTag,
+  parseRecipeContent,
+  recipeTags,
+  type MarkdownOptions,
+} from "./tags";
 
 /**
  * Convert a Markdoc AST node to plain markdown.
- * Handles custom tags by expanding them to their markdown equivalents.
+ * Custom tags are expanded by their `toMarkdown` in the tag registry.
  */
-async function nodeToMarkdown(node: Node): Promise<string> {
+async function nodeToMarkdown(
+  node: Node,
+  options: MarkdownOptions,
+): Promise<string> {
   const { type, attributes, children } = node;
 
   // Process children recursively
   const childrenMd = await Promise.all(
-    (children ?? []).map((child) => nodeToMarkdown(child)),
+    (children ?? []).map((child) => nodeToMarkdown(child, options)),
   );
   const childContent = childrenMd.join("");
 
@@ -115,7 +62,7 @@ async function nodeToMarkdown(node: Node): Promise<string> {
       const ordered = attributes?.ordered ?? false;
       const items = await Promise.all(
         (children ?? []).map(async (item, index) => {
-          const itemContent = await nodeToMarkdown(item);
+          const itemContent = await nodeToMarkdown(item, options);
           const prefix = ordered ? `${index + 1}. ` : "- ";
           return `${prefix}${itemContent.trim()}`;
         }),
@@ -161,7 +108,7 @@ async function nodeToMarkdown(node: Node): Promise<string> {
 
     case "tr": {
       const cells = await Promise.all(
-        (children ?? []).map((cell) => nodeToMarkdown(cell)),
+        (children ?? []).map((cell) => nodeToMarkdown(cell, options)),
       );
       return `| ${cells.map((c) => c.trim()).join(" | ")} |\n`;
     }
@@ -171,21 +118,12 @@ async function nodeToMarkdown(node: Node): Promise<string> {
       return childContent;
 
     case "tag": {
-      const tagName = node.tag;
-
-      if (tagName === "registry") {
-        const items = (attributes?.items ?? "") as string;
-        const itemNames = items
-          .split(",")
-          .map((s) => s.trim())
-          .filter(Boolean);
-        if (itemNames.length > 0) {
-          return (await getRegistryMarkdown(itemNames)) + "\n\n";
-        }
+      if (!isRecipeTag(node.tag)) {
+        throw new Error(
+          `Unknown Markdoc tag {% ${node.tag} %}. Add it to recipeTags in src/lib/recipes/tags.ts.`,
+        );
       }
-
-      // Unknown tag, return children as-is
-      return childContent;
+      return recipeTags[node.tag].toMarkdown(node, childContent, options);
     }
 
     default:
@@ -198,9 +136,12 @@ async function nodeToMarkdown(node: Node): Promise<string> {
  * Transforms Markdoc content to plain markdown suitable for agents.
  * Expands custom tags (like {% registry %}) to their full markdown representation.
  */
-export async function toMarkdown(markdocContent: string): Promise<string> {
-  const ast = Markdoc.parse(markdocContent);
-  const markdown = await nodeToMarkdown(ast);
+export async function toMarkdown(
+  markdocContent: string,
+  options: MarkdownOptions = {},
+): Promise<string> {
+  const ast = parseRecipeContent(markdocContent);
+  const markdown = await nodeToMarkdown(ast, options);
 
   // Clean up extra whitespace
   return markdown.replace(/\n{3,}/g, "\n\n").trim();
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "bun:test";
+import { getAllItems, getCookbookBySlug } from "./data";
+import { getInstallPlan } from "./graph";
+import {
+  DEFAULT_TOKEN_BUDGET,
+  estimateTokens,
+  formatTokenCount,
+  getSelectionTokens,
+  getTokenEstimate,
+  splitSelection,
+} from "./tokens";
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("formatTokenCount", () => {
+  it("formats counts under a thousand as is", () => {
+    expect(formatTokenCount(850)).toBe("~850 tokens");
+  });
+
+  it("formats thousands with one decimal below 10k", () => {
+    expect(formatTokenCount(9_888)).toBe("~9.9k tokens");
+    expect(formatTokenCount(2_000)).toBe("~2k tokens");
+  });
+
+  it("rounds to whole thousands from 10k", () => {
+    expect(formatTokenCount(25_892)).toBe("~26k tokens");
+  });
+});
+
+describe("getTokenEstimate", () => {
+  it("has a cached estimate for every item", () => {
+    for (const item of getAllItems()) {
+      expect(getTokenEstimate(item.slug), item.slug).toBeGreaterThan(0);
+    }
+  });
+
+  it("returns undefined for unknown slugs", () => {
+    expect(getTokenEstimate("non-existent-recipe")).toBeUndefined();
+  });
+});
+
+describe("DEFAULT_TOKEN_BUDGET", () => {
+  it("leaves room for code and chat in a 128k window", () => {
+    expect(DEFAULT_TOKEN_BUDGET).toBeGreaterThan(0);
+    expect(DEFAULT_TOKEN_BUDGET).toBeLessThan(128_000);
+  });
+});
+
+describe("getSelectionTokens", () => {
+  it("sums the install plan, counting prerequisites once", () => {
+    const plan = getInstallPlan(["ai-chat", "ai-chat-persistence"]);
+    const expected = plan.reduce(
+      (total, item) => total + getTokenEstimate(item.slug)!,
+      0,
+    );
+
+    expect(getSelectionTokens(["ai-chat", "ai-chat-persistence"])).toBe(
+      expected,
+    );
+  });
+});
+
+describe("splitSelection", () => {
+  const slugs = ["base-app-setup", "authentication", "ai-chat"];
+
+  it("keeps a selection that fits in one part", () => {
+    const plan = getInstallPlan(slugs).map((item) => item.slug);
+
+    expect(splitSelection(slugs, Infinity)).toEqual([plan]);
+  });
+
+  it("fits every multi-item part in the budget, in install order", () => {
+    const budget = 30_000;
+    const parts = splitSelection(slugs, budget);
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      const tokens = part.reduce(
+        (total, slug) => total + getTokenEstimate(slug)!,
+        0,
+      );
+      if (part.length > 1) expect(tokens).toBeLessThanOrEqual(budget);
+    }
+    const plan = getInstallPlan(slugs).map((item) => item.slug);
+    expect(parts.flat()).toEqual(plan);
+  });
+
+  it("splits a cookbook over budget into its recipes", () => {
+    const cookbook = getCookbookBySlug("base-app-setup")!;
+    const parts = splitSelection(["base-app-setup"], 1);
+
+    expect(parts.flat()).toEqual(cookbook.recipes);
+  });
+});
@@ -0,0 +1,88 @@
+import { getContext } from "tokenlens";
+import { getRecipeBySlug, isCookbook } from "./data";
+import { getInstallPlan } from "./graph";
+import tokenEstimates from "./token-estimates.json";
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Model whose context window sizes the default budget. Its 128k window is
+ * the smallest among the coding agents people commonly point at recipes.
+ */
+const BUDGET_MODEL_ID = "openai:gpt-4o";
+
+/** Share of the input window recipes may fill; the rest is code and chat */
+const BUDGET_SHARE = 0.5;
+
+/**
+ * Rough token count for English prose and code: about four characters per
+ * token for common LLM tokenizers. Good enough to budget context windows.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Compact label for a token estimate, e.g. "~850 tokens" or "~9.9k tokens" */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return `~${tokens} tokens`;
+  const thousands = (tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0);
+  return `~${thousands.replace(/\.0$/, "")}k tokens`;
+}
+
+/**
+ * Estimated tokens of an item's rendered Markdown (`/recipes/<slug>.md`).
+ * Read from `token-estimates.json`, which `bun run recipes:tokens`
+ * regenerates; builds fail while it is stale.
+ */
+export function getTokenEstimate(slug: string): number | undefined {
+  return (tokenEstimates as Record<string, number>)[slug];
+}
+
+/** Default token budget for a selection, sized from `BUDGET_MODEL_ID` */
+export const DEFAULT_TOKEN_BUDGET = (() => {
+  const { maxTotal = 128_000, maxOutput = 0 } = getContext({
+    modelId: BUDGET_MODEL_ID,
+  });
+  return Math.floor((maxTotal - maxOutput) * BUDGET_SHARE);
+})();
+
+/**
+ * Estimated tokens of a selection fetched in install order: every
+ * prerequisite once, and cookbooks with the recipes they inline.
+ */
+export function getSelectionTokens(slugs: string[]): number {
+  return getInstallPlan(slugs).reduce(
+    (total, item) => total + (getTokenEstimate(item.slug) ?? 0),
+    0,
+  );
+}
+
+/**
+ * Split a selection into parts that each fit the budget, keeping install
+ * order so every part can be followed after the ones before it. A cookbook
+ * that doesn't fit on its own is split into its recipes. A single recipe
+ * over budget still gets a part of its own.
+ */
+export function splitSelection(slugs: string[], budget: number): string[][] {
+  const steps = getInstallPlan(slugs).flatMap((item) => {
+    const tokens = getTokenEstimate(item.slug) ?? 0;
+    if (!isCookbook(item) || tokens <= budget) {
+      return [{ slug: item.slug, tokens }];
+    }
+    return item.recipes
+      .filter((slug) => getRecipeBySlug(slug) !== undefined)
+      .map((slug) => ({ slug, tokens: getTokenEstimate(slug) ?? 0 }));
+  });
+
+  const parts: { slugs: string[]; tokens: number }[] = [];
+  for (const step of steps) {
+    const current = parts.at(-1);
+    if (current && current.tokens + step.tokens <= budget) {
+      current.slugs.push(step.slug);
+      current.tokens += step.tokens;
+    } else {
+      parts.push({ slugs: [step.slug], tokens: step.tokens });
+    }
+  }
+  return parts.map((part) => part.slugs);
+}
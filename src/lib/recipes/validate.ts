@@ -0,0 +1,201 @@
+import Markdoc, { type Node } from "@markdoc/markdoc";
+import { existsSync, promises as fs } from "fs";
+import path from "path";
+import {
+  getAllRecipes,
+  getItemBySlug,
+  getRecipeBySlug,
+  getRedirectSlug,
+  isSkillRecipe,
+} from "./data";
+import { getRecipeSourcePath } from "./source";
+import { recipeTags } from "./tags";
+
+/**
+ * A problem found in authored content:
+ * - "markdoc": malformed tag, unknown tag or attribute, invalid value
+ * - "broken-link": internal link to a recipe or page that doesn't exist
+ * - "missing-source": a recipe in `data.tsx` has no source file
+ * - "orphaned-source": a source file has no recipe in `data.tsx`
+ */
+export type ContentIssue = {
+  kind: "markdoc" | "broken-link" | "missing-source" | "orphaned-source";
+  /** Repo-relative file the issue is in */
+  file: string;
+  /** 1-based line, or null when the issue concerns the whole file */
+  line: number | null;
+  message: string;
+};
+
+const ROOT_DIR = process.cwd();
+const APP_DIR = path.join(ROOT_DIR, "src", "app");
+const SITE_ORIGIN = "https://fullstackrecipes.com";
+
+function relativePath(filePath: string): string {
+  return path.relative(ROOT_DIR, filePath);
+}
+
+/** Every authored content file: setup recipes, skills, and the landing page */
+async function getContentFiles(): Promise<string[]> {
+  const recipeFiles = (await fs.readdir(path.join(ROOT_DIR, "docs", "recipes")))
+    .filter((name) => name.endsWith(".md"))
+    .map((name) => path.join("docs", "recipes", name));
+
+  const skillDirs = await fs.readdir(path.join(ROOT_DIR, "skills"), {
+    withFileTypes: true,
+  });
+  const skillFiles = skillDirs
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => path.join("skills", entry.name, "SKILL.md"))
+    .filter((file) => existsSync(path.join(ROOT_DIR, file)));
+
+  return [
+    ...recipeFiles,
+    ...skillFiles,
+    path.join("docs", "landing.md"),
+  ].sort();
+}
+
+/**
+ * Why an internal link doesn't resolve, or null when it does (or isn't
+ * internal). Recipe links must name a catalog slug; other site paths must
+ * match a route under `src/app`.
+ */
+function checkLink(href: string): string | null {
+  const url = href.startsWith(SITE_ORIGIN)
+    ? href.slice(SITE_ORIGIN.length) || "/"
+    : href;
+  if (!url.startsWith("/") || url.startsWith("//")) {
+    return null;
+  }
+
+  const pathname = url.split(/[?#]/)[0];
+  const recipeMatch = pathname.match(/^\/recipes\/([^/]+?)(?:\.md)?$/);
+  if (recipeMatch) {
+    const slug = recipeMatch[1];
+    if (getItemBySlug(slug)) return null;
+    const redirectSlug = getRedirectSlug(slug);
+    return redirectSlug
+      ? `Link to renamed recipe "${slug}", use /recipes/${redirectSlug}`
+      : `Link to unknown recipe "${slug}"`;
+  }
+
+  // Markdown twins (`/<path>.md`) resolve like the page they mirror
+  const segments = pathname.replace(/\.md$/, "").split("/").filter(Boolean);
+  if (segments.length === 0 || segments[0] === "index") return null;
+  const routeDir = path.join(APP_DIR, ...segments);
+  const exists = ["page.tsx", "route.ts"].some((file) =>
+    existsSync(path.join(routeDir, file)),
+  );
+  return exists ? null : `Link to unknown page "${pathname}"`;
+}
+
+function collectLinks(ast: Node): Node[] {
+  return Array.from(ast.walk()).filter((node) => node.type === "link");
+}
+
+/**
+ * Validate one content file: Markdoc syntax against the tag registry, and
+ * internal links. Frontmatter is parsed by Markdoc, so lines match the file.
+ */
+export function validateContent(file: string, content: string): ContentIssue[] {
+  const ast = Markdoc.parse(content);
+  const issues: ContentIssue[] = [];
+
+  for (const { lines, error } of Markdoc.validate(ast, { tags: recipeTags })) {
+    if (error.level !== "error" && error.level !== "critical") continue;
+    issues.push({
+      kind: "markdoc",
+      file,
+      line: lines.length > 0 ? lines[0] + 1 : null,
+      message: error.message,
+    });
+  }
+
+  for (const link of collectLinks(ast)) {
+    const message = checkLink(String(link.attributes.href ?? ""));
+    if (message) {
+      issues.push({
+        kind: "broken-link",
+        file,
+        line: link.lines.length > 0 ? link.lines[0] + 1 : null,
+        message,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that every recipe in `data.tsx` has a source file and every source
+ * file under `docs/recipes` and `skills/` belongs to a recipe.
+ */
+async function checkSourceFiles(files: string[]): Promise<ContentIssue[]> {
+  const issues: ContentIssue[] = [];
+
+  for (const recipe of getAllRecipes()) {
+    const file = relativePath(getRecipeSourcePath(recipe));
+    if (!files.includes(file)) {
+      issues.push({
+        kind: "missing-source",
+        file,
+        line: null,
+        message: `Recipe "${recipe.slug}" has no source file`,
+      });
+    }
+  }
+
+  for (const file of files) {
+    const recipeMatch = file.match(/^docs\/recipes\/(.+)\.md$/);
+    const skillMatch = file.match(/^skills\/([^/]+)\/SKILL\.md$/);
+    const slug = recipeMatch?.[1] ?? skillMatch?.[1];
+    if (!slug) continue;
+
+    const recipe = getRecipeBySlug(slug);
+    if (!recipe) {
+      issues.push({
+        kind: "orphaned-source",
+        file,
+        line: null,
+        message: `No recipe with slug "${slug}" in data.tsx`,
+      });
+      // Setup recipes may also ship a pointer skill in skills/, but a skill's
+      // source never lives in docs/recipes
+    } else if (recipeMatch && isSkillRecipe(recipe)) {
+      issues.push({
+        kind: "orphaned-source",
+        file,
+        line: null,
+        message: `"${slug}" is a ${recipe.type} recipe, so its source belongs at ${relativePath(getRecipeSourcePath(recipe))}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate all authored content: every recipe, skill, and the landing page,
+ * plus the mapping between `data.tsx` slugs and source files. Returns the
+ * issues sorted by file and line; an empty list means the content is valid.
+ */
+export async function validateAllContent(): Promise<ContentIssue[]> {
+  const files = await getContentFiles();
+  const issues = await checkSourceFiles(files);
+
+  for (const file of files) {
+    const content = await fs.readFile(path.join(ROOT_DIR, file), "utf-8");
+    issues.push(...validateContent(file, content));
+  }
+
+  return issues.sort(
+    (a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0),
+  );
+}
+
+/** Format an issue as `file:line: message` for terminal and CI output */
+export function formatContentIssue(issue: ContentIssue): string {
+  const location = issue.line ? `${issue.file}:${issue.line}` : issue.file;
+  return `${location}: ${issue.message} (${issue.kind})`;
+}
@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { prefersMarkdown, resolvePageTwin } from "@/lib/recipes/negotiation";
+
+/**
+ * Content negotiation for pages with a Markdown twin. Requests whose Accept
+ * header prefers `text/markdown` are rewritten to the Markdown handler
+ * (`/md/[[...path]]`, or `/c/[id]/md` for custom cookbooks), so agents get
+ * Markdown from the page URL itself. Both variants carry `Vary: Accept` and a
+ * `Link: rel="alternate"` to the other one.
+ * Renamed recipe slugs redirect before negotiating.
+ */
+export function proxy(request: NextRequest) {
+  const twin = resolvePageTwin(request.nextUrl.pathname);
+  if (!twin) {
+    return NextResponse.next();
+  }
+
+  if (twin.kind === "redirect") {
+    const url = request.nextUrl.clone();
+    url.pathname = twin.location;
+    return NextResponse.redirect(url, 308);
+  }
+
+  const { origin, pathname } = request.nextUrl;
+  if (prefersMarkdown(request.headers.get("Accept"))) {
+    const response = NextResponse.rewrite(
+      new URL(twin.handlerPath, request.url),
+    );
+    response.headers.set("Vary", "Accept");
+    response.headers.set(
+      "Link",
+      `<${origin}${pathname}>; rel="alternate"; type="text/html"`,
+    );
+    return response;
+  }
+
+  const response = NextResponse.next();
+  response.headers.set("Vary", "Accept");
+  response.headers.set(
+    "Link",
+    `<${origin}${twin.markdownPath}>; rel="alternate"; type="text/markdown"`,
+  );
+  return response;
+}
+
+export const config = {
+  matcher: ["/", "/recipes", "/recipes/:slug", "/c/:id"],
+};
@@ -15,6 +15,9 @@ import { nameChatStep } from "./steps/name-chat";
 import { researchAgent } from "@/lib/ai/research";
 import { draftingAgent } from "@/lib/ai/drafting";
 
+// Latest messages sent to the router and agents
+const HISTORY_WINDOW = 50;
+
 /**
  * Main chat workflow that routes between research and drafting agents.
  * Uses runId for stream resumability on client reconnection.
@@ -37,7 +40,7 @@ export async function chatWorkflow({
     runId: workflowRunId,
   });
 
-  const history = await getMessageHistory(chatId);
+  const history = await getMessageHistory(chatId, { limit: HISTORY_WINDOW });
 
   await startStream(messageId);
 
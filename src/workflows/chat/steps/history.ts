@@ -3,6 +3,7 @@ import {
   convertDbMessagesToUIMessages,
   persistMessage,
   getChatMessages,
+  getChatMessagesPage,
   clearMessageRunId,
   insertMessageParts,
 } from "@/lib/chat/queries";
@@ -47,12 +48,19 @@ export async function createAssistantMessage({
   return messageId;
 }
 
+/**
+ * Loads the chat's messages, or only the latest `limit` messages to bound
+ * the context sent to the model.
+ */
 export async function getMessageHistory(
   chatId: string,
+  { limit }: { limit?: number } = {},
 ): Promise<ChatAgentUIMessage[]> {
   "use step";
 
-  const messageHistory = await getChatMessages(chatId);
+  const messageHistory = limit
+    ? (await getChatMessagesPage(chatId, { limit })).messages
+    : await getChatMessages(chatId);
   return convertDbMessagesToUIMessages(messageHistory);
 }
 
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "bun:test";
+import { GET as getBundle } from "@/app/api/recipes/bundle/route";
+import { GET as getMarkdown } from "@/app/md/[[...path]]/route";
+
+/**
+ * E2E tests for the recipe bundle endpoints.
+ *
+ * These tests verify:
+ * 1. Missing and unknown slugs are rejected
+ * 2. Prerequisites are included in install order with a table of contents
+ * 3. Recipes shared by a cookbook and a selected recipe appear once
+ * 4. `/bundle.md` serves the same document as Markdown
+ */
+
+async function bundle(query: string, accept?: string): Promise<Response> {
+  const url = `http://localhost:3000/api/recipes/bundle?${query}`;
+  return getBundle(
+    new Request(url, { headers: accept ? { Accept: accept } : {} }),
+  );
+}
+
+async function bundleContent(slugs: string): Promise<string> {
+  const response = await bundle(`slugs=${slugs}`);
+  expect(response.status).toBe(200);
+  const data = await response.json();
+  return data.content;
+}
+
+describe("GET /api/recipes/bundle", () => {
+  it("should return 400 when slugs are missing", async () => {
+    const response = await bundle("slugs=,");
+
+    expect(response.status).toBe(400);
+    const data = await response.json();
+    expect(data.error).toBe("Missing slugs");
+  });
+
+  it("should return 404 for unknown slugs", async () => {
+    const response = await bundle("slugs=ai-chat,non-existent-recipe");
+
+    expect(response.status).toBe(404);
+    const data = await response.json();
+    expect(data.error).toBe("Unknown slugs: non-existent-recipe");
+  });
+
+  it("should resolve redirected slugs", async () => {
+    const response = await bundle("slugs=using-drizzle-queries");
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.slugs).toEqual(["drizzle-queries"]);
+  });
+
+  it("should include prerequisites before the selected recipes", async () => {
+    const content = await bundleContent("ai-chat");
+
+    expect(content).toContain("## Contents");
+    const neon = content.indexOf("## Neon + Drizzle Setup");
+    const chat = content.indexOf("## AI Chat");
+    expect(neon).toBeGreaterThan(-1);
+    expect(chat).toBeGreaterThan(neon);
+  });
+
+  it("should link table of contents entries to section anchors", async () => {
+    const content = await bundleContent("drizzle-queries");
+
+    expect(content).toContain("](#neon-drizzle-setup)");
+  });
+
+  it("should include recipes shared by several selections once", async () => {
+    const content = await bundleContent("base-app-setup,neon-drizzle-setup");
+
+    const headings = content.match(/^## Neon \+ Drizzle Setup$/gm) ?? [];
+    expect(headings).toHaveLength(1);
+  });
+
+  it("should expand custom Markdoc tags", async () => {
+    const content = await bundleContent("ai-chat");
+
+    expect(content).not.toMatch(/\{%\s*registry/);
+  });
+
+  it("should return raw markdown when Accept is text/markdown", async () => {
+    const response = await bundle("slugs=ai-chat", "text/markdown");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/markdown; charset=utf-8",
+    );
+    const text = await response.text();
+    expect(text).toStartWith("# Recipe Bundle: AI Chat");
+  });
+});
+
+describe("GET /bundle.md", () => {
+  it("should serve the bundle as markdown", async () => {
+    const url = "http://localhost:3000/md/bundle?slugs=ai-chat,resend-setup";
+    const response = await getMarkdown(new Request(url), {
+      params: Promise.resolve({ path: ["bundle"] }),
+    });
+
+    expect(response.status).toBe(200);
+    const text = await response.text();
+    expect(text).toStartWith("# Recipe Bundle: AI Chat, Resend Setup");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "bun:test";
+import { execFileSync } from "child_process";
+import { GET as getFeed } from "@/app/feed.xml/route";
+import sitemap from "@/app/sitemap";
+import {
+  getAllItems,
+  getAllRecipes,
+  getItemBySlug,
+  type Cookbook,
+} from "@/lib/recipes/data";
+import { getChangelog } from "@/lib/recipes/changelog";
+import { loadRecipeMarkdown } from "@/lib/recipes/loader";
+
+/**
+ * E2E tests for recipe versions and changelogs.
+ *
+ * These tests verify:
+ * 1. Every item is dated: by its newest changelog entry, or by the last
+ *    commit to its source file while it has no entries
+ * 2. The `.md` output starts with a version header
+ * 3. The sitemap uses each recipe's last update as lastModified
+ * 4. /feed.xml is an Atom feed of recipe updates, newest first
+ */
+
+function lastCommitDate(file: string): string {
+  return execFileSync("git", ["log", "-1", "--format=%cs", "--", file], {
+    encoding: "utf-8",
+  }).trim();
+}
+
+describe("recipe changelogs", () => {
+  it("should date every item", async () => {
+    for (const item of getAllItems()) {
+      const changelog = await getChangelog(item);
+      expect(changelog?.updatedAt).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    }
+  });
+
+  it("should date recipes without entries by their last commit", async () => {
+    const changelog = await getChangelog(getItemBySlug("assert")!);
+
+    expect(changelog).toEqual({
+      version: null,
+      updatedAt: lastCommitDate("docs/recipes/assert.md"),
+      entries: [],
+    });
+  });
+
+  it("should date cookbooks by their most recently updated recipe", async () => {
+    const cookbook = getItemBySlug("base-app-setup") as Cookbook;
+    const changelog = await getChangelog(cookbook);
+    const recipeDates = await Promise.all(
+      cookbook.recipes.map(
+        async (slug) => (await getChangelog(getItemBySlug(slug)!))!.updatedAt,
+      ),
+    );
+
+    expect(changelog?.version).toBeNull();
+    expect(changelog?.updatedAt).toBe(recipeDates.sort().at(-1)!);
+  });
+
+  it("should include the last update in the markdown", async () => {
+    const item = getItemBySlug("neon-drizzle-setup")!;
+    const { updatedAt } = (await getChangelog(item))!;
+    const markdown = await loadRecipeMarkdown(item);
+
+    expect(markdown).toContain(`> Last updated ${updatedAt}\n`);
+    expect(markdown.indexOf("> Last updated")).toBeLessThan(
+      markdown.indexOf("\n## "),
+    );
+  });
+});
+
+describe("sitemap", () => {
+  it("should use each recipe's last update as lastModified", async () => {
+    const entries = await sitemap();
+
+    for (const slug of ["assert", "neon-drizzle-setup", "base-app-setup"]) {
+      const { updatedAt } = (await getChangelog(getItemBySlug(slug)!))!;
+      const entry = entries.find((e) => e.url.endsWith(`/recipes/${slug}`));
+      expect(entry?.lastModified).toEqual(new Date(updatedAt));
+    }
+  });
+});
+
+describe("GET /feed.xml", () => {
+  it("should return an Atom feed", async () => {
+    const response = await getFeed();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/atom+xml; charset=utf-8",
+    );
+    const xml = await response.text();
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+  });
+
+  it("should list recipe updates newest first with recipe links", async () => {
+    const xml = await (await getFeed()).text();
+
+    const dates = Array.from(
+      xml.matchAll(/<entry>[\s\S]*?<updated>([^<]+)<\/updated>/g),
+      ([, date]) => date,
+    );
+    expect(dates).toHaveLength(Math.min(getAllRecipes().length, 50));
+    expect(dates).toEqual([...dates].sort().reverse());
+    expect(xml).toContain(
+      'href="https://fullstackrecipes.com/recipes/use-fullstackrecipes.md"',
+    );
+  });
+
+  it("should link updates without a changelog entry to their diff", async () => {
+    const xml = await (await getFeed()).text();
+    const date = lastCommitDate("docs/recipes/assert.md");
+
+    expect(xml).toContain(
+      `<title>${getItemBySlug("assert")!.title} updated</title>`,
+    );
+    expect(xml).toContain(
+      `href="https://fullstackrecipes.com/recipes/assert.diff?from=${date}"`,
+    );
+  });
+});
@@ -0,0 +1,458 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { v7 as uuidv7 } from "uuid";
+import { eq } from "drizzle-orm";
+import { users } from "@/lib/auth/schema";
+import {
+  CHAT_EXPORT_VERSION,
+  CHAT_IMPORT_MAX_BYTES,
+  CHAT_IMPORT_MAX_CHATS,
+  getChatExportFilename,
+  parseChatImport,
+  readChatImportBody,
+  renderChatMarkdown,
+  streamChatsMarkdown,
+  writeChatsExport,
+  type ChatExport,
+  type ChatExportEntry,
+  type ChatExportMessage,
+} from "@/lib/chat/export";
+import type { ChatToolPart } from "@/workflows/chat/types";
+
+/**
+ * E2E tests for exporting and importing chats.
+ *
+ * These tests verify:
+ * 1. Imports accept one chat or all chats, and reject unknown versions,
+ *    roles, malformed parts and oversized bodies before anything is written
+ * 2. Markdown exports read as a transcript, without transient parts
+ * 3. JSON exports of all chats come in parts that each import in one go
+ * 4. A chat with every kind of part survives export, import and export
+ *    again unchanged apart from its IDs, and exports of all chats walk
+ *    every chat across batches (against the branch database of
+ *    `bun run test:integration`; skipped without DATABASE_URL)
+ */
+
+const CREATED_AT = "2026-10-19T08:00:00.000Z";
+
+const MESSAGES: ChatExportMessage[] = [
+  {
+    id: "019a0000-0000-7000-8000-000000000001",
+    role: "user",
+    createdAt: "2026-10-19T08:00:01.000Z",
+    parts: [
+      { type: "step-start" },
+      { type: "text", text: "Draft a tweet about sourdough", state: "done" },
+      {
+        type: "file",
+        mediaType: "image/png",
+        url: "data:image/png;base64,iVBORw0KGgo=",
+        filename: "loaf.png",
+      },
+    ],
+  },
+  {
+    id: "019a0000-0000-7000-8000-000000000002",
+    role: "assistant",
+    createdAt: "2026-10-19T08:00:02.000Z",
+    parts: [
+      { type: "step-start" },
+      { type: "data-progress", data: { text: "Researching" } },
+      { type: "reasoning", text: "Find a fact.\nKeep it short." },
+      {
+        type: "tool-countCharacters",
+        toolCallId: "call-1",
+        state: "output-available",
+        input: { text: "Sourdough ```rises```" },
+        output: { characterCount: 21 },
+        title: "Count characters",
+        providerExecuted: true,
+      } as ChatToolPart,
+      {
+        type: "tool-urlContext",
+        toolCallId: "call-2",
+        state: "output-error",
+        input: { urls: ["https://example.com"] },
+        errorText: "Fetch failed",
+      } as ChatToolPart,
+      {
+        type: "source-url",
+        sourceId: "src-1",
+        url: "https://example.com/sourdough",
+        title: "Sourdough 101",
+        providerMetadata: { google: { score: 0.9 } },
+      },
+      {
+        type: "source-document",
+        sourceId: "src-2",
+        mediaType: "application/pdf",
+        title: "Baking notes",
+        filename: "notes.pdf",
+      },
+      { type: "text", text: "Sourdough rises slowly.", state: "done" },
+    ],
+  },
+];
+
+const EXPORT: ChatExport = {
+  version: CHAT_EXPORT_VERSION,
+  chat: {
+    id: "019a0000-0000-7000-8000-000000000000",
+    title: "Sourdough tweet",
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+  },
+  messages: MESSAGES,
+};
+
+describe("parseChatImport", () => {
+  it("should accept one chat or all chats", () => {
+    expect(parseChatImport(EXPORT)).toEqual({ chats: [EXPORT] });
+    expect(
+      parseChatImport({ version: CHAT_EXPORT_VERSION, chats: [EXPORT] }),
+    ).toEqual({ chats: [EXPORT] });
+  });
+
+  it("should reject exports it can't recreate", () => {
+    expect(parseChatImport(null)).toHaveProperty("error");
+    expect(parseChatImport({ ...EXPORT, version: 2 })).toHaveProperty("error");
+    expect(
+      parseChatImport({
+        ...EXPORT,
+        messages: [{ ...MESSAGES[0], role: "tool" }],
+      }),
+    ).toHaveProperty("error");
+    expect(
+      parseChatImport({
+        ...EXPORT,
+        messages: [{ ...MESSAGES[0], parts: [{ type: "tool-deleteAll" }] }],
+      }),
+    ).toHaveProperty("error");
+  });
+
+  it("should check each part's fields, not just its type", () => {
+    const withPart = (part: unknown) =>
+      parseChatImport({
+        ...EXPORT,
+        messages: [{ ...MESSAGES[1], parts: [part] }],
+      });
+
+    expect(withPart({ type: "text", text: 42 })).toHaveProperty("error");
+    expect(
+      withPart({ type: "file", url: "https://example.com" }),
+    ).toHaveProperty("error");
+    expect(withPart({ type: "data-progress", data: null })).toHaveProperty(
+      "error",
+    );
+    expect(
+      withPart({
+        type: "tool-countCharacters",
+        state: "output-available",
+        input: { text: "hi" },
+        output: { characterCount: 2 },
+      }),
+    ).toHaveProperty("error");
+    // Calls still in flight aren't stored, so they can't be recreated
+    expect(
+      withPart({
+        type: "tool-countCharacters",
+        toolCallId: "call-1",
+        state: "input-available",
+        input: { text: "hi" },
+      }),
+    ).toHaveProperty("error");
+  });
+
+  it("should drop fields parts don't store", () => {
+    const parsed = parseChatImport({
+      ...EXPORT,
+      messages: [
+        {
+          ...MESSAGES[0],
+          parts: [{ type: "text", text: "Hi", injected: "<script>" }],
+        },
+      ],
+    });
+
+    expect(parsed).toEqual({
+      chats: [
+        {
+          ...EXPORT,
+          messages: [{ ...MESSAGES[0], parts: [{ type: "text", text: "Hi" }] }],
+        },
+      ],
+    });
+  });
+
+  it("should cap the chats in one import", () => {
+    expect(
+      parseChatImport({
+        version: CHAT_EXPORT_VERSION,
+        chats: Array.from({ length: CHAT_IMPORT_MAX_CHATS + 1 }, () => EXPORT),
+      }),
+    ).toHaveProperty("error");
+  });
+});
+
+describe("readChatImportBody", () => {
+  const post = (body: BodyInit, headers?: HeadersInit) =>
+    new Request("http://localhost/api/chats/import", {
+      method: "POST",
+      body,
+      headers,
+    });
+
+  it("should parse JSON bodies", async () => {
+    expect(await readChatImportBody(post(JSON.stringify(EXPORT)))).toEqual({
+      body: EXPORT,
+    });
+    expect(await readChatImportBody(post("{"))).toEqual({
+      error: "invalid-json",
+    });
+  });
+
+  it("should refuse bodies over the limit", async () => {
+    expect(
+      await readChatImportBody(
+        post("{}", { "Content-Length": `${CHAT_IMPORT_MAX_BYTES + 1}` }),
+      ),
+    ).toEqual({ error: "too-large" });
+
+    // Streamed without a length, the body is cut off as it arrives
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += chunk.byteLength;
+        controller.enqueue(chunk);
+        if (sent > CHAT_IMPORT_MAX_BYTES * 2) controller.close();
+      },
+    });
+    expect(await readChatImportBody(post(stream))).toEqual({
+      error: "too-large",
+    });
+    expect(sent).toBeLessThan(CHAT_IMPORT_MAX_BYTES * 2);
+  });
+});
+
+describe("renderChatMarkdown", () => {
+  const markdown = renderChatMarkdown(EXPORT);
+
+  it("should render a transcript with role headings", () => {
+    expect(markdown).toStartWith("# Sourdough tweet\n");
+    expect(markdown).toContain("## User\n\nDraft a tweet about sourdough");
+    expect(markdown).toContain("> Find a fact.\n> Keep it short.");
+    expect(markdown).toContain("Sourdough rises slowly.");
+  });
+
+  it("should render tools, sources and attachments", () => {
+    expect(markdown).toContain("**Tool: countCharacters**");
+    // Fences outgrow the backticks inside tool input
+    expect(markdown).toContain(
+      '````json\n{\n  "text": "Sourdough ```rises```"',
+    );
+    expect(markdown).toContain("Error: Fetch failed");
+    expect(markdown).toContain(
+      "Source: [Sourdough 101](https://example.com/sourdough)",
+    );
+    expect(markdown).toContain("Source: Baking notes (notes.pdf)");
+    expect(markdown).toContain("Attachment: loaf.png");
+  });
+
+  it("should leave out transient progress and data URLs", () => {
+    expect(markdown).not.toContain("Researching");
+    expect(markdown).not.toContain("data:image");
+  });
+});
+
+async function* exportEntries(count: number): AsyncGenerator<ChatExportEntry> {
+  for (let i = 0; i < count; i++) {
+    yield {
+      exported: { ...EXPORT, chat: { ...EXPORT.chat, id: `chat-${i}` } },
+      cursor: `cursor-${i}`,
+    };
+  }
+}
+
+describe("writeChatsExport", () => {
+  const chatIds = (json: string) =>
+    (JSON.parse(json) as { chats: ChatExport[] }).chats.map(
+      (exported) => exported.chat.id,
+    );
+
+  it("should write the same JSON as stringifying the export", async () => {
+    const chats = await Array.fromAsync(
+      exportEntries(3),
+      ({ exported }) => exported,
+    );
+
+    expect(await writeChatsExport(exportEntries(3))).toEqual({
+      json: JSON.stringify({ version: CHAT_EXPORT_VERSION, chats }, null, 2),
+      next: null,
+    });
+    expect(await writeChatsExport(exportEntries(0))).toEqual({
+      json: JSON.stringify(
+        { version: CHAT_EXPORT_VERSION, chats: [] },
+        null,
+        2,
+      ),
+      next: null,
+    });
+  });
+
+  it("should stop at the chats one import accepts", async () => {
+    const { json, next } = await writeChatsExport(
+      exportEntries(CHAT_IMPORT_MAX_CHATS + 1),
+    );
+
+    expect(parseChatImport(JSON.parse(json))).not.toHaveProperty("error");
+    expect(chatIds(json)).toHaveLength(CHAT_IMPORT_MAX_CHATS);
+    expect(next).toBe(`cursor-${CHAT_IMPORT_MAX_CHATS - 1}`);
+  });
+
+  it("should stop before the bytes one import accepts", async () => {
+    const two = await writeChatsExport(exportEntries(2));
+    const maxBytes = Buffer.byteLength(two.json) + 100;
+    const { json, next } = await writeChatsExport(exportEntries(5), {
+      maxBytes,
+    });
+
+    expect(json).toBe(two.json);
+    expect(next).toBe("cursor-1");
+  });
+
+  it("should write a chat over the byte limit alone", async () => {
+    const { json, next } = await writeChatsExport(exportEntries(2), {
+      maxBytes: 100,
+    });
+
+    expect(chatIds(json)).toEqual(["chat-0"]);
+    expect(next).toBe("cursor-0");
+  });
+});
+
+describe("streamChatsMarkdown", () => {
+  it("should render the chats one after another", async () => {
+    const chats = await Array.fromAsync(
+      exportEntries(2),
+      ({ exported }) => exported,
+    );
+
+    expect(
+      await new Response(streamChatsMarkdown(exportEntries(2))).text(),
+    ).toBe(chats.map(renderChatMarkdown).join("\n---\n\n"));
+  });
+});
+
+describe("getChatExportFilename", () => {
+  it("should slugify the title", () => {
+    expect(getChatExportFilename("Sourdough: a tweet!", "md")).toBe(
+      "sourdough-a-tweet.md",
+    );
+    expect(getChatExportFilename("🍞", "json")).toBe("chat.json");
+  });
+});
+
+describe.skipIf(!process.env.DATABASE_URL)("chat export round trip", () => {
+  let queries: typeof import("@/lib/chat/queries");
+  let db: (typeof import("@/lib/db/client"))["db"];
+  const userId = `export-test-${uuidv7()}`;
+
+  const exportAll = () =>
+    Array.fromAsync(
+      queries.getUserChatExports(userId),
+      ({ exported }) => exported,
+    );
+
+  function withoutIds(exported: ChatExport) {
+    return {
+      ...exported,
+      chat: { ...exported.chat, id: undefined },
+      messages: exported.messages.map((message) => ({
+        ...message,
+        id: undefined,
+      })),
+    };
+  }
+
+  beforeAll(async () => {
+    ({ db } = await import("@/lib/db/client"));
+    queries = await import("@/lib/chat/queries");
+    await db.insert(users).values({
+      id: userId,
+      name: "Export Test",
+      email: `${userId}@example.com`,
+    });
+  });
+
+  afterAll(async () => {
+    // Chats, messages and parts cascade
+    await db?.delete(users).where(eq(users.id, userId));
+  });
+
+  it("should recreate a chat with every kind of part", async () => {
+    const chatId = await queries.importChat(userId, EXPORT);
+    const exported = await queries.getChatExport(chatId, userId);
+
+    expect(exported).not.toBeNull();
+    expect(exported!.chat.id).toBe(chatId);
+    expect(withoutIds(exported!)).toEqual(withoutIds(EXPORT));
+  });
+
+  it("should survive export, JSON and import again", async () => {
+    const chatId = await queries.importChat(userId, EXPORT);
+    const first = await queries.getChatExport(chatId, userId);
+    const parsed = parseChatImport(JSON.parse(JSON.stringify(first)));
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    const copyId = await queries.importChat(userId, parsed.chats[0]);
+    const second = await queries.getChatExport(copyId, userId);
+
+    expect(copyId).not.toBe(chatId);
+    expect(withoutIds(second!)).toEqual(withoutIds(first!));
+  });
+
+  it("should only export the user's own chats", async () => {
+    const chatId = await queries.importChat(userId, EXPORT);
+    expect(await queries.getChatExport(chatId, "someone-else")).toBeNull();
+    expect((await exportAll()).map((exported) => exported.chat.id)).toContain(
+      chatId,
+    );
+  });
+
+  it("should export every chat across batches, oldest first", async () => {
+    for (let i = 0; i < 4; i++) {
+      await queries.importChat(userId, EXPORT);
+    }
+    const all = await Array.fromAsync(queries.getUserChatExports(userId));
+    const batched = await Array.fromAsync(
+      queries.getUserChatExports(userId, { batchSize: 2 }),
+    );
+
+    expect(all.length).toBeGreaterThan(4);
+    expect(batched).toEqual(all);
+    expect(all.map(({ exported }) => exported.chat.createdAt)).toEqual(
+      all.map(({ exported }) => exported.chat.createdAt).sort(),
+    );
+
+    const rest = await Array.fromAsync(
+      queries.getUserChatExports(userId, { after: all[1].cursor }),
+    );
+    expect(rest).toEqual(all.slice(2));
+  });
+
+  it("should leave nothing behind when an import fails", async () => {
+    const before = await exportAll();
+    const broken: ChatExport = {
+      ...EXPORT,
+      messages: [
+        {
+          ...MESSAGES[1],
+          parts: [{ type: "data-unknown", data: {} } as never],
+        },
+      ],
+    };
+
+    await expect(queries.importChat(userId, broken)).rejects.toThrow();
+    expect(await exportAll()).toHaveLength(before.length);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterAll, mock } from "bun:test";
+import { inArray } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { users } from "@/lib/auth/schema";
+import { chats, messages, messageTexts } from "@/lib/chat/schema";
+import { CHAT_MESSAGES_PAGE_SIZE } from "@/lib/chat/pagination";
+
+/**
+ * E2E tests for paging chat history by message ID.
+ *
+ * These tests verify (against the branch database of
+ * `bun run test:integration`; skipped without DATABASE_URL):
+ * 1. The newest page comes first, oldest message first, with its parts
+ * 2. Following `before` walks the whole history without duplicates or gaps,
+ *    and the oldest page has no `before`
+ * 3. Loading older messages only works for the signed-in user's own chats
+ */
+
+describe.skipIf(!process.env.DATABASE_URL)("chat history pages", () => {
+  let db: (typeof import("@/lib/db/client"))["db"];
+  let queries: typeof import("@/lib/chat/queries");
+  let loadOlderMessagesAction: (typeof import("@/lib/chat/actions"))["loadOlderMessagesAction"];
+  let sessionUserId: string | null = null;
+
+  const userId = `history-test-${uuidv7()}`;
+  const otherUserId = `history-test-${uuidv7()}`;
+  const chatId = uuidv7();
+  // Sorted like Postgres sorts UUIDs, which is the order they were created in
+  let messageIds: string[] = [];
+
+  beforeAll(async () => {
+    mock.module("next/headers", () => ({ headers: async () => new Headers() }));
+    mock.module("@/lib/auth/server", () => ({
+      auth: {
+        api: {
+          getSession: async () =>
+            sessionUserId ? { user: { id: sessionUserId } } : null,
+        },
+      },
+    }));
+
+    ({ db } = await import("@/lib/db/client"));
+    queries = await import("@/lib/chat/queries");
+    ({ loadOlderMessagesAction } = await import("@/lib/chat/actions"));
+
+    // Two full pages and a partial one
+    const count = CHAT_MESSAGES_PAGE_SIZE * 2 + 5;
+    messageIds = Array.from({ length: count }, () => uuidv7()).sort();
+
+    await db.insert(users).values([
+      { id: userId, name: "History Test", email: `${userId}@example.com` },
+      { id: otherUserId, name: "Other", email: `${otherUserId}@example.com` },
+    ]);
+    await db.insert(chats).values({ id: chatId, userId, title: "Long chat" });
+    await db.insert(messages).values(
+      messageIds.map((id, i) => ({
+        id,
+        chatId,
+        role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+      })),
+    );
+    await db.insert(messageTexts).values(
+      messageIds.map((messageId, i) => ({
+        chatId,
+        messageId,
+        text: `Message ${i}`,
+      })),
+    );
+  });
+
+  afterAll(async () => {
+    // Chats, messages and parts cascade
+    await db?.delete(users).where(inArray(users.id, [userId, otherUserId]));
+  });
+
+  it("should return the newest page, oldest message first", async () => {
+    const page = await queries.getChatMessagesPage(chatId);
+    const newest = messageIds.slice(-CHAT_MESSAGES_PAGE_SIZE);
+
+    expect(page.messages.map((message) => message.id)).toEqual(newest);
+    expect(page.before).toBe(newest[0]);
+    expect(page.messages.at(-1)!.parts).toMatchObject([
+      { type: "text", text: `Message ${messageIds.length - 1}` },
+    ]);
+  });
+
+  it("should walk the whole history without duplicates or gaps", async () => {
+    const pages: string[][] = [];
+    let before: string | null = null;
+    do {
+      const page = await queries.getChatMessagesPage(chatId, { before });
+      pages.push(page.messages.map((message) => message.id));
+      before = page.before;
+    } while (before && pages.length <= messageIds.length);
+
+    expect(pages.map((page) => page.length)).toEqual([
+      CHAT_MESSAGES_PAGE_SIZE,
+      CHAT_MESSAGES_PAGE_SIZE,
+      5,
+    ]);
+    expect(pages.reverse().flat()).toEqual(messageIds);
+  });
+
+  it("should have no older page when the history fits in one", async () => {
+    const page = await queries.getChatMessagesPage(chatId, {
+      limit: messageIds.length,
+    });
+
+    expect(page.messages).toHaveLength(messageIds.length);
+    expect(page.before).toBeNull();
+  });
+
+  it("should load older messages of the user's own chats only", async () => {
+    const before = messageIds[10];
+
+    sessionUserId = userId;
+    const result = await loadOlderMessagesAction(chatId, before);
+    expect(result).toMatchObject({ success: true, before: null });
+    expect(result.messages?.map((message) => message.id)).toEqual(
+      messageIds.slice(0, 10),
+    );
+
+    sessionUserId = otherUserId;
+    expect(await loadOlderMessagesAction(chatId, before)).toEqual({
+      error: "Chat not found",
+    });
+
+    sessionUserId = null;
+    expect(await loadOlderMessagesAction(chatId, before)).toEqual({
+      error: "Unauthorized",
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeAll, afterAll, mock } from "bun:test";
+import { inArray, sql } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { users } from "@/lib/auth/schema";
+import { chats, messages, messageTexts } from "@/lib/chat/schema";
+import { CHAT_SORTS, type ChatSort } from "@/lib/chat/pagination";
+
+/**
+ * E2E tests for paging the chat list.
+ *
+ * These tests verify (against the branch database of
+ * `bun run test:integration`; skipped without DATABASE_URL):
+ * 1. Following the cursor walks every chat once in each sort order, with
+ *    ties and timestamps that only differ in microseconds
+ * 2. Message counts and previews match loading each chat's messages: the
+ *    first text part of the last user message, cut to 100 characters
+ * 3. Other users' chats are never listed, and only the signed-in user can
+ *    load pages
+ */
+
+type SeedMessage = { role: "user" | "assistant"; texts: string[] };
+
+type SeedChat = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: SeedMessage[];
+};
+
+const LONG_TEXT = "How do I page a list of chats? ".repeat(5);
+
+function seedChats(count: number): SeedChat[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: uuidv7(),
+    // Few distinct values, so pages split ties
+    title: ["alpha", "bravo", "charlie", "delta"][i % 4],
+    createdAt: `2026-10-18 12:00:00.12345${i % 5}`,
+    updatedAt: `2026-10-19 08:00:00.00000${i % 3}`,
+    messages: [],
+  }));
+}
+
+/** Sorted like `getUserChats`: by the sort column, then by ID */
+function sortChats(seeded: SeedChat[], sort: ChatSort): string[] {
+  const key = { updated: "updatedAt", created: "createdAt", title: "title" }[
+    sort
+  ] as "updatedAt" | "createdAt" | "title";
+  const direction = sort === "title" ? 1 : -1;
+  const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+  return [...seeded]
+    .sort(
+      (a, b) => direction * (compare(a[key], b[key]) || compare(a.id, b.id)),
+    )
+    .map((chat) => chat.id);
+}
+
+/** What the chat list showed before it was loaded in one query */
+function expectedPreview(chat: SeedChat): string | null {
+  const lastUserMessage = chat.messages
+    .filter((message) => message.role === "user")
+    .at(-1);
+  return lastUserMessage?.texts[0]?.slice(0, 100) ?? null;
+}
+
+describe.skipIf(!process.env.DATABASE_URL)("chat list pages", () => {
+  let db: (typeof import("@/lib/db/client"))["db"];
+  let getUserChats: (typeof import("@/lib/chat/queries"))["getUserChats"];
+  let loadChatsAction: (typeof import("@/lib/chat/actions"))["loadChatsAction"];
+  let sessionUserId: string | null = null;
+
+  const userId = `chat-list-test-${uuidv7()}`;
+  const otherUserId = `chat-list-test-${uuidv7()}`;
+  const userChats = seedChats(11);
+  const otherChats = seedChats(5);
+
+  userChats[0].messages = [
+    { role: "user", texts: ["First question"] },
+    { role: "assistant", texts: ["First answer"] },
+    { role: "user", texts: [LONG_TEXT, "Second part"] },
+    { role: "assistant", texts: ["Second answer"] },
+  ];
+  userChats[1].messages = [{ role: "assistant", texts: ["Welcome"] }];
+  userChats[2].messages = [
+    { role: "user", texts: [] },
+    { role: "assistant", texts: ["Answer without a question"] },
+  ];
+  userChats[3].messages = [{ role: "user", texts: ["Short question"] }];
+  otherChats[0].messages = [{ role: "user", texts: ["Someone else's"] }];
+
+  beforeAll(async () => {
+    mock.module("next/headers", () => ({ headers: async () => new Headers() }));
+    mock.module("@/lib/auth/server", () => ({
+      auth: {
+        api: {
+          getSession: async () =>
+            sessionUserId ? { user: { id: sessionUserId } } : null,
+        },
+      },
+    }));
+
+    ({ db } = await import("@/lib/db/client"));
+    ({ getUserChats } = await import("@/lib/chat/queries"));
+    ({ loadChatsAction } = await import("@/lib/chat/actions"));
+
+    await db.insert(users).values([
+      { id: userId, name: "Chat List Test", email: `${userId}@example.com` },
+      { id: otherUserId, name: "Other", email: `${otherUserId}@example.com` },
+    ]);
+
+    const seeded = [
+      ...userChats.map((chat) => ({ chat, userId })),
+      ...otherChats.map((chat) => ({ chat, userId: otherUserId })),
+    ];
+    // Microsecond timestamps don't survive a JS Date, so they are cast in SQL
+    await db.insert(chats).values(
+      seeded.map(({ chat, userId }) => ({
+        id: chat.id,
+        userId,
+        title: chat.title,
+        createdAt: sql`${chat.createdAt}::timestamp`,
+        updatedAt: sql`${chat.updatedAt}::timestamp`,
+      })),
+    );
+
+    // IDs are created in order, so they sort like the seeded messages
+    const messageRows = seeded.flatMap(({ chat }) =>
+      chat.messages.map((message) => ({
+        id: uuidv7(),
+        chatId: chat.id,
+        message,
+      })),
+    );
+    await db.insert(messages).values(
+      messageRows.map(({ id, chatId, message }) => ({
+        id,
+        chatId,
+        role: message.role,
+      })),
+    );
+    await db.insert(messageTexts).values(
+      messageRows.flatMap(({ id, chatId, message }) =>
+        message.texts.map((text) => ({
+          id: uuidv7(),
+          messageId: id,
+          chatId,
+          text,
+        })),
+      ),
+    );
+  });
+
+  afterAll(async () => {
+    // Chats, messages and parts cascade
+    await db?.delete(users).where(inArray(users.id, [userId, otherUserId]));
+  });
+
+  for (const sort of CHAT_SORTS) {
+    it(`should walk every chat once sorted by ${sort}`, async () => {
+      const pages: string[][] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await getUserChats(userId, { sort, cursor, limit: 3 });
+        pages.push(page.chats.map((chat) => chat.id));
+        cursor = page.cursor;
+      } while (cursor && pages.length <= userChats.length);
+
+      expect(pages.map((page) => page.length)).toEqual([3, 3, 3, 2]);
+      expect(pages.flat()).toEqual(sortChats(userChats, sort));
+    });
+  }
+
+  it("should have no next page when the chats fit in one", async () => {
+    const page = await getUserChats(userId, { limit: userChats.length });
+
+    expect(page.chats).toHaveLength(userChats.length);
+    expect(page.cursor).toBeNull();
+  });
+
+  it("should count messages and preview the last user message", async () => {
+    const { chats: listed } = await getUserChats(userId, {
+      limit: userChats.length,
+    });
+
+    const seeded = new Map(userChats.map((chat) => [chat.id, chat]));
+
+    expect(listed).toHaveLength(userChats.length);
+    for (const { id, messageCount, lastMessagePreview } of listed) {
+      const chat = seeded.get(id)!;
+      expect({ id, messageCount, lastMessagePreview }).toEqual({
+        id,
+        messageCount: chat.messages.length,
+        lastMessagePreview: expectedPreview(chat),
+      });
+    }
+    expect(expectedPreview(userChats[0])).toBe(LONG_TEXT.slice(0, 100));
+  });
+
+  it("should load pages of the signed-in user's chats only", async () => {
+    sessionUserId = userId;
+    const result = await loadChatsAction("title", null);
+    expect(result).toMatchObject({ success: true, cursor: null });
+    expect("chats" in result && result.chats.map((chat) => chat.id)).toEqual(
+      sortChats(userChats, "title"),
+    );
+
+    sessionUserId = otherUserId;
+    const other = await loadChatsAction("title", null);
+    expect("chats" in other && other.chats.map((chat) => chat.id)).toEqual(
+      sortChats(otherChats, "title"),
+    );
+
+    expect(await loadChatsAction("oldest" as ChatSort, null)).toEqual({
+      error: "Invalid sort",
+    });
+
+    sessionUserId = null;
+    expect(await loadChatsAction("updated", null)).toEqual({
+      error: "Unauthorized",
+    });
+  });
+});
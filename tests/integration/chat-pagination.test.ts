@@ -0,0 +1,57 @@
+import { describe, it, expect } from "bun:test";
+import {
+  CHAT_SORTS,
+  CHAT_SORT_LABELS,
+  decodeChatCursor,
+  encodeChatCursor,
+  isChatSort,
+} from "@/lib/chat/pagination";
+
+/**
+ * E2E tests for paginating the chat list.
+ *
+ * These tests verify:
+ * 1. Cursors round-trip the sort value (with microseconds) and chat ID
+ * 2. Malformed or tampered cursors are rejected instead of reaching SQL
+ * 3. Only known sort options are accepted
+ */
+
+const CHAT_ID = "019a0000-0000-7000-8000-000000000000";
+
+describe("chat cursors", () => {
+  it("should round-trip the sort value and chat ID", () => {
+    const cursor = { value: "2026-10-19 08:21:03.123456", id: CHAT_ID };
+    const encoded = encodeChatCursor(cursor);
+
+    expect(encoded).toMatch(/^[\w-]+$/);
+    expect(decodeChatCursor(encoded)).toEqual(cursor);
+  });
+
+  it("should keep titles with any characters", () => {
+    const cursor = { value: 'Quotes "and" ünïcode, too', id: CHAT_ID };
+    expect(decodeChatCursor(encodeChatCursor(cursor))).toEqual(cursor);
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(decodeChatCursor("not a cursor")).toBeNull();
+    expect(
+      decodeChatCursor(Buffer.from('["x"]').toString("base64url")),
+    ).toBeNull();
+    expect(
+      decodeChatCursor(
+        encodeChatCursor({ value: "x", id: "1; drop table chats" }),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("isChatSort", () => {
+  it("should accept the listed sorts only", () => {
+    for (const sort of CHAT_SORTS) {
+      expect(isChatSort(sort)).toBe(true);
+      expect(CHAT_SORT_LABELS[sort]).toBeTruthy();
+    }
+    expect(isChatSort("messages")).toBe(false);
+    expect(isChatSort(undefined)).toBe(false);
+  });
+});
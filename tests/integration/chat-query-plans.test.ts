@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { inArray, sql, type Query } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { TOOL_TYPES } from "@/lib/ai/tools";
+import { users } from "@/lib/auth/schema";
+import {
+  chats,
+  messages,
+  messageTexts,
+  messageReasoning,
+  messageTools,
+  messageSourceUrls,
+  messageData,
+  messageFiles,
+  messageSourceDocuments,
+} from "@/lib/chat/schema";
+import {
+  CHAT_SORTS,
+  encodeChatCursor,
+  type ChatSort,
+} from "@/lib/chat/pagination";
+
+/**
+ * E2E tests for the query plans of the chat tables.
+ *
+ * These tests verify, by explaining the queries `@/lib/chat/queries` runs:
+ * 1. Loading a page of messages uses an index on the chat
+ * 2. Loading parts, by chat or by the messages of a page, uses indexes
+ * 3. The chat list and its count and preview lookups use indexes, and every
+ *    sort pages through the index on its own column
+ *
+ * They seed thousands of rows into the branch database that
+ * `bun run test:integration` provides, and are skipped without
+ * DATABASE_URL.
+ */
+
+const CHAT_COUNT = 50;
+const MESSAGES_PER_CHAT = 80;
+const OTHER_USER_CHATS = 2000;
+// Enough chats that sorting them all costs more than reading one page in
+// order from an index
+const EMPTY_CHATS = 1000;
+const BATCH_SIZE = 1000;
+
+const PART_TABLES = {
+  message_texts: messageTexts,
+  message_reasoning: messageReasoning,
+  message_tools: messageTools,
+  message_source_urls: messageSourceUrls,
+  message_data: messageData,
+  message_files: messageFiles,
+  message_source_documents: messageSourceDocuments,
+};
+
+const CHAT_TABLES = new Set(["chats", "messages", ...Object.keys(PART_TABLES)]);
+
+// The index each chat list sort pages through
+const SORT_INDEXES: Record<ChatSort, string> = {
+  updated: "chats_userId_updatedAt_id_idx",
+  created: "chats_userId_createdAt_id_idx",
+  title: "chats_userId_title_id_idx",
+};
+
+type PlanNode = {
+  "Node Type": string;
+  "Relation Name"?: string;
+  "Index Name"?: string;
+  Plans?: PlanNode[];
+};
+
+function flattenPlan(node: PlanNode): PlanNode[] {
+  return [node, ...(node.Plans ?? []).flatMap(flattenPlan)];
+}
+
+let db: (typeof import("@/lib/db/client"))["db"];
+// Imported by name so `bun run fallow` sees the builders as used
+async function importQueryBuilders() {
+  const {
+    buildChatMessagesPageQuery,
+    buildMessagePartsQueries,
+    buildUserChatsQuery,
+  } = await import("@/lib/chat/queries");
+  return {
+    buildChatMessagesPageQuery,
+    buildMessagePartsQueries,
+    buildUserChatsQuery,
+  };
+}
+
+let queries: Awaited<ReturnType<typeof importQueryBuilders>>;
+const userId = `plan-test-${uuidv7()}`;
+const otherUserId = `plan-test-${uuidv7()}`;
+const chatIds = Array.from({ length: CHAT_COUNT }, () => uuidv7());
+const chatId = chatIds[0];
+const messageIds = new Map<string, string[]>();
+
+async function insertInBatches<T>(
+  rows: T[],
+  insert: (batch: T[]) => Promise<unknown>,
+) {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await insert(rows.slice(i, i + BATCH_SIZE));
+  }
+}
+
+/** Plan of a built query (select or relational), without running it */
+async function explain(query: { toSQL(): Query }): Promise<PlanNode[]> {
+  const { sql: text, params } = query.toSQL();
+  const result = await db.$client.query<{
+    "QUERY PLAN": [{ Plan: PlanNode }];
+  }>(`explain (format json) ${text}`, params);
+  return flattenPlan(result.rows[0]["QUERY PLAN"][0].Plan);
+}
+
+/** Chat tables the query reads in full */
+async function findSequentialScans(query: {
+  toSQL(): Query;
+}): Promise<string[]> {
+  return (await explain(query))
+    .filter(
+      (node) =>
+        node["Node Type"] === "Seq Scan" &&
+        CHAT_TABLES.has(node["Relation Name"] ?? ""),
+    )
+    .map((node) => node["Relation Name"]!);
+}
+
+describe.skipIf(!process.env.DATABASE_URL)("chat query plans", () => {
+  beforeAll(async () => {
+    ({ db } = await import("@/lib/db/client"));
+    queries = await importQueryBuilders();
+
+    await db.insert(users).values([
+      { id: userId, name: "Plan Test", email: `${userId}@example.com` },
+      { id: otherUserId, name: "Other", email: `${otherUserId}@example.com` },
+    ]);
+    await insertInBatches(
+      Array.from({ length: OTHER_USER_CHATS }, () => ({
+        id: uuidv7(),
+        userId: otherUserId,
+      })),
+      (batch) => db.insert(chats).values(batch),
+    );
+    await db.insert(chats).values(chatIds.map((id) => ({ id, userId })));
+    await insertInBatches(
+      Array.from({ length: EMPTY_CHATS }, (_, i) => ({
+        id: uuidv7(),
+        userId,
+        title: `Chat ${i}`,
+      })),
+      (batch) => db.insert(chats).values(batch),
+    );
+
+    const messageRows = chatIds.flatMap((id) => {
+      const ids = Array.from({ length: MESSAGES_PER_CHAT }, () => uuidv7());
+      messageIds.set(id, ids);
+      return ids.map((messageId, i) => ({
+        id: messageId,
+        chatId: id,
+        role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+      }));
+    });
+    await insertInBatches(messageRows, (batch) =>
+      db.insert(messages).values(batch),
+    );
+
+    const ref = messageRows.map((m) => ({ messageId: m.id, chatId: m.chatId }));
+    const insertParts = <T>(
+      toRow: (ref: { messageId: string; chatId: string }) => T,
+      insert: (batch: T[]) => Promise<unknown>,
+    ) => insertInBatches(ref.map(toRow), insert);
+
+    await insertParts(
+      (r) => ({ ...r, text: `Message ${r.messageId}` }),
+      (batch) => db.insert(messageTexts).values(batch),
+    );
+    await insertParts(
+      (r) => ({ ...r, text: "Thinking" }),
+      (batch) => db.insert(messageReasoning).values(batch),
+    );
+    await insertParts(
+      (r) => ({
+        ...r,
+        toolCallId: r.messageId,
+        toolType: TOOL_TYPES[0],
+        input: {},
+        output: {},
+      }),
+      (batch) => db.insert(messageTools).values(batch),
+    );
+    await insertParts(
+      (r) => ({ ...r, sourceId: "s", url: "https://example.com" }),
+      (batch) => db.insert(messageSourceUrls).values(batch),
+    );
+    await insertParts(
+      (r) => ({ ...r, dataType: "data-progress", data: { text: "Working" } }),
+      (batch) => db.insert(messageData).values(batch),
+    );
+    await insertParts(
+      (r) => ({ ...r, mediaType: "text/plain", url: "https://example.com/a" }),
+      (batch) => db.insert(messageFiles).values(batch),
+    );
+    await insertParts(
+      (r) => ({
+        ...r,
+        sourceId: "d",
+        mediaType: "application/pdf",
+        title: "D",
+      }),
+      (batch) => db.insert(messageSourceDocuments).values(batch),
+    );
+
+    await db.execute(sql.raw(`analyze ${Array.from(CHAT_TABLES).join(", ")}`));
+  }, 300_000);
+
+  afterAll(async () => {
+    // Chats, messages and parts cascade
+    await db?.delete(users).where(inArray(users.id, [userId, otherUserId]));
+  });
+
+  it("should page messages through an index", async () => {
+    const before = messageIds.get(chatId)!.at(-1)!;
+
+    expect(
+      await findSequentialScans(queries.buildChatMessagesPageQuery(chatId)),
+    ).toEqual([]);
+    expect(
+      await findSequentialScans(
+        queries.buildChatMessagesPageQuery(chatId, { before }),
+      ),
+    ).toEqual([]);
+  });
+
+  it("should load the parts of a chat through indexes", async () => {
+    for (const query of queries.buildMessagePartsQueries(chatId)) {
+      expect(await findSequentialScans(query)).toEqual([]);
+    }
+  });
+
+  it("should load the parts of a page through indexes", async () => {
+    const page = messageIds.get(chatId)!.slice(-20);
+    for (const query of queries.buildMessagePartsQueries(chatId, page)) {
+      expect(await findSequentialScans(query)).toEqual([]);
+    }
+  });
+
+  it("should list chats with previews through indexes in every sort", async () => {
+    for (const sort of CHAT_SORTS) {
+      const cursor = encodeChatCursor({
+        value: sort === "title" ? "New chat" : new Date().toISOString(),
+        id: chatIds[CHAT_COUNT / 2],
+      });
+      for (const query of [
+        queries.buildUserChatsQuery(userId, { sort }),
+        queries.buildUserChatsQuery(userId, { sort, cursor }),
+      ]) {
+        expect(await findSequentialScans(query)).toEqual([]);
+        expect(
+          (await explain(query)).map((node) => node["Index Name"]),
+        ).toContain(SORT_INDEXES[sort]);
+      }
+    }
+  });
+});
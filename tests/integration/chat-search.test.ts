@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { inArray } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { users } from "@/lib/auth/schema";
+import { chats, messages, messageTexts } from "@/lib/chat/schema";
+import {
+  HEADLINE_OPTIONS,
+  getChatSearchHitUrl,
+  mergeChatSearchHits,
+  parseHeadline,
+  type ChatSearchRow,
+} from "@/lib/chat/search";
+
+/**
+ * E2E tests for full-text search over chats.
+ *
+ * These tests verify:
+ * 1. Headlines split into matched and plain snippet segments
+ * 2. Title and message hits merge by rank, one hit per message
+ * 3. Hits link to the matching message
+ * 4. Searching a user's chats ranks title matches first and never returns
+ *    another user's chats (against the branch database of
+ *    `bun run test:integration`; skipped without DATABASE_URL)
+ */
+
+const START = "\u0002";
+const STOP = "\u0003";
+const CHAT_ID = "019a0000-0000-7000-8000-000000000000";
+const OTHER_CHAT_ID = "019a0000-0000-7000-8000-000000000001";
+const MESSAGE_ID = "019a0000-0000-7000-8000-000000000002";
+
+function row(overrides: Partial<ChatSearchRow>): ChatSearchRow {
+  return {
+    chatId: CHAT_ID,
+    chatTitle: "Sourdough",
+    messageId: null,
+    headline: "Sourdough",
+    rank: 0.1,
+    ...overrides,
+  };
+}
+
+describe("parseHeadline", () => {
+  it("should split matches from plain text", () => {
+    expect(
+      parseHeadline(
+        `feed the ${START}starter${STOP} daily, ${START}starter${STOP}`,
+      ),
+    ).toEqual([
+      { text: "feed the ", match: false },
+      { text: "starter", match: true },
+      { text: " daily, ", match: false },
+      { text: "starter", match: true },
+    ]);
+  });
+
+  it("should keep text without matches whole", () => {
+    expect(parseHeadline("no matches here")).toEqual([
+      { text: "no matches here", match: false },
+    ]);
+    expect(parseHeadline("")).toEqual([]);
+  });
+
+  it("should mark the delimiters it asks ts_headline for", () => {
+    expect(HEADLINE_OPTIONS).toContain(`StartSel=${START}`);
+    expect(HEADLINE_OPTIONS).toContain(`StopSel=${STOP}`);
+  });
+});
+
+describe("mergeChatSearchHits", () => {
+  it("should order hits by rank and link to the message", () => {
+    const hits = mergeChatSearchHits(
+      [row({ chatId: OTHER_CHAT_ID, rank: 0.5 })],
+      [row({ messageId: MESSAGE_ID, headline: `${START}Dough${STOP}` })],
+    );
+
+    expect(hits.map((hit) => hit.chatId)).toEqual([OTHER_CHAT_ID, CHAT_ID]);
+    expect(hits[1].url).toBe(`/chats/${CHAT_ID}#${MESSAGE_ID}`);
+    expect(hits[1].snippet).toEqual([{ text: "Dough", match: true }]);
+  });
+
+  it("should keep one hit per message and drop covered title hits", () => {
+    const hits = mergeChatSearchHits(
+      [row({ rank: 0.9 })],
+      [
+        row({ messageId: MESSAGE_ID, rank: 0.3 }),
+        row({ messageId: MESSAGE_ID, rank: 0.2 }),
+      ],
+    );
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ messageId: MESSAGE_ID, rank: 0.3 });
+  });
+
+  it("should cap the hits at the limit", () => {
+    const rows = Array.from({ length: 5 }, (_, i) =>
+      row({ messageId: `${i}`, rank: i }),
+    );
+    expect(mergeChatSearchHits([], rows, 2).map((hit) => hit.rank)).toEqual([
+      4, 3,
+    ]);
+  });
+});
+
+describe("getChatSearchHitUrl", () => {
+  it("should link title hits to the chat", () => {
+    expect(getChatSearchHitUrl(CHAT_ID, null)).toBe(`/chats/${CHAT_ID}`);
+  });
+});
+
+describe.skipIf(!process.env.DATABASE_URL)("searchUserChats", () => {
+  let db: (typeof import("@/lib/db/client"))["db"];
+  let searchUserChats: (typeof import("@/lib/chat/queries"))["searchUserChats"];
+  const userId = `search-test-${uuidv7()}`;
+  const otherUserId = `search-test-${uuidv7()}`;
+  const titleChatId = uuidv7();
+  const messageChatId = uuidv7();
+  const otherChatId = uuidv7();
+  const messageId = uuidv7();
+
+  beforeAll(async () => {
+    ({ db } = await import("@/lib/db/client"));
+    ({ searchUserChats } = await import("@/lib/chat/queries"));
+
+    await db.insert(users).values([
+      { id: userId, name: "Search Test", email: `${userId}@example.com` },
+      { id: otherUserId, name: "Other", email: `${otherUserId}@example.com` },
+    ]);
+    await db.insert(chats).values([
+      { id: titleChatId, userId, title: "Baking sourdough bread" },
+      { id: messageChatId, userId, title: "Weekend plans" },
+      { id: otherChatId, userId: otherUserId, title: "Sourdough secrets" },
+    ]);
+    await db
+      .insert(messages)
+      .values({ id: messageId, chatId: messageChatId, role: "user" });
+    await db.insert(messageTexts).values({
+      chatId: messageChatId,
+      messageId,
+      text: "Should I bake sourdough on Saturday or go hiking instead?",
+    });
+  });
+
+  afterAll(async () => {
+    // Chats, messages and parts cascade
+    await db?.delete(users).where(inArray(users.id, [userId, otherUserId]));
+  });
+
+  it("should rank title matches above message matches", async () => {
+    const hits = await searchUserChats(userId, "sourdough");
+
+    expect(hits.map((hit) => hit.chatId)).toEqual([titleChatId, messageChatId]);
+    expect(hits[1].url).toBe(`/chats/${messageChatId}#${messageId}`);
+    expect(hits[1].snippet).toContainEqual({ text: "sourdough", match: true });
+  });
+
+  it("should match word forms and web search syntax", async () => {
+    expect(await searchUserChats(userId, "baked")).toHaveLength(2);
+    expect(await searchUserChats(userId, "sourdough -hiking")).toHaveLength(1);
+    expect(await searchUserChats(userId, '"sourdough bread"')).toHaveLength(1);
+  });
+
+  it("should not fail on queries without search terms", async () => {
+    expect(await searchUserChats(userId, "the & | !")).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "bun:test";
+import { NextRequest } from "next/server";
+import { proxy } from "@/proxy";
+import { GET as getMarkdown } from "@/app/md/[[...path]]/route";
+import { prefersMarkdown, resolvePageTwin } from "@/lib/recipes/negotiation";
+
+/**
+ * E2E tests for Accept-based content negotiation on HTML pages.
+ *
+ * These tests verify:
+ * 1. Only Accept headers that prefer text/markdown select Markdown
+ * 2. The landing page, `/recipes`, recipes, and cookbooks have twins
+ * 3. Markdown requests are rewritten to the `/md` handler, HTML requests pass
+ *    through, and both carry `Vary: Accept` and `Link: rel="alternate"`
+ * 4. Renamed recipe slugs redirect whatever the Accept header
+ * 5. `/recipes.md` serves the landing page catalog
+ */
+
+const BROWSER_ACCEPT =
+  "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8";
+
+function request(path: string, accept?: string): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    headers: accept ? { Accept: accept } : {},
+  });
+}
+
+function rewriteTarget(response: Response): string | null {
+  const rewrite = response.headers.get("x-middleware-rewrite");
+  return rewrite ? new URL(rewrite).pathname : null;
+}
+
+describe("prefersMarkdown", () => {
+  it("should prefer Markdown when it is the only type", () => {
+    expect(prefersMarkdown("text/markdown")).toBe(true);
+    expect(prefersMarkdown("text/x-markdown")).toBe(true);
+  });
+
+  it("should prefer Markdown listed next to wildcards", () => {
+    expect(prefersMarkdown("text/markdown, */*")).toBe(true);
+    expect(prefersMarkdown("text/markdown;q=0.9, text/*;q=0.5")).toBe(true);
+  });
+
+  it("should compare quality with explicit text/html", () => {
+    expect(prefersMarkdown("text/markdown, text/html;q=0.9")).toBe(true);
+    expect(prefersMarkdown("text/html, text/markdown;q=0.9")).toBe(false);
+    expect(prefersMarkdown("text/html, text/markdown")).toBe(false);
+  });
+
+  it("should keep HTML for browsers, curl, and missing headers", () => {
+    expect(prefersMarkdown(BROWSER_ACCEPT)).toBe(false);
+    expect(prefersMarkdown("*/*")).toBe(false);
+    expect(prefersMarkdown("text/plain")).toBe(false);
+    expect(prefersMarkdown(null)).toBe(false);
+  });
+
+  it("should ignore Markdown with zero quality", () => {
+    expect(prefersMarkdown("text/markdown;q=0, */*")).toBe(false);
+  });
+});
+
+describe("resolvePageTwin", () => {
+  it("should resolve the landing page and the recipes index", () => {
+    expect(resolvePageTwin("/")).toEqual({
+      kind: "page",
+      markdownPath: "/index.md",
+      handlerPath: "/md",
+    });
+    expect(resolvePageTwin("/recipes/")).toEqual({
+      kind: "page",
+      markdownPath: "/recipes.md",
+      handlerPath: "/md/recipes",
+    });
+  });
+
+  it("should resolve recipes and cookbooks", () => {
+    expect(resolvePageTwin("/recipes/neon-drizzle-setup")).toMatchObject({
+      markdownPath: "/recipes/neon-drizzle-setup.md",
+    });
+    expect(resolvePageTwin("/recipes/base-app-setup")).toMatchObject({
+      handlerPath: "/md/recipes/base-app-setup",
+    });
+  });
+
+  it("should redirect renamed recipes", () => {
+    expect(resolvePageTwin("/recipes/bun-testing")).toEqual({
+      kind: "redirect",
+      location: "/recipes/testing",
+    });
+  });
+
+  it("should skip unknown slugs, twins, and other pages", () => {
+    expect(resolvePageTwin("/recipes/non-existent-recipe")).toBeNull();
+    expect(resolvePageTwin("/recipes/neon-drizzle-setup.md")).toBeNull();
+    expect(resolvePageTwin("/recipes/neon-drizzle-setup.diff")).toBeNull();
+    expect(resolvePageTwin("/profile")).toBeNull();
+  });
+});
+
+describe("proxy", () => {
+  it("should rewrite Markdown requests to the /md handler", () => {
+    const response = proxy(
+      request("/recipes/neon-drizzle-setup", "text/markdown"),
+    );
+
+    expect(rewriteTarget(response)).toBe("/md/recipes/neon-drizzle-setup");
+    expect(response.headers.get("Vary")).toBe("Accept");
+    expect(response.headers.get("Link")).toBe(
+      '<http://localhost:3000/recipes/neon-drizzle-setup>; rel="alternate"; type="text/html"',
+    );
+  });
+
+  it("should rewrite the landing page", () => {
+    const response = proxy(request("/", "text/markdown"));
+
+    expect(rewriteTarget(response)).toBe("/md");
+  });
+
+  it("should pass HTML requests through with a Markdown alternate", () => {
+    const response = proxy(request("/recipes/base-app-setup", BROWSER_ACCEPT));
+
+    expect(rewriteTarget(response)).toBeNull();
+    expect(response.headers.get("Vary")).toBe("Accept");
+    expect(response.headers.get("Link")).toBe(
+      '<http://localhost:3000/recipes/base-app-setup.md>; rel="alternate"; type="text/markdown"',
+    );
+  });
+
+  it("should redirect renamed recipes for both HTML and Markdown", () => {
+    for (const accept of [BROWSER_ACCEPT, "text/markdown"]) {
+      const response = proxy(request("/recipes/env-config?ref=old", accept));
+
+      expect(response.status).toBe(308);
+      expect(response.headers.get("Location")).toBe(
+        "http://localhost:3000/recipes/env-management?ref=old",
+      );
+    }
+  });
+
+  it("should leave unknown recipes to the page's 404", () => {
+    const response = proxy(
+      request("/recipes/non-existent-recipe", "text/markdown"),
+    );
+
+    expect(rewriteTarget(response)).toBeNull();
+    expect(response.headers.get("Vary")).toBeNull();
+  });
+});
+
+describe("GET /recipes.md", () => {
+  it("should serve the landing page catalog", async () => {
+    const response = await getMarkdown(
+      new Request("http://localhost:3000/recipes.md"),
+      { params: Promise.resolve({ path: ["recipes"] }) },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/markdown");
+    expect(await response.text()).toContain("## Recipes");
+  });
+});
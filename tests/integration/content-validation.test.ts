@@ -0,0 +1,115 @@
+import { describe, it, expect } from "bun:test";
+import {
+  formatContentIssue,
+  validateAllContent,
+  validateContent,
+} from "@/lib/recipes/validate";
+
+/**
+ * E2E tests for recipe content validation.
+ *
+ * These tests verify:
+ * 1. Every recipe, skill, and the landing page passes Markdoc validation
+ * 2. Every internal link points at an existing recipe or page
+ * 3. Every slug in data.tsx has a source file and every source file a slug
+ * 4. Issues carry the file and line they were found at
+ */
+
+describe("authored content", () => {
+  const issuesPromise = validateAllContent();
+
+  it("should have no Markdoc errors or broken links", async () => {
+    const issues = await issuesPromise;
+
+    expect(
+      issues
+        .filter(
+          (issue) => issue.kind === "markdoc" || issue.kind === "broken-link",
+        )
+        .map(formatContentIssue),
+    ).toEqual([]);
+  });
+
+  it("should have a source file for every recipe and a recipe for every source file", async () => {
+    const issues = await issuesPromise;
+
+    expect(
+      issues
+        .filter(
+          (issue) =>
+            issue.kind === "missing-source" || issue.kind === "orphaned-source",
+        )
+        .map(formatContentIssue),
+    ).toEqual([]);
+  });
+});
+
+describe("validateContent", () => {
+  it("should report unknown tags with their line", () => {
+    const issues = validateContent(
+      "docs/recipes/example.md",
+      "---\nchangelog: []\n---\n\n# Example\n\n{% alert %}Careful{% /alert %}\n",
+    );
+
+    expect(issues).toEqual([
+      {
+        kind: "markdoc",
+        file: "docs/recipes/example.md",
+        line: 7,
+        message: "Undefined tag: 'alert'",
+      },
+    ]);
+  });
+
+  it("should report unknown attributes", () => {
+    const issues = validateContent(
+      "docs/recipes/example.md",
+      '{% registry items="assert" theme="dark" /%}\n',
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "Invalid attribute: 'theme'",
+    ]);
+  });
+
+  it("should report links to unknown or renamed recipes", () => {
+    const issues = validateContent(
+      "docs/recipes/example.md",
+      [
+        "See [setup](/recipes/neon-drizzle-setup).",
+        "",
+        "See [gone](/recipes/does-not-exist).",
+        "",
+        "See [old](https://fullstackrecipes.com/recipes/env-config.md).",
+      ].join("\n"),
+    );
+
+    expect(
+      issues.map((issue) => [issue.kind, issue.line, issue.message]),
+    ).toEqual([
+      ["broken-link", 3, 'Link to unknown recipe "does-not-exist"'],
+      [
+        "broken-link",
+        5,
+        'Link to renamed recipe "env-config", use /recipes/env-management',
+      ],
+    ]);
+  });
+
+  it("should check other site links against app routes", () => {
+    const issues = validateContent(
+      "docs/landing.md",
+      [
+        "[index](https://fullstackrecipes.com/llms.txt)",
+        "",
+        "[feed](/feed.xml) and [external](https://nextjs.org/docs)",
+        "",
+        "[missing](/philosophy)",
+      ].join("\n"),
+    );
+
+    expect(issues.map(formatContentIssue)).toEqual([
+      'docs/landing.md:5: Link to unknown page "/philosophy" (broken-link)',
+    ]);
+  });
+});
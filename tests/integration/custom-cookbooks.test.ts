@@ -0,0 +1,203 @@
+import { describe, it, expect } from "bun:test";
+import {
+  customCookbookInputSchema,
+  getSelectionRecipeSlugs,
+  toCookbook,
+  type CustomCookbook,
+} from "@/lib/cookbooks/custom";
+import { getRecipeBySlug, recipeRedirects } from "@/lib/recipes/data";
+import { getPrerequisites } from "@/lib/recipes/graph";
+import { loadRecipeContent, loadRecipeMarkdown } from "@/lib/recipes/loader";
+import { resolvePageTwin } from "@/lib/recipes/negotiation";
+
+/**
+ * E2E tests for user-defined custom cookbooks.
+ *
+ * These tests verify:
+ * 1. Custom cookbooks render through the built-in cookbook pipeline, with
+ *    recipes in the saved order and notes quoted above each recipe
+ * 2. Prerequisites of their recipes are planned, excluding the recipes
+ * 3. Submitted cookbooks are validated
+ * 4. Selections expand cookbooks into their recipes
+ * 5. `/c/<id>` pages have a Markdown twin
+ * 6. Recipes renamed or removed after saving don't break saved cookbooks
+ */
+
+const ID = "0192f5a4-8c1e-7b3a-9d2f-4e5a6b7c8d9e";
+
+function customCookbook(
+  recipes: CustomCookbook["recipes"],
+  description = "",
+): CustomCookbook {
+  return {
+    id: ID,
+    userId: "user-1",
+    title: "Our stack",
+    description,
+    recipes,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("toCookbook", () => {
+  it("should keep the saved recipe order and notes", () => {
+    const cookbook = toCookbook(
+      customCookbook([
+        { slug: "resend-setup", note: "Use the team domain" },
+        { slug: "neon-drizzle-setup", note: null },
+      ]),
+    );
+
+    expect(cookbook.slug).toBe(ID);
+    expect(cookbook.recipes).toEqual(["resend-setup", "neon-drizzle-setup"]);
+    expect(cookbook.recipeNotes).toEqual({
+      "resend-setup": "Use the team domain",
+    });
+  });
+
+  it("should describe cookbooks saved without a description", () => {
+    const cookbook = toCookbook(
+      customCookbook([{ slug: "resend-setup", note: null }]),
+    );
+
+    expect(cookbook.description).toBe("A custom cookbook of 1 recipe.");
+  });
+
+  it("should follow renamed recipes and drop removed ones", async () => {
+    const [oldSlug, newSlug] = Object.entries(recipeRedirects).find(
+      ([, target]) => getRecipeBySlug(target),
+    )!;
+    const cookbook = toCookbook(
+      customCookbook([
+        { slug: oldSlug, note: "Saved before the rename" },
+        { slug: "removed-recipe", note: null },
+        { slug: newSlug, note: null },
+        { slug: "resend-setup", note: null },
+      ]),
+    );
+
+    expect(cookbook.recipes).toEqual([newSlug, "resend-setup"]);
+    expect(cookbook.recipeNotes).toEqual({
+      [newSlug]: "Saved before the rename",
+    });
+    expect(await loadRecipeMarkdown(cookbook)).toContain(
+      getRecipeBySlug(newSlug)!.title,
+    );
+  });
+});
+
+describe("loadRecipeContent", () => {
+  it("should combine recipes in order with notes after each description", async () => {
+    const resend = getRecipeBySlug("resend-setup")!;
+    const neon = getRecipeBySlug("neon-drizzle-setup")!;
+    const content = await loadRecipeContent(
+      toCookbook(
+        customCookbook([
+          { slug: "resend-setup", note: "Use the team domain.\nAsk ops." },
+          { slug: "neon-drizzle-setup", note: null },
+        ]),
+      ),
+    );
+
+    expect(content.indexOf(`## ${resend.title}`)).toBeLessThan(
+      content.indexOf(`## ${neon.title}`),
+    );
+    expect(content).toContain(
+      `${resend.description}\n\n> **Note:**\n>\n> Use the team domain.\n> Ask ops.\n\n`,
+    );
+    expect(content.match(/\*\*Note:\*\*/g)).toHaveLength(1);
+  });
+
+  it("should render the Markdown twin with the custom title", async () => {
+    const markdown = await loadRecipeMarkdown(
+      toCookbook(customCookbook([{ slug: "resend-setup", note: null }])),
+    );
+
+    expect(markdown).toContain("# Our stack");
+  });
+});
+
+describe("getPrerequisites", () => {
+  it("should plan prerequisites of the recipes, excluding the recipes", () => {
+    const cookbook = toCookbook(
+      customCookbook([{ slug: "neon-drizzle-setup", note: null }]),
+    );
+    const expected = getPrerequisites(getRecipeBySlug("neon-drizzle-setup")!);
+
+    const prerequisites = getPrerequisites(cookbook).map((item) => item.slug);
+    expect(prerequisites).toEqual(expected.map((item) => item.slug));
+    expect(prerequisites).not.toContain("neon-drizzle-setup");
+  });
+});
+
+describe("customCookbookInputSchema", () => {
+  const valid = {
+    title: " Our stack ",
+    description: "",
+    recipes: [{ slug: "resend-setup", note: "  " }],
+  };
+
+  it("should trim values and drop empty notes", () => {
+    expect(customCookbookInputSchema.parse(valid)).toEqual({
+      title: "Our stack",
+      description: "",
+      recipes: [{ slug: "resend-setup", note: null }],
+    });
+  });
+
+  it("should reject unknown, duplicate, and missing recipes", () => {
+    for (const recipes of [
+      [{ slug: "non-existent-recipe", note: null }],
+      [
+        { slug: "resend-setup", note: null },
+        { slug: "resend-setup", note: null },
+      ],
+      [],
+    ]) {
+      expect(
+        customCookbookInputSchema.safeParse({ ...valid, recipes }).success,
+      ).toBe(false);
+    }
+  });
+
+  it("should reject cookbooks as recipes and Markdoc tags in notes", () => {
+    for (const recipe of [
+      { slug: "base-app-setup", note: null },
+      { slug: "resend-setup", note: '{% step title="x" %}' },
+    ]) {
+      expect(
+        customCookbookInputSchema.safeParse({ ...valid, recipes: [recipe] })
+          .success,
+      ).toBe(false);
+    }
+  });
+});
+
+describe("getSelectionRecipeSlugs", () => {
+  it("should expand cookbooks and drop duplicates and unknown slugs", () => {
+    const slugs = getSelectionRecipeSlugs([
+      "resend-setup",
+      "base-app-setup",
+      "resend-setup",
+      "non-existent-recipe",
+    ]);
+
+    expect(slugs[0]).toBe("resend-setup");
+    expect(slugs).toContain("neon-drizzle-setup");
+    expect(slugs).not.toContain("base-app-setup");
+    expect(slugs).toHaveLength(new Set(slugs).size);
+  });
+});
+
+describe("resolvePageTwin", () => {
+  it("should resolve custom cookbook pages to their handler", () => {
+    expect(resolvePageTwin(`/c/${ID}`)).toEqual({
+      kind: "page",
+      markdownPath: `/c/${ID}.md`,
+      handlerPath: `/c/${ID}/md`,
+    });
+    expect(resolvePageTwin("/c/new")).toBeNull();
+    expect(resolvePageTwin(`/c/${ID}/edit`)).toBeNull();
+  });
+});
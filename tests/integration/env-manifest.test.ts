@@ -0,0 +1,262 @@
+import { describe, it, expect, mock, beforeAll } from "bun:test";
+import path from "path";
+import { getAllRecipes, type EnvVarSpec } from "@/lib/recipes/data";
+import { buildEnvExample, getEnvManifest } from "@/lib/recipes/env";
+import { GET as getMarkdown } from "@/app/md/[[...path]]/route";
+
+/**
+ * E2E tests for recipe env var metadata and the `/env.md` endpoint.
+ *
+ * These tests verify:
+ * 1. Every declared env var matches a field of the real better-env config
+ *    module: scope, optionality, `oneOf` group, and feature flag
+ * 2. Every config module field is declared by a recipe
+ * 3. The manifest expands cookbooks and prerequisites and lists vars once
+ * 4. `/env.md?slugs=` serves the manifest with a merged `.env.example`
+ */
+
+/** Config modules the recipes create, as shipped in this repo and the template */
+const CONFIG_MODULES = [
+  "src/lib/ai/config.ts",
+  "src/lib/auth/config.ts",
+  "src/lib/db/config.ts",
+  "src/lib/logging/config.ts",
+  "src/lib/resend/config.ts",
+  "src/lib/sentry/config.ts",
+  "templates/fullstackrecipe/src/lib/stripe/config.ts",
+  "scripts/tests/config.ts",
+];
+
+type RecordedField = {
+  env: string;
+  scope: "server" | "public";
+  optional: boolean;
+};
+
+type RecordedConfig = {
+  fields: RecordedField[];
+  flag: string | null;
+  /** Env names of each `oneOf` constraint */
+  oneOf: string[][];
+};
+
+type FieldOptions = {
+  env: string;
+  optional?: boolean;
+  schema?: { safeParse(value: unknown): { success: boolean } };
+};
+
+const configs = new Map<string, RecordedConfig>();
+
+function recordField(scope: RecordedField["scope"]) {
+  return (options: FieldOptions): RecordedField => ({
+    env: options.env,
+    scope,
+    // A schema with a default accepts a missing value just like `optional`
+    optional:
+      options.optional === true ||
+      (options.schema?.safeParse(undefined).success ?? false),
+  });
+}
+
+// Record each configSchema() call instead of validating process.env
+mock.module("better-env/config-schema", () => ({
+  server: recordField("server"),
+  pub: recordField("public"),
+  oneOf: (fields: RecordedField[]) => () => fields.map((field) => field.env),
+  configSchema: (
+    name: string,
+    fields: Record<string, RecordedField>,
+    options?: {
+      flag?: { env: string };
+      constraints?: (
+        fields: Record<string, RecordedField>,
+      ) => (() => string[])[];
+    },
+  ) => {
+    configs.set(name, {
+      fields: Object.values(fields),
+      flag: options?.flag?.env ?? null,
+      oneOf: (options?.constraints?.(fields) ?? []).map((constraint) =>
+        constraint(),
+      ),
+    });
+    return {};
+  },
+}));
+
+function getDeclaredEnvVars(): (EnvVarSpec & { slug: string })[] {
+  return getAllRecipes().flatMap((recipe) =>
+    (recipe.envVars ?? []).map((envVar) => ({ ...envVar, slug: recipe.slug })),
+  );
+}
+
+async function envMarkdown(query: string): Promise<Response> {
+  return getMarkdown(new Request(`http://localhost:3000/env.md?${query}`), {
+    params: Promise.resolve({ path: ["env"] }),
+  });
+}
+
+beforeAll(async () => {
+  for (const modulePath of CONFIG_MODULES) {
+    await import(path.join(process.cwd(), modulePath));
+  }
+});
+
+describe("recipe env var metadata", () => {
+  it("should load every config module", () => {
+    expect(Array.from(configs.keys()).sort()).toEqual(
+      [
+        "AI",
+        "Auth",
+        "Database",
+        "Logging",
+        "Neon",
+        "Resend",
+        "Sentry",
+        "Stripe",
+      ].sort(),
+    );
+  });
+
+  it("should match every declared env var to a config module field", () => {
+    for (const envVar of getDeclaredEnvVars()) {
+      const config = configs.get(envVar.config);
+      expect(config, `${envVar.slug}: unknown config`).toBeDefined();
+
+      if (envVar.flag) {
+        expect(config!.flag, `${envVar.slug}: ${envVar.name}`).toBe(
+          envVar.name,
+        );
+        continue;
+      }
+
+      const field = config!.fields.find((f) => f.env === envVar.name);
+      expect(field, `${envVar.slug}: ${envVar.name}`).toBeDefined();
+      expect({
+        name: envVar.name,
+        scope: envVar.scope,
+        optional: envVar.optional ?? false,
+      }).toEqual({
+        name: envVar.name,
+        scope: field!.scope,
+        optional: field!.optional,
+      });
+    }
+  });
+
+  it("should group oneOf fields like the config constraints", () => {
+    const groups = new Map<string, string[]>();
+    for (const envVar of getDeclaredEnvVars()) {
+      if (!envVar.oneOf) continue;
+      const key = `${envVar.config}/${envVar.oneOf}`;
+      groups.set(key, [...(groups.get(key) ?? []), envVar.name]);
+    }
+
+    const declared = Array.from(groups.values()).map((names) => names.sort());
+    const actual = Array.from(configs.values()).flatMap((config) =>
+      config.oneOf.map((names) => [...names].sort()),
+    );
+    expect(declared.sort()).toEqual(actual.sort());
+  });
+
+  it("should declare every config module field in a recipe", () => {
+    const declared = new Set(getDeclaredEnvVars().map((envVar) => envVar.name));
+    const undeclared = Array.from(configs.values())
+      .flatMap((config) => config.fields.map((field) => field.env))
+      .filter((name) => !declared.has(name));
+
+    expect(undeclared).toEqual([]);
+  });
+
+  it("should declare each env var once", () => {
+    const names = getDeclaredEnvVars().map((envVar) => envVar.name);
+    expect(names).toHaveLength(new Set(names).size);
+  });
+});
+
+describe("getEnvManifest", () => {
+  it("should include prerequisites' env vars in install order", () => {
+    const names = getEnvManifest(["better-auth-setup"]).map(
+      (envVar) => envVar.name,
+    );
+
+    expect(names).toContain("DATABASE_URL");
+    expect(names.indexOf("DATABASE_URL")).toBeLessThan(
+      names.indexOf("BETTER_AUTH_SECRET"),
+    );
+  });
+
+  it("should expand cookbooks into their recipes", () => {
+    const manifest = getEnvManifest(["base-app-setup"]);
+
+    const ai = manifest.filter((envVar) => envVar.config === "AI");
+    expect(ai.map((envVar) => envVar.recipe.slug)).toEqual([
+      "ai-sdk-setup",
+      "ai-sdk-setup",
+    ]);
+  });
+
+  it("should list env vars shared by several selections once", () => {
+    const names = getEnvManifest(["base-app-setup", "neon-drizzle-setup"]).map(
+      (envVar) => envVar.name,
+    );
+
+    expect(names.filter((name) => name === "DATABASE_URL")).toHaveLength(1);
+  });
+
+  it("should return an empty manifest for recipes without config", () => {
+    expect(getEnvManifest(["assert"])).toEqual([]);
+  });
+});
+
+describe("buildEnvExample", () => {
+  it("should mark oneOf groups and comment out optional vars", () => {
+    const example = buildEnvExample(["base-app-setup", "pino-logging-setup"]);
+
+    expect(example).toContain(
+      "# AI (AI SDK & Simple Chat) — REQUIRED (set ONE",
+    );
+    expect(example).toContain('\nAI_GATEWAY_API_KEY=""');
+    expect(example).toContain('\n# LOG_LEVEL="info"');
+  });
+
+  it("should note when a feature flag gates a config", () => {
+    const example = buildEnvExample(["sentry-setup"]);
+
+    expect(example).toContain(
+      "— required only when NEXT_PUBLIC_ENABLE_SENTRY=true",
+    );
+    expect(example).toContain('\nNEXT_PUBLIC_ENABLE_SENTRY="true"');
+  });
+});
+
+describe("GET /env.md", () => {
+  it("should return 400 when slugs are missing", async () => {
+    const response = await envMarkdown("slugs=");
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should return 404 for unknown slugs", async () => {
+    const response = await envMarkdown("slugs=ai-chat,non-existent-recipe");
+
+    expect(response.status).toBe(404);
+    const data = await response.json();
+    expect(data.error).toBe("Unknown slugs: non-existent-recipe");
+  });
+
+  it("should serve the manifest table and .env.example as Markdown", async () => {
+    const response = await envMarkdown("slugs=resend-setup");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/markdown");
+    const content = await response.text();
+    expect(content).toContain("# Environment Variables: Resend Setup");
+    expect(content).toContain("| `RESEND_API_KEY` | Resend | server | yes |");
+    expect(content).toContain("```dotenv");
+    expect(content).toContain(
+      'RESEND_FROM_EMAIL="Your App <noreply@yourdomain.com>"',
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "bun:test";
+import { GET } from "@/app/llms-full.txt/route";
+import { getAllItems } from "@/lib/recipes/data";
+import { buildLlmsFull } from "@/lib/recipes/llms-full";
+
+/**
+ * E2E tests for the llms-full.txt endpoint.
+ *
+ * These tests verify:
+ * 1. Every recipe, cookbook, and skill is included in display order
+ * 2. Each registry item's source code is inlined once
+ * 3. The contents list a token estimate per section
+ * 4. The ETag is stable and `If-None-Match` returns 304
+ * 5. `?tags=` filters the items and rejects unknown tags
+ */
+
+async function llmsFull(
+  query = "",
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  return GET(
+    new Request(`http://localhost:3000/llms-full.txt${query}`, { headers }),
+  );
+}
+
+describe("GET /llms-full.txt", () => {
+  it("should return plain text with an ETag and token count", async () => {
+    const response = await llmsFull();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/plain; charset=utf-8",
+    );
+    expect(response.headers.get("ETag")).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(Number(response.headers.get("X-Token-Count"))).toBeGreaterThan(0);
+  });
+
+  it("should include every item in display order", async () => {
+    const content = await (await llmsFull()).text();
+
+    let previous = -1;
+    for (const item of getAllItems()) {
+      const index = content.indexOf(`\n# ${item.title}\n`);
+      expect(index, item.slug).toBeGreaterThan(previous);
+      previous = index;
+    }
+  });
+
+  it("should expand custom Markdoc tags", async () => {
+    const content = await (await llmsFull()).text();
+
+    expect(content).not.toMatch(/\{%\s*\/?[a-z]+/);
+  });
+
+  it("should inline each registry item's source once", async () => {
+    const content = await (await llmsFull()).text();
+
+    // Registry files are printed under a `path`: line
+    const targets = content.match(/^`[\w./-]+\.tsx?`:$/gm) ?? [];
+    expect(targets.length).toBeGreaterThan(0);
+    expect(targets).toHaveLength(new Set(targets).size);
+    expect(content).toContain("is included above.");
+  });
+
+  it("should list a token estimate per section", async () => {
+    const { content, sections } = await buildLlmsFull();
+
+    expect(sections).toHaveLength(getAllItems().length);
+    for (const section of sections) {
+      expect(section.tokens).toBeGreaterThan(0);
+      expect(content).toContain(
+        `[${section.title}](https://fullstackrecipes.com/recipes/${section.slug}.md) - ~${section.tokens.toLocaleString("en-US")} tokens`,
+      );
+    }
+  });
+
+  it("should return 304 when If-None-Match matches", async () => {
+    const etag = (await llmsFull()).headers.get("ETag")!;
+
+    const response = await llmsFull("", { "If-None-Match": etag });
+    expect(response.status).toBe(304);
+    expect(response.headers.get("ETag")).toBe(etag);
+    expect(await response.text()).toBe("");
+
+    const stale = await llmsFull("", { "If-None-Match": '"stale"' });
+    expect(stale.status).toBe(200);
+  });
+
+  it("should filter items by tag", async () => {
+    const response = await llmsFull("?tags=skills");
+    const content = await response.text();
+
+    const skills = getAllItems().filter((item) => item.tags.includes("Skills"));
+    const others = getAllItems().filter(
+      (item) => !item.tags.includes("Skills"),
+    );
+    for (const item of skills) {
+      expect(content).toContain(`\n# ${item.title}\n`);
+    }
+    for (const item of others) {
+      expect(content).not.toContain(`\n# ${item.title}\n`);
+    }
+    expect(content).toContain("skill tagged Skills");
+  });
+
+  it("should use a different ETag per filter", async () => {
+    const all = (await llmsFull()).headers.get("ETag");
+    const skills = (await llmsFull("?tags=Skills")).headers.get("ETag");
+
+    expect(skills).not.toBe(all);
+  });
+
+  it("should return 400 for unknown tags", async () => {
+    const response = await llmsFull("?tags=Skills,Nope");
+
+    expect(response.status).toBe(400);
+    const data = await response.json();
+    expect(data.error).toBe("Unknown tags: Nope");
+  });
+});
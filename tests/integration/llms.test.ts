@@ -5,6 +5,7 @@ import {
   getAllRecipes,
   getRegistryItems,
 } from "@/lib/recipes/data";
+import { formatTokenCount, getTokenEstimate } from "@/lib/recipes/tokens";
 
 /**
  * E2E tests for the llms.txt endpoint.
@@ -15,6 +16,7 @@ import {
  * 3. All recipes are listed
  * 4. All registry items are listed
  * 5. The curl-based Markdown fetch instructions are included
+ * 6. Cookbooks and recipes list their cached token estimates
  */
 
 describe("GET /llms.txt", () => {
@@ -99,6 +101,20 @@ describe("GET /llms.txt", () => {
     }
   });
 
+  describe("content includes token estimates", () => {
+    it("should list the estimate next to each item link", async () => {
+      const response = await GET();
+      const content = await response.text();
+
+      for (const item of [...getAllCookbooks(), ...getAllRecipes()]) {
+        const tokens = formatTokenCount(getTokenEstimate(item.slug)!);
+        expect(content).toContain(
+          `(https://fullstackrecipes.com/recipes/${item.slug}.md) (${tokens}) - `,
+        );
+      }
+    });
+  });
+
   describe("content includes Markdown fetch instructions", () => {
     it("should have a Markdown fetch section", async () => {
       const response = await GET();
@@ -117,11 +133,11 @@ describe("GET /llms.txt", () => {
       );
     });
 
-    it("should not mention the removed MCP server", async () => {
+    it("should point agents at the MCP endpoint", async () => {
       const response = await GET();
       const content = await response.text();
 
-      expect(content).not.toContain("/api/mcp");
+      expect(content).toContain("https://fullstackrecipes.com/api/mcp");
       expect(content).not.toContain("mcpServers");
     });
   });
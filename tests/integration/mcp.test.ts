@@ -0,0 +1,161 @@
+import { describe, it, expect } from "bun:test";
+import { POST } from "@/app/api/mcp/route";
+
+/**
+ * E2E tests for the MCP server endpoint.
+ *
+ * These tests verify:
+ * 1. The server initializes over Streamable HTTP and lists its tools
+ * 2. Each tool returns recipe metadata, Markdown, search results, or registry source
+ * 3. Unknown slugs and registry items return tool errors
+ * 4. Every recipe is exposed as a recipe://<slug> resource
+ */
+
+type ToolResult = {
+  content: { type: "text"; text: string }[];
+  isError?: boolean;
+};
+
+let nextId = 1;
+
+async function rpc<T>(method: string, params?: object): Promise<T> {
+  const response = await POST(
+    new Request("http://localhost:3000/api/mcp", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params }),
+    }),
+  );
+  expect(response.status).toBe(200);
+
+  // Responses are delivered as a single server-sent event
+  const body = await response.text();
+  const data = body
+    .split("\n")
+    .find((line) => line.startsWith("data: "))!
+    .slice("data: ".length);
+  const message = JSON.parse(data);
+  expect(message.error).toBeUndefined();
+  return message.result as T;
+}
+
+function callTool(name: string, args: object): Promise<ToolResult> {
+  return rpc<ToolResult>("tools/call", { name, arguments: args });
+}
+
+describe("POST /api/mcp", () => {
+  it("should initialize with server info", async () => {
+    const result = await rpc<{ serverInfo: { name: string } }>("initialize", {
+      protocolVersion: "2025-06-18",
+      capabilities: {},
+      clientInfo: { name: "test", version: "1.0.0" },
+    });
+
+    expect(result.serverInfo.name).toBe("fullstackrecipes");
+  });
+
+  it("should list all tools", async () => {
+    const { tools } = await rpc<{ tools: { name: string }[] }>("tools/list");
+
+    expect(tools.map((tool) => tool.name).sort()).toEqual([
+      "get_recipe",
+      "get_registry_item",
+      "list_recipes",
+      "search_recipes",
+    ]);
+  });
+
+  describe("list_recipes", () => {
+    it("should list recipes filtered by tag", async () => {
+      const result = await callTool("list_recipes", { tag: "skills" });
+      const items = JSON.parse(result.content[0].text);
+
+      expect(items.length).toBeGreaterThan(0);
+      for (const item of items) {
+        expect(item.tags).toContain("Skills");
+        expect(item.uri).toBe(`recipe://${item.slug}`);
+      }
+    });
+  });
+
+  describe("get_recipe", () => {
+    it("should return recipe markdown with custom tags expanded", async () => {
+      const result = await callTool("get_recipe", { slug: "ai-chat" });
+      const markdown = result.content[0].text;
+
+      expect(result.isError).toBeUndefined();
+      expect(markdown).toStartWith("# AI Chat");
+      expect(markdown).toContain("## Prerequisites");
+      expect(markdown).not.toMatch(/\{%\s*registry/);
+    });
+
+    it("should resolve redirected slugs", async () => {
+      const result = await callTool("get_recipe", {
+        slug: "using-drizzle-queries",
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain("Drizzle");
+    });
+
+    it("should return a tool error for unknown slugs", async () => {
+      const result = await callTool("get_recipe", { slug: "non-existent" });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Recipe not found");
+    });
+  });
+
+  describe("search_recipes", () => {
+    it("should return ranked sections", async () => {
+      const result = await callTool("search_recipes", {
+        query: "attachDatabasePool",
+        limit: 3,
+      });
+      const results = JSON.parse(result.content[0].text);
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.length).toBeLessThanOrEqual(3);
+      expect(results[0].slug).toBe("neon-drizzle-setup");
+    });
+  });
+
+  describe("get_registry_item", () => {
+    it("should return registry source files", async () => {
+      const result = await callTool("get_registry_item", { name: "assert" });
+      const item = JSON.parse(result.content[0].text);
+
+      expect(item.name).toBe("assert");
+      expect(item.files[0].content).toContain("export function assert");
+    });
+
+    it("should return a tool error for unknown items", async () => {
+      const result = await callTool("get_registry_item", { name: "nope" });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Available items: assert");
+    });
+  });
+
+  describe("resources", () => {
+    it("should list every recipe as a resource", async () => {
+      const { resources } = await rpc<{ resources: { uri: string }[] }>(
+        "resources/list",
+      );
+
+      expect(resources.map((r) => r.uri)).toContain("recipe://ai-chat");
+    });
+
+    it("should read a recipe resource as markdown", async () => {
+      const { contents } = await rpc<{
+        contents: { uri: string; mimeType: string; text: string }[];
+      }>("resources/read", { uri: "recipe://neon-drizzle-setup" });
+
+      expect(contents[0].mimeType).toBe("text/markdown");
+      expect(contents[0].text).toStartWith("# Neon + Drizzle Setup");
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect } from "bun:test";
+import { getRecipeBySlug } from "@/lib/recipes/data";
+import { loadRecipeMarkdown } from "@/lib/recipes/loader";
+import { loadRegistryItem } from "@/lib/recipes/registry";
+import {
+  formatFileChange,
+  mergeEnvExample,
+  mergePackageJson,
+  parseRecipeMarkdown,
+  planApply,
+  resolveRegistryTarget,
+  UnsafeFilePathError,
+} from "@/lib/recipes/apply";
+
+/**
+ * E2E tests for applying a recipe to a project (`fullstackrecipes apply`).
+ *
+ * These tests verify:
+ * 1. Files, install commands, registry items, and env vars are read from a
+ *    recipe's Markdown twin; excerpts are reported instead of written
+ * 2. Dependencies merge into package.json without replacing existing ones
+ * 3. Env vars missing from .env.example are appended
+ * 4. Existing files with different content are conflicts unless forced
+ * 5. Registry items resolve like shadcn does
+ * 6. Files that would land outside the project are refused
+ */
+
+const MARKDOWN = `# Example
+
+\`\`\`bash
+bun add zod@^4 resend
+bun add -D @types/pg
+bunx --bun shadcn@latest add https://fullstackrecipes.com/r/assert.json
+\`\`\`
+
+\`\`\`env
+RESEND_API_KEY="re_your_api_key"
+\`\`\`
+
+\`\`\`typescript
+// src/lib/example.ts
+export const a = 1;
+\`\`\`
+
+\`\`\`typescript
+// src/lib/example.ts
+export const a = 2;
+\`\`\`
+
+\`\`\`typescript
+// src/lib/db/client.ts
+// ... existing imports
+export const db = drizzle();
+\`\`\`
+
+\`\`\`typescript
+import { a } from "@/lib/example";
+\`\`\`
+`;
+
+function project(files: Record<string, string>) {
+  return async (path: string) => files[path] ?? null;
+}
+
+describe("parseRecipeMarkdown", () => {
+  it("should collect files, packages, registry items, and env vars", () => {
+    expect(parseRecipeMarkdown(MARKDOWN)).toEqual({
+      files: [{ path: "src/lib/example.ts", content: "export const a = 2;\n" }],
+      excerpts: ["src/lib/db/client.ts"],
+      dependencies: ["zod@^4", "resend"],
+      devDependencies: ["@types/pg"],
+      registryItems: ["assert"],
+      envVars: ['RESEND_API_KEY="re_your_api_key"'],
+    });
+  });
+
+  it("should read a recipe's Markdown twin", async () => {
+    const changes = parseRecipeMarkdown(
+      await loadRecipeMarkdown(getRecipeBySlug("resend-setup")!),
+    );
+
+    expect(changes.files.map((file) => file.path)).toContain(
+      "src/lib/resend/config.ts",
+    );
+    expect(changes.dependencies).toContain("resend");
+    expect(
+      changes.envVars.some((line) => line.startsWith("RESEND_API_KEY=")),
+    ).toBe(true);
+  });
+});
+
+describe("mergePackageJson", () => {
+  it("should add missing packages and keep existing versions", () => {
+    const before = JSON.stringify({
+      name: "app",
+      dependencies: { zod: "^3.0.0", next: "16.0.0" },
+    });
+    const after = JSON.parse(
+      mergePackageJson(before, ["zod@^4", "resend"], ["@types/pg"]),
+    );
+
+    expect(after.dependencies).toEqual({
+      next: "16.0.0",
+      resend: "latest",
+      zod: "^3.0.0",
+    });
+    expect(after.devDependencies).toEqual({ "@types/pg": "latest" });
+  });
+
+  it("should leave the file untouched when nothing is missing", () => {
+    const before = '{"dependencies":{"zod":"^4"}}';
+
+    expect(mergePackageJson(before, ["zod"], [])).toBe(before);
+  });
+});
+
+describe("mergeEnvExample", () => {
+  it("should append missing vars under the recipe title", () => {
+    const after = mergeEnvExample(
+      '# DATABASE_URL=""\nOTHER="1"\n',
+      ['DATABASE_URL="postgres://"', 'RESEND_API_KEY="re_"'],
+      "Resend Setup",
+    );
+
+    expect(after).toBe(
+      '# DATABASE_URL=""\nOTHER="1"\n\n# Resend Setup\nRESEND_API_KEY="re_"\n',
+    );
+  });
+});
+
+describe("resolveRegistryTarget", () => {
+  it("should place targets under src/ when the project has one", () => {
+    expect(resolveRegistryTarget("lib/assert.ts", true)).toBe(
+      "src/lib/assert.ts",
+    );
+    expect(resolveRegistryTarget("lib/assert.ts", false)).toBe("lib/assert.ts");
+    expect(resolveRegistryTarget("~/vercel.ts", true)).toBe("vercel.ts");
+  });
+});
+
+describe("planApply", () => {
+  const changes = parseRecipeMarkdown(MARKDOWN);
+  const options = { title: "Example", srcDir: true };
+
+  it("should create new files and merge package.json and .env.example", async () => {
+    const assert = (await loadRegistryItem("assert"))!;
+    const plan = await planApply(
+      changes,
+      [assert],
+      project({ "package.json": '{"name":"app"}' }),
+      options,
+    );
+
+    expect(plan.map((change) => [change.path, change.status])).toEqual([
+      [resolveRegistryTarget(assert.files[0].target, true), "create"],
+      ["src/lib/example.ts", "create"],
+      ["package.json", "update"],
+      [".env.example", "create"],
+    ]);
+    expect(formatFileChange(plan[1])).toContain("+export const a = 2;");
+  });
+
+  it("should report differing files as conflicts unless forced", async () => {
+    const files = project({ "src/lib/example.ts": "export const a = 1;\n" });
+
+    const [conflict] = await planApply(changes, [], files, options);
+    expect(conflict.status).toBe("conflict");
+
+    const [forced] = await planApply(changes, [], files, {
+      ...options,
+      force: true,
+    });
+    expect(forced.status).toBe("update");
+    expect(formatFileChange(forced)).toContain("-export const a = 1;");
+  });
+
+  it("should leave files that already match unchanged", async () => {
+    const [change] = await planApply(
+      changes,
+      [],
+      project({ "src/lib/example.ts": "export const a = 2;\n" }),
+      options,
+    );
+
+    expect(change.status).toBe("unchanged");
+    expect(formatFileChange(change)).toBe("");
+  });
+
+  it("should refuse files outside the project", async () => {
+    const root = "/home/app";
+    const unsafe = ["../../evil.ts", "src/../../evil.ts", "/tmp/evil.ts"];
+    for (const filePath of unsafe) {
+      const markdown = `\`\`\`typescript\n// ${filePath}\nexport {};\n\`\`\`\n`;
+      await expect(
+        planApply(parseRecipeMarkdown(markdown), [], project({}), {
+          ...options,
+          root,
+        }),
+      ).rejects.toThrow(UnsafeFilePathError);
+    }
+
+    const registryItem = {
+      name: "evil",
+      title: "Evil",
+      description: "",
+      files: [{ path: "x.ts", content: "", target: "~/../../x.ts" }],
+    };
+    await expect(
+      planApply(parseRecipeMarkdown(""), [registryItem], project({}), {
+        ...options,
+        root,
+      }),
+    ).rejects.toThrow(UnsafeFilePathError);
+  });
+});
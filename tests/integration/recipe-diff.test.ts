@@ -0,0 +1,121 @@
+import { describe, it, expect } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { GET, HEAD } from "@/app/diff/[slug]/route";
+import { getItemBySlug, recipeRedirects } from "@/lib/recipes/data";
+
+/**
+ * E2E tests for the recipe diff endpoint (/recipes/<slug>.diff).
+ *
+ * These tests verify:
+ * 1. Diffing a revision against itself returns an empty diff
+ * 2. A date before the history starts diffs against an empty recipe
+ * 3. Redirected slugs resolve to their target recipe
+ * 4. Missing, malformed, and unknown revisions return errors
+ * 5. Deployments without git history report 503 without running git
+ */
+
+function diffRequest(slug: string, query: string) {
+  return GET(new Request(`http://localhost/recipes/${slug}.diff?${query}`), {
+    params: Promise.resolve({ slug }),
+  });
+}
+
+describe("GET /recipes/<slug>.diff", () => {
+  it("should return an empty diff when nothing changed", async () => {
+    // Pinning `to` keeps the result independent of uncommitted edits
+    const response = await diffRequest(
+      "use-fullstackrecipes",
+      "from=HEAD&to=HEAD",
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/x-diff; charset=utf-8",
+    );
+    expect(await response.text()).toBe("");
+  });
+
+  it("should diff against an empty recipe before the history starts", async () => {
+    const item = getItemBySlug("neon-drizzle-setup")!;
+    const response = await diffRequest(item.slug, "from=2000-01-01");
+    const diff = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(diff).toContain(`--- a/${item.slug}.md\t2000-01-01`);
+    expect(diff).toContain(`+++ b/${item.slug}.md\tcurrent`);
+    // The header and prerequisites come from current metadata; the body is all new
+    expect(diff).toContain(" Complete these setup recipes first, in order:");
+    expect(diff).toContain("+### Step 1:");
+    expect(diff).not.toMatch(/^-[^-]/m);
+  });
+
+  it("should diff between two revisions", async () => {
+    const response = await diffRequest(
+      "neon-drizzle-setup",
+      "from=HEAD&to=HEAD",
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("");
+  });
+
+  it("should resolve redirected slugs", async () => {
+    const [oldSlug] = Object.keys(recipeRedirects);
+    const response = await diffRequest(oldSlug, "from=HEAD");
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should return 400 without a from parameter", async () => {
+    const response = await diffRequest("neon-drizzle-setup", "");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Missing from parameter");
+  });
+
+  it("should return 404 for unknown recipes", async () => {
+    const response = await diffRequest("does-not-exist", "from=HEAD");
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 404 for unknown revisions", async () => {
+    const response = await diffRequest(
+      "neon-drizzle-setup",
+      "from=no-such-branch",
+    );
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe(
+      "Unknown revision: no-such-branch",
+    );
+  });
+
+  it("should reject revisions that look like git options", async () => {
+    const response = await diffRequest(
+      "neon-drizzle-setup",
+      "from=--output=/tmp/x",
+    );
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toContain("Invalid revision");
+  });
+
+  it("should report whether history is available", async () => {
+    expect(HEAD().status).toBe(204);
+
+    const cwd = process.cwd();
+    const dir = await mkdtemp(path.join(os.tmpdir(), "no-git-"));
+    try {
+      process.chdir(dir);
+      expect(HEAD().status).toBe(503);
+      const response = await diffRequest("neon-drizzle-setup", "from=HEAD");
+      expect(response.status).toBe(503);
+    } finally {
+      process.chdir(cwd);
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
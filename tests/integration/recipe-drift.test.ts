@@ -0,0 +1,42 @@
+import { describe, it, expect } from "bun:test";
+import { checkAllRecipeDrift, getDriftedFiles } from "@/lib/recipes/drift";
+import baseline from "./recipe-drift.baseline.json";
+
+/**
+ * Drift tests for recipe code blocks against the template source.
+ *
+ * These tests verify:
+ * 1. No recipe drifts from templates/fullstackrecipe beyond the accepted baseline
+ * 2. The baseline only lists drift that still exists, so fixes shrink it
+ *
+ * Run `bun run recipes:drift --verbose` to see drifted lines, and
+ * `bun run recipes:drift --update-baseline` after fixing drift.
+ */
+
+const accepted = baseline as Record<string, string[]>;
+const reports = await checkAllRecipeDrift();
+
+describe("recipe code blocks", () => {
+  it("should not drift from the template beyond the baseline", () => {
+    const newDrift = reports.flatMap((report) =>
+      getDriftedFiles(report)
+        .filter((file) => !accepted[report.slug]?.includes(file))
+        .map((file) => `${report.slug}: ${file}`),
+    );
+
+    expect(newDrift).toEqual([]);
+  });
+
+  it("should not list fixed drift in the baseline", () => {
+    const drifted = new Map(
+      reports.map((report) => [report.slug, getDriftedFiles(report)]),
+    );
+    const fixed = Object.entries(accepted).flatMap(([slug, files]) =>
+      files
+        .filter((file) => !drifted.get(slug)?.includes(file))
+        .map((file) => `${slug}: ${file}`),
+    );
+
+    expect(fixed).toEqual([]);
+  });
+});
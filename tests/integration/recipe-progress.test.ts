@@ -0,0 +1,168 @@
+import { describe, it, expect } from "bun:test";
+import {
+  getAllItems,
+  getCookbookBySlug,
+  getRecipeBySlug,
+} from "@/lib/recipes/data";
+import { getContentSteps, getRecipeSteps } from "@/lib/recipes/loader";
+import {
+  getProgressSteps,
+  getRecipeProgress,
+  getStartedItems,
+} from "@/lib/progress/steps";
+import {
+  getStepKey,
+  summarizeProgress,
+  type ProgressStep,
+} from "@/lib/progress/summary";
+import type { RecipeProgressRow } from "@/lib/progress/schema";
+
+/**
+ * E2E tests for recipe progress checklists.
+ *
+ * These tests verify:
+ * 1. Steps are the `###` headings and `{% step %}` tags of a recipe, with
+ *    the heading ids rendered on the recipe page
+ * 2. Cookbook checklists span their recipes' steps in order
+ * 3. Progress summaries count only existing steps and resume after the
+ *    most recently ticked step
+ * 4. Cookbooks roll up the progress of their recipes
+ */
+
+function row(slug: string, headingId: string, minute: number) {
+  return {
+    userId: "user-1",
+    slug,
+    headingId,
+    completedAt: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+  } satisfies RecipeProgressRow;
+}
+
+const steps: ProgressStep[] = ["a", "b", "c", "d"].map((id) => ({
+  slug: "recipe",
+  id,
+  title: id.toUpperCase(),
+}));
+
+describe("getContentSteps", () => {
+  it("should list ### headings and numbered step tags with their ids", () => {
+    const content = [
+      "## Setup",
+      '{% step title="Install packages" %}',
+      "Run `bun add`.",
+      "{% /step %}",
+      "### Create `db.ts`",
+      "#### Not a step",
+    ].join("\n\n");
+
+    expect(getContentSteps(content)).toEqual([
+      {
+        id: "step-1-install-packages",
+        title: "Step 1: Install packages",
+        level: 3,
+      },
+      { id: "create-dbts", title: "Create db.ts", level: 3 },
+    ]);
+  });
+
+  it("should ignore headings inside code fences", () => {
+    expect(getContentSteps("```md\n### Example\n```")).toEqual([]);
+  });
+});
+
+describe("getRecipeSteps", () => {
+  it("should return the steps of a recipe page", async () => {
+    const steps = await getRecipeSteps(getRecipeBySlug("resend-setup")!);
+
+    expect(steps.map((step) => step.id)).toContain(
+      "step-1-install-the-packages",
+    );
+  });
+});
+
+describe("getProgressSteps", () => {
+  it("should span every recipe of a cookbook in order", async () => {
+    const cookbook = getCookbookBySlug("base-app-setup")!;
+    const progressSteps = await getProgressSteps(cookbook);
+
+    const slugs = Array.from(new Set(progressSteps.map((step) => step.slug)));
+    expect(slugs).toEqual(
+      cookbook.recipes.filter((slug) => slugs.includes(slug)),
+    );
+    expect(slugs.length).toBeGreaterThan(1);
+  });
+
+  it("should list each step key once", async () => {
+    for (const item of getAllItems()) {
+      const keys = (await getProgressSteps(item)).map(getStepKey);
+      expect(keys, item.slug).toHaveLength(new Set(keys).size);
+    }
+  });
+});
+
+describe("summarizeProgress", () => {
+  it("should resume after the most recently ticked step", () => {
+    const summary = summarizeProgress("recipe", steps, [
+      "recipe#c",
+      "recipe#a",
+    ]);
+
+    expect(summary.completed).toEqual(["recipe#c", "recipe#a"]);
+    expect(summary.resume?.id).toBe("b");
+  });
+
+  it("should wrap around to the first open step", () => {
+    const summary = summarizeProgress("recipe", steps, [
+      "recipe#b",
+      "recipe#d",
+    ]);
+
+    expect(summary.resume?.id).toBe("a");
+  });
+
+  it("should ignore steps that no longer exist", () => {
+    const summary = summarizeProgress("recipe", steps, ["recipe#removed"]);
+
+    expect(summary).toEqual({
+      slug: "recipe",
+      total: 4,
+      completed: [],
+      resume: steps[0],
+    });
+  });
+
+  it("should have no resume step when every step is done", () => {
+    const summary = summarizeProgress("recipe", steps, steps.map(getStepKey));
+
+    expect(summary.resume).toBeNull();
+  });
+});
+
+describe("getRecipeProgress", () => {
+  it("should roll up a cookbook from its recipes' rows", async () => {
+    const cookbook = getCookbookBySlug("base-app-setup")!;
+    const [first, second] = await getProgressSteps(cookbook);
+    const rows = [
+      row(second.slug, second.id, 2),
+      row(first.slug, first.id, 1),
+      row("unrelated-recipe", "step-1", 3),
+    ];
+
+    const [progress] = await getRecipeProgress([cookbook], rows);
+
+    expect(progress.slug).toBe("base-app-setup");
+    expect(progress.completed).toEqual([getStepKey(first), getStepKey(second)]);
+  });
+});
+
+describe("getStartedItems", () => {
+  it("should include started recipes and the cookbooks containing them", () => {
+    const started = getStartedItems(getAllItems(), [
+      { slug: "neon-drizzle-setup" },
+    ]).map((item) => item.slug);
+
+    expect(started).toContain("neon-drizzle-setup");
+    expect(started).toContain("base-app-setup");
+    expect(started).not.toContain("resend-setup");
+  });
+});
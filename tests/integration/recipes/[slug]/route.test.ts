@@ -2,6 +2,8 @@ import { describe, it, expect } from "bun:test";
 import { GET } from "@/app/api/recipes/[slug]/route";
 import { getAllItems, recipeRedirects } from "@/lib/recipes/data";
 import { loadRecipeMarkdown } from "@/lib/recipes/loader";
+import { structuredRecipeSchema } from "@/lib/recipes/structured";
+import { GET as getSchema } from "@/app/api/recipes/schema/route";
 
 /**
  * E2E tests for the recipes API endpoint.
@@ -10,11 +12,13 @@ import { loadRecipeMarkdown } from "@/lib/recipes/loader";
  * 1. Every recipe in docs/recipes returns valid markdown via the API
  * 2. Cookbooks properly aggregate their recipe content
  * 3. Custom {% registry %} tags are expanded to include source code
+ * 4. `?format=structured` returns steps, files, packages, and env vars that
+ *    match the published JSON Schema
  */
 
 // Helper to create a mock Request and params for the route handler
-function createMockRequest(slug: string) {
-  const url = `http://localhost:3000/api/recipes/${slug}`;
+function createMockRequest(slug: string, query = "") {
+  const url = `http://localhost:3000/api/recipes/${slug}${query}`;
   const request = new Request(url);
   const params = Promise.resolve({ slug });
   return { request, params };
@@ -122,3 +126,120 @@ describe("Cookbook content aggregation", () => {
     });
   }
 });
+
+describe("GET /api/recipes/[slug]?format=structured", () => {
+  async function getStructured(slug: string) {
+    const { request, params } = createMockRequest(slug, "?format=structured");
+    const response = await GET(request, { params });
+    expect(response.status).toBe(200);
+    return structuredRecipeSchema.parse(await response.json());
+  }
+
+  for (const item of getAllItems()) {
+    it(`should return a valid structured recipe for "${item.slug}"`, async () => {
+      const recipe = await getStructured(item.slug);
+
+      expect(recipe.schemaVersion).toBe(1);
+      expect(recipe.slug).toBe(item.slug);
+    });
+  }
+
+  it("should extract steps, files, packages, and env vars", async () => {
+    const recipe = await getStructured("neon-drizzle-setup");
+
+    expect(recipe.type).toBe("setup");
+    expect(recipe.requires).toEqual(["config-schema-setup"]);
+    expect(recipe.steps[0]).toEqual({
+      number: 1,
+      title: "Add the Neon MCP Server",
+      anchor: "step-1-add-the-neon-mcp-server",
+      section: null,
+    });
+
+    const client = recipe.files.find((f) => f.path === "src/lib/db/client.ts");
+    expect(client?.step).toBe("step-7-create-the-database-client");
+    expect(client?.code).toContain("attachDatabasePool(pool)");
+    expect(client?.code).not.toContain("// src/lib/db/client.ts");
+
+    expect(recipe.packages.dependencies).toContain("drizzle-orm");
+    expect(recipe.packages.devDependencies).toContain("drizzle-kit");
+    expect(recipe.envVars).toContainEqual({
+      name: "DATABASE_URL",
+      scope: "server",
+      optional: false,
+      config: "Database",
+      description:
+        "Neon Postgres connection string (use the pooled connection string)",
+    });
+  });
+
+  it("should mark public env vars declared with pub()", async () => {
+    const recipe = await getStructured("sentry-setup");
+
+    expect(recipe.envVars).toContainEqual(
+      expect.objectContaining({
+        name: "NEXT_PUBLIC_SENTRY_DSN",
+        scope: "public",
+        config: "Sentry",
+      }),
+    );
+  });
+
+  it("should include registry dependencies and their files", async () => {
+    const item = getAllItems().find(
+      (i) => "registryDeps" in i && i.registryDeps?.length,
+    )!;
+    const recipe = await getStructured(item.slug);
+    const [name] = item.registryDeps!;
+
+    expect(recipe.registryDependencies.map((dep) => dep.name)).toContain(name);
+    expect(recipe.files.some((file) => file.registryItem === name)).toBe(true);
+  });
+
+  it("should place registry files in their step, in document order", async () => {
+    const recipe = await getStructured("pino-logging-setup");
+    const files = recipe.files.filter((file) => file.registryItem === "logger");
+
+    expect(files).toHaveLength(2);
+    for (const file of files) {
+      expect(file.step).toBe("step-3-add-the-logger-utility");
+      expect(file.language).toBe("typescript");
+    }
+    const stepOrder = recipe.files.map((file) =>
+      recipe.steps.findIndex((step) => step.anchor === file.step),
+    );
+    expect(stepOrder).toEqual([...stepOrder].sort((a, b) => a - b));
+  });
+
+  it("should keep the format when redirecting old slugs", async () => {
+    const [oldSlug] = Object.keys(recipeRedirects);
+    const { request, params } = createMockRequest(
+      oldSlug,
+      "?format=structured",
+    );
+    const response = await GET(request, { params });
+
+    expect(response.status).toBe(301);
+    expect(response.headers.get("location")).toContain("?format=structured");
+  });
+
+  it("should return 400 for unknown formats", async () => {
+    const { request, params } = createMockRequest(
+      "neon-drizzle-setup",
+      "?format=xml",
+    );
+    const response = await GET(request, { params });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should publish the JSON Schema with its version", async () => {
+    const schema = await (await getSchema()).json();
+
+    expect(schema.$id).toBe(
+      "https://fullstackrecipes.com/api/recipes/schema#v1",
+    );
+    expect(schema.properties.schemaVersion.const).toBe(1);
+    expect(schema.required).toContain("steps");
+  });
+});
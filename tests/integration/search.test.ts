@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import { GET } from "@/app/api/search/route";
+import type { SearchResult } from "@/lib/recipes/search";
+
+/**
+ * E2E tests for the full-text search endpoint.
+ *
+ * These tests verify:
+ * 1. A missing query is rejected
+ * 2. Identifiers that only appear in recipe bodies are found
+ * 3. Results deep-link to the matching section
+ * 4. The limit parameter is respected
+ */
+
+async function search(query: string): Promise<Response> {
+  const url = `http://localhost:3000/api/search?${query}`;
+  return GET(new Request(url));
+}
+
+describe("GET /api/search", () => {
+  it("should return 400 when the query is missing", async () => {
+    const response = await search("q=%20");
+
+    expect(response.status).toBe(400);
+    const data = await response.json();
+    expect(data.error).toBe("Missing query");
+  });
+
+  it("should find identifiers inside recipe code blocks", async () => {
+    const response = await search("q=attachDatabasePool");
+
+    expect(response.status).toBe(200);
+    const { results } = (await response.json()) as {
+      results: SearchResult[];
+    };
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.map((r) => r.slug)).toContain("neon-drizzle-setup");
+  });
+
+  it("should deep-link results to their section anchor", async () => {
+    const response = await search("q=attachDatabasePool");
+    const { results } = (await response.json()) as {
+      results: SearchResult[];
+    };
+
+    const hit = results.find((r) => r.anchor !== null);
+    expect(hit).toBeDefined();
+    expect(hit!.url).toBe(`/recipes/${hit!.slug}#${hit!.anchor}`);
+    expect(hit!.snippet.toLowerCase()).toContain("attachdatabasepool");
+  });
+
+  it("should rank title matches first", async () => {
+    const response = await search("q=sentry");
+    const { results } = (await response.json()) as {
+      results: SearchResult[];
+    };
+
+    expect(results[0].title.toLowerCase()).toContain("sentry");
+  });
+
+  it("should respect the limit parameter", async () => {
+    const response = await search("q=bun&limit=3");
+    const { results } = (await response.json()) as {
+      results: SearchResult[];
+    };
+
+    expect(results.length).toBe(3);
+  });
+});
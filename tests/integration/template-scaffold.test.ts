@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { TEMPLATE_PATH } from "../../scripts/template/template";
+import {
+  getFeatureCombinations,
+  isRemovedFeaturePath,
+  resolveRemovedFeatures,
+  TemplateFeatureError,
+} from "../../scripts/template/features";
+import {
+  removeEnvSections,
+  scaffoldProject,
+} from "../../scripts/template/scaffold";
+
+/**
+ * E2E tests for creating projects from the template without some features.
+ *
+ * These tests verify:
+ * 1. Removing a feature also removes the features that require it
+ * 2. Every feature combination scaffolds: all edits still match the template
+ * 3. No remaining file imports a deleted file
+ * 4. Packages, scripts and env sections of removed features are dropped,
+ *    while packages still imported elsewhere are kept, and the lockfile
+ *    pinning them is dropped too
+ *
+ * `bun run template:typecheck` type-checks each combination with the
+ * template's dependencies installed.
+ */
+
+const TEMPLATE_DIR = path.join(process.cwd(), TEMPLATE_PATH);
+const SOURCE_FILE = /\.(ts|tsx|mts|js|mjs)$/;
+const LOCAL_IMPORT =
+  /(?:from|import|import\()\s*["']((?:@\/|\.\.?\/)[^"']+)["']/g;
+const RESOLVED_EXTENSIONS = [
+  "",
+  ".ts",
+  ".tsx",
+  ".js",
+  ".mjs",
+  "/index.ts",
+  "/index.tsx",
+];
+
+let rootDir: string;
+
+beforeAll(async () => {
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "template-scaffold-"));
+});
+
+afterAll(async () => {
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+async function listFiles(dir: string, root = dir): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      return entry.isDirectory()
+        ? listFiles(fullPath, root)
+        : [path.relative(root, fullPath)];
+    }),
+  );
+  return files.flat();
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  const stat = await fs.stat(filePath).catch(() => null);
+  return stat?.isFile() ?? false;
+}
+
+/** Local imports of a project that don't resolve to a file */
+async function findBrokenImports(projectDir: string): Promise<string[]> {
+  const broken: string[] = [];
+  for (const file of await listFiles(projectDir)) {
+    if (!SOURCE_FILE.test(file)) continue;
+    const source = await fs.readFile(path.join(projectDir, file), "utf-8");
+    for (const [, specifier] of source.matchAll(LOCAL_IMPORT)) {
+      const target = specifier.startsWith("@/")
+        ? path.join(projectDir, "src", specifier.slice(2))
+        : path.join(projectDir, path.dirname(file), specifier);
+      const candidates = RESOLVED_EXTENSIONS.map((ext) => target + ext);
+      const found = await Promise.all(candidates.map(isFile));
+      if (!found.includes(true)) broken.push(`${file} → ${specifier}`);
+    }
+  }
+  return broken;
+}
+
+async function readPackageJson(projectDir: string) {
+  return JSON.parse(
+    await fs.readFile(path.join(projectDir, "package.json"), "utf-8"),
+  ) as {
+    scripts: Record<string, string>;
+    dependencies: Record<string, string>;
+    devDependencies: Record<string, string>;
+  };
+}
+
+describe("resolveRemovedFeatures", () => {
+  it("should remove features that require a removed feature", () => {
+    const names = (list: string[]) =>
+      resolveRemovedFeatures(list).map((feature) => feature.name);
+
+    expect(names(["sentry"])).toEqual(["sentry"]);
+    expect(names(["workflows"])).toEqual(["chat", "workflows"]);
+    expect(names(["resend"])).toEqual(["stripe", "chat", "auth", "resend"]);
+  });
+
+  it("should reject unknown features", () => {
+    expect(() => resolveRemovedFeatures(["billing"])).toThrow(
+      TemplateFeatureError,
+    );
+  });
+
+  it("should list each distinct project once, the full template first", () => {
+    const combinations = getFeatureCombinations();
+    expect(combinations[0]).toEqual([]);
+    expect(new Set(combinations.map((c) => c.join())).size).toBe(
+      combinations.length,
+    );
+  });
+});
+
+describe("removeEnvSections", () => {
+  it("should remove a section up to the next section's header", () => {
+    const env = [
+      "# ----------",
+      "# Keep",
+      "# ----------",
+      'KEEP="1"',
+      "",
+      "# ----------",
+      "# Drop — OPTIONAL",
+      "# ----------",
+      'DROP="1"',
+      "",
+      "# ----------",
+      "# Last",
+      "# ----------",
+      'LAST="1"',
+      "",
+    ].join("\n");
+
+    expect(removeEnvSections(env, ["Drop"])).toBe(
+      [
+        "# ----------",
+        "# Keep",
+        "# ----------",
+        'KEEP="1"',
+        "",
+        "# ----------",
+        "# Last",
+        "# ----------",
+        'LAST="1"',
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("scaffoldProject", () => {
+  it("should copy the full template without local files", async () => {
+    const projectDir = path.join(rootDir, "full");
+    const result = await scaffoldProject(TEMPLATE_DIR, projectDir, []);
+
+    expect(result).toEqual({
+      removedFeatures: [],
+      removedDependencies: [],
+      resetMigrations: false,
+      resetLockfile: false,
+    });
+    const files = await listFiles(projectDir);
+    expect(files).toContain("bun.lock");
+    expect(files).toContain("src/lib/stripe/schema.ts");
+    expect(files.some((file) => file.startsWith("node_modules/"))).toBe(false);
+  });
+
+  it("should refuse to overwrite an existing directory", async () => {
+    const projectDir = path.join(rootDir, "existing");
+    await fs.mkdir(projectDir);
+    await fs.writeFile(path.join(projectDir, "package.json"), "{}");
+
+    await expect(
+      scaffoldProject(TEMPLATE_DIR, projectDir, []),
+    ).rejects.toThrow();
+  });
+
+  it("should drop a feature's packages, scripts and env vars", async () => {
+    const projectDir = path.join(rootDir, "no-stripe-sentry");
+    const result = await scaffoldProject(TEMPLATE_DIR, projectDir, [
+      "stripe",
+      "sentry",
+    ]);
+
+    expect(result.removedDependencies.sort()).toEqual([
+      "@sentry/nextjs",
+      "stripe",
+    ]);
+    expect(result.resetMigrations).toBe(true);
+    expect(result.resetLockfile).toBe(true);
+    expect(await isFile(path.join(projectDir, "bun.lock"))).toBe(false);
+
+    const pkg = await readPackageJson(projectDir);
+    expect(pkg.scripts["dev:stripe"]).toBeUndefined();
+    expect(pkg.scripts["start:stripe"]).toBeUndefined();
+    expect(pkg.dependencies["better-auth"]).toBeDefined();
+
+    const env = await fs.readFile(
+      path.join(projectDir, ".env.example"),
+      "utf-8",
+    );
+    expect(env).not.toContain("STRIPE_SECRET_KEY");
+    expect(env).not.toContain("SENTRY_DSN");
+    expect(env).toContain("BETTER_AUTH_SECRET");
+    expect(env).toContain("NEON_API_KEY");
+
+    const dbClient = await fs.readFile(
+      path.join(projectDir, "src/lib/db/client.ts"),
+      "utf-8",
+    );
+    expect(dbClient).not.toContain("stripe");
+    expect(dbClient).toContain("...authSchema");
+
+    const migrations = await fs.readdir(
+      path.join(projectDir, "src/lib/db/migrations"),
+    );
+    expect(migrations).toEqual([]);
+  });
+
+  it("should keep packages that remaining files still import", async () => {
+    const noChat = path.join(rootDir, "no-chat");
+    const chatResult = await scaffoldProject(TEMPLATE_DIR, noChat, ["chat"]);
+
+    // Workflow steps still stream AI SDK chunks
+    expect(chatResult.removedDependencies).toContain("@ai-sdk/react");
+    expect(chatResult.removedDependencies).not.toContain("ai");
+    expect((await readPackageJson(noChat)).dependencies.ai).toBeDefined();
+
+    const noWorkflows = path.join(rootDir, "no-workflows");
+    const result = await scaffoldProject(TEMPLATE_DIR, noWorkflows, [
+      "workflows",
+    ]);
+    expect(result.removedFeatures).toEqual(["chat", "workflows"]);
+    expect(result.removedDependencies).toContain("ai");
+    expect(result.removedDependencies).toContain("workflow");
+  });
+
+  it(
+    "should leave no import of a deleted file in any combination",
+    async () => {
+      for (const removed of getFeatureCombinations()) {
+        const projectDir = path.join(rootDir, `combo-${removed.join("-")}`);
+        await scaffoldProject(TEMPLATE_DIR, projectDir, removed);
+
+        expect({
+          removed,
+          broken: await findBrokenImports(projectDir),
+        }).toEqual({ removed, broken: [] });
+        const files = await listFiles(projectDir);
+        expect(files.filter((f) => isRemovedFeaturePath(f, removed))).toEqual(
+          [],
+        );
+        await fs.rm(projectDir, { recursive: true, force: true });
+      }
+    },
+    { timeout: 120_000 },
+  );
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  getChangedFiles,
+  readFileBytesAtRevision,
+  resolveRevision,
+} from "@/lib/recipes/git";
+import {
+  applyTemplateUpgrade,
+  planTemplateUpgrade,
+  readTemplateLock,
+  upgradeTemplateFile,
+  TEMPLATE_LOCK_FILE,
+  TEMPLATE_PATH,
+  TemplateLockError,
+} from "../../scripts/template/template";
+import { writeTemplateLock } from "../../scripts/template/lock";
+
+/**
+ * E2E tests for upgrading projects created from the template.
+ *
+ * These tests verify:
+ * 1. Files are three-way merged between the locked template version, the
+ *    current template, and the project's version
+ * 2. Overlapping edits are reported as conflicts with diff3 markers
+ * 3. Files deleted on one side are removed or reported
+ * 4. Binary files are copied byte for byte and never merged
+ * 5. The lockfile records the template commit and rejects other formats
+ *    and revisions that aren't commits
+ * 6. Upgrades only consider files the template changed, from local git
+ */
+
+const text = (content: string) => Buffer.from(content);
+
+const BASE = text("a\nb\nc\nd\ne\n");
+// Not valid UTF-8, and NUL bytes mark it as binary
+const ICON = Buffer.from([0x00, 0x00, 0x01, 0x00, 0xff, 0xfe, 0x80]);
+
+let projectDir: string;
+
+beforeEach(async () => {
+  projectDir = await fs.mkdtemp(path.join(os.tmpdir(), "template-upgrade-"));
+});
+
+afterEach(async () => {
+  await fs.rm(projectDir, { recursive: true, force: true });
+});
+
+describe("upgradeTemplateFile", () => {
+  it("should take the template's version of untouched files", async () => {
+    expect(await upgradeTemplateFile("f.ts", BASE, text("x\n"), BASE)).toEqual({
+      path: "f.ts",
+      status: "updated",
+      content: text("x\n"),
+    });
+    expect(
+      await upgradeTemplateFile("f.ts", null, text("x\n"), null),
+    ).toMatchObject({
+      status: "added",
+      content: text("x\n"),
+    });
+  });
+
+  it("should merge edits to different lines", async () => {
+    const upgrade = await upgradeTemplateFile(
+      "f.ts",
+      BASE,
+      text("a\nb\nc\nd\nE\n"),
+      text("A\nb\nc\nd\ne\n"),
+    );
+
+    expect(upgrade).toMatchObject({
+      status: "merged",
+      content: text("A\nb\nc\nd\nE\n"),
+    });
+  });
+
+  it("should report overlapping edits as conflicts with markers", async () => {
+    const upgrade = await upgradeTemplateFile(
+      "f.ts",
+      BASE,
+      text("a\nB\nc\nd\ne\n"),
+      text("a\nyours\nc\nd\ne\n"),
+    );
+    const content = upgrade.content?.toString("utf-8");
+
+    expect(upgrade.status).toBe("conflict");
+    expect(content).toContain("<<<<<<< f.ts (yours)\nyours\n");
+    expect(content).toContain("||||||| f.ts (base)\nb\n");
+    expect(content).toContain("=======\nB\n>>>>>>> f.ts (template)");
+  });
+
+  it("should skip files that already match the template", async () => {
+    expect(
+      await upgradeTemplateFile("f.ts", BASE, text("x\n"), text("x\n")),
+    ).toEqual({
+      path: "f.ts",
+      status: "unchanged",
+      content: null,
+    });
+  });
+
+  it("should remove unmodified files the template deleted", async () => {
+    expect(await upgradeTemplateFile("f.ts", BASE, null, BASE)).toMatchObject({
+      status: "removed",
+    });
+  });
+
+  it("should report files deleted on one side and changed on the other", async () => {
+    for (const [theirs, ours] of [
+      [null, text("changed\n")],
+      [text("changed\n"), null],
+    ]) {
+      expect(
+        await upgradeTemplateFile("f.ts", BASE, theirs, ours),
+      ).toMatchObject({ status: "deleted", content: null });
+    }
+  });
+
+  it("should keep binary files byte for byte and never merge them", async () => {
+    const updated = Buffer.concat([ICON, ICON]);
+
+    expect(
+      await upgradeTemplateFile("favicon.ico", ICON, updated, ICON),
+    ).toMatchObject({ status: "updated", content: updated });
+    expect(
+      await upgradeTemplateFile("favicon.ico", ICON, updated, text("mine\n")),
+    ).toEqual({ path: "favicon.ico", status: "binary", content: null });
+  });
+});
+
+describe("applyTemplateUpgrade", () => {
+  it("should write merged files and delete removed ones", async () => {
+    await fs.writeFile(path.join(projectDir, "old.ts"), BASE);
+
+    await applyTemplateUpgrade(projectDir, [
+      { path: "src/new.ts", status: "added", content: text("x\n") },
+      { path: "favicon.ico", status: "updated", content: ICON },
+      { path: "old.ts", status: "removed", content: null },
+      { path: "kept.ts", status: "deleted", content: null },
+    ]);
+
+    expect(
+      await fs.readFile(path.join(projectDir, "src/new.ts"), "utf-8"),
+    ).toBe("x\n");
+    expect(await fs.readFile(path.join(projectDir, "favicon.ico"))).toEqual(
+      ICON,
+    );
+    expect(await Bun.file(path.join(projectDir, "old.ts")).exists()).toBe(
+      false,
+    );
+    expect(await Bun.file(path.join(projectDir, "kept.ts")).exists()).toBe(
+      false,
+    );
+  });
+});
+
+describe("template lock", () => {
+  it("should round-trip the template commit", async () => {
+    const commit = await resolveRevision("HEAD");
+    await writeTemplateLock(projectDir, commit);
+
+    expect(await readTemplateLock(projectDir)).toEqual({
+      version: 1,
+      template: {
+        source: expect.stringContaining("fullstackrecipe#main"),
+        templatePath: TEMPLATE_PATH,
+        commit,
+      },
+    });
+  });
+
+  it("should refuse to lock anything but a commit", async () => {
+    // A date before the history resolves to the empty tree
+    const empty = await resolveRevision("1970-01-01");
+
+    await expect(writeTemplateLock(projectDir, empty)).rejects.toBeInstanceOf(
+      TemplateLockError,
+    );
+    expect(await readTemplateLock(projectDir)).toBeNull();
+  });
+
+  it("should return null without a lockfile and reject other formats", async () => {
+    expect(await readTemplateLock(projectDir)).toBeNull();
+
+    await fs.writeFile(
+      path.join(projectDir, TEMPLATE_LOCK_FILE),
+      JSON.stringify({ version: 1, skills: {} }),
+    );
+    await expect(readTemplateLock(projectDir)).rejects.toBeInstanceOf(
+      TemplateLockError,
+    );
+  });
+});
+
+describe("planTemplateUpgrade", () => {
+  it("should list template files changed between commits", async () => {
+    const head = await resolveRevision("HEAD");
+    // A date before the history resolves to the empty tree
+    const empty = await resolveRevision("1970-01-01");
+
+    expect(await getChangedFiles(empty, head, TEMPLATE_PATH)).toContain(
+      `${TEMPLATE_PATH}/package.json`,
+    );
+    expect(await planTemplateUpgrade(projectDir, head, head)).toEqual([]);
+  });
+
+  it("should read template files from git as bytes", async () => {
+    const head = await resolveRevision("HEAD");
+    const favicon = `${TEMPLATE_PATH}/src/app/favicon.ico`;
+
+    expect(await readFileBytesAtRevision(head, favicon)).toEqual(
+      await fs.readFile(favicon),
+    );
+  });
+});